@@ -2,16 +2,19 @@
 pragma solidity ^0.8.19;
 
 import "../interfaces/IAccessControlManager.sol";
-import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/access/AccessControlEnumerable.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 /**
  * @title AccessControlManager
  * @notice Manages role-based access control for the rental system
- * @dev Implements OpenZeppelin's AccessControl for role management
+ * @dev Implements OpenZeppelin's AccessControlEnumerable for role management
  */
-contract AccessControlManager is IAccessControlManager, AccessControl, Pausable, ReentrancyGuard {
+contract AccessControlManager is IAccessControlManager, AccessControlEnumerable, Pausable, ReentrancyGuard {
+    using EnumerableSet for EnumerableSet.Bytes32Set;
+
     // Role definitions
     bytes32 public constant SYSTEM_ADMIN = keccak256("SYSTEM_ADMIN");
     bytes32 public constant LANDLORD = keccak256("LANDLORD");
@@ -31,9 +34,12 @@ contract AccessControlManager is IAccessControlManager, AccessControl, Pausable,
     bytes32 public constant TERMINATE_AGREEMENT = keccak256("TERMINATE_AGREEMENT");
     bytes32 public constant UPDATE_SYSTEM = keccak256("UPDATE_SYSTEM");
 
-    // Mappings for custom permissions
-    mapping(bytes32 => mapping(address => bool)) private _permissions;
-    mapping(address => bytes32[]) private _userPermissions;
+    // Permissions are resolved at check time from the account's roles and its explicit overrides
+    mapping(bytes32 => EnumerableSet.Bytes32Set) private _rolePermissions; // role => permissions granted by the role
+    mapping(address => EnumerableSet.Bytes32Set) private _accountRoles; // account => roles held
+    mapping(address => EnumerableSet.Bytes32Set) private _grantedPermissions; // account => explicit grants
+    mapping(address => EnumerableSet.Bytes32Set) private _deniedPermissions; // account => explicit denies
+    EnumerableSet.Bytes32Set private _knownPermissions; // Every permission ever granted to a role or account
 
     /**
      * @notice Contract constructor
@@ -68,7 +74,6 @@ contract AccessControlManager is IAccessControlManager, AccessControl, Pausable,
         require(hasRole(getRoleAdmin(role), msg.sender), "Not authorized");
 
         grantRole(role, account);
-        _setupRolePermissions(account, role);
 
         emit RoleAssigned(account, role, msg.sender);
         return true;
@@ -88,7 +93,6 @@ contract AccessControlManager is IAccessControlManager, AccessControl, Pausable,
         require(hasRole(getRoleAdmin(role), msg.sender), "Not authorized");
 
         _revokeRole(role, account);
-        _revokeRolePermissions(account, role);
 
         emit RoleRevoked(account, role, msg.sender);
         return true;
@@ -107,8 +111,9 @@ contract AccessControlManager is IAccessControlManager, AccessControl, Pausable,
         require(account != address(0), "Invalid address");
         require(hasRole(SYSTEM_ADMIN, msg.sender), "Not authorized");
 
-        _permissions[permission][account] = true;
-        _userPermissions[account].push(permission);
+        _knownPermissions.add(permission);
+        _deniedPermissions[account].remove(permission);
+        _grantedPermissions[account].add(permission);
 
         emit PermissionGranted(account, permission);
         return true;
@@ -127,8 +132,9 @@ contract AccessControlManager is IAccessControlManager, AccessControl, Pausable,
         require(account != address(0), "Invalid address");
         require(hasRole(SYSTEM_ADMIN, msg.sender), "Not authorized");
 
-        _permissions[permission][account] = false;
-        _removePermission(account, permission);
+        _knownPermissions.add(permission);
+        _grantedPermissions[account].remove(permission);
+        _deniedPermissions[account].add(permission);
 
         emit PermissionRevoked(account, permission);
         return true;
@@ -137,176 +143,221 @@ contract AccessControlManager is IAccessControlManager, AccessControl, Pausable,
     /**
      * @inheritdoc IAccessControlManager
      */
-    function hasPermission(address account, bytes32 permission)
+    function clearPermissionOverride(address account, bytes32 permission)
         external
-        view
         override
+        whenNotPaused
+        nonReentrant
         returns (bool)
     {
-        return _permissions[permission][account];
+        require(account != address(0), "Invalid address");
+        require(hasRole(SYSTEM_ADMIN, msg.sender), "Not authorized");
+
+        _grantedPermissions[account].remove(permission);
+        _deniedPermissions[account].remove(permission);
+
+        emit PermissionOverrideCleared(account, permission);
+        return true;
     }
 
     /**
      * @inheritdoc IAccessControlManager
      */
-    function getRoles(address account)
+    function setRolePermissions(bytes32 role, bytes32[] calldata permissions)
         external
-        view
         override
-        returns (bytes32[] memory roles)
+        whenNotPaused
+        nonReentrant
+        returns (bool)
     {
-        bytes32[] memory allRoles = new bytes32[](6);
-        allRoles[0] = SYSTEM_ADMIN;
-        allRoles[1] = LANDLORD;
-        allRoles[2] = TENANT;
-        allRoles[3] = BROKER;
-        allRoles[4] = PROPERTY_MANAGER;
-        allRoles[5] = LEGAL_VERIFIER;
-
-        uint256 count = 0;
-        for (uint256 i = 0; i < allRoles.length; i++) {
-            if (hasRole(allRoles[i], account)) {
-                count++;
-            }
-        }
+        require(hasRole(SYSTEM_ADMIN, msg.sender), "Not authorized");
 
-        roles = new bytes32[](count);
-        uint256 index = 0;
-        for (uint256 i = 0; i < allRoles.length; i++) {
-            if (hasRole(allRoles[i], account)) {
-                roles[index] = allRoles[i];
-                index++;
-            }
-        }
+        _setRolePermissions(role, permissions);
 
-        return roles;
+        emit RolePermissionsUpdated(role, permissions);
+        return true;
     }
 
     /**
      * @inheritdoc IAccessControlManager
      */
-    function getPermissions(address account)
+    function hasPermission(address account, bytes32 permission)
         external
         view
         override
-        returns (bytes32[] memory)
+        returns (bool)
     {
-        return _userPermissions[account];
+        return _hasPermission(account, permission);
     }
 
     /**
-     * @notice Sets up default permissions for each role
+     * @inheritdoc IAccessControlManager
      */
-    function _setupDefaultPermissions() private {
-        // System Admin permissions
-        _setupRolePermissions(msg.sender, SYSTEM_ADMIN);
+    function hasRole(address account, bytes32 role) external view override returns (bool) {
+        return hasRole(role, account);
+    }
+
+    /**
+     * @inheritdoc IAccessControlManager
+     */
+    function getRolePermissions(bytes32 role) external view override returns (bytes32[] memory) {
+        return _rolePermissions[role].values();
+    }
+
+    /**
+     * @inheritdoc IAccessControlManager
+     */
+    function getRoleMembers(bytes32 role) external view override returns (address[] memory members) {
+        uint256 count = getRoleMemberCount(role);
+        members = new address[](count);
+        for (uint256 i = 0; i < count; i++) {
+            members[i] = getRoleMember(role, i);
+        }
+        return members;
+    }
 
-        // Define default permissions for other roles
-        // These will be applied when roles are assigned
+    /**
+     * @inheritdoc IAccessControlManager
+     */
+    function getRoles(address account)
+        external
+        view
+        override
+        returns (bytes32[] memory roles)
+    {
+        return _accountRoles[account].values();
     }
 
     /**
-     * @notice Sets up permissions for a specific role
-     * @param account Address to receive permissions
-     * @param role Role to setup permissions for
+     * @inheritdoc IAccessControlManager
      */
-    function _setupRolePermissions(address account, bytes32 role) private {
-        if (role == SYSTEM_ADMIN) {
-            _grantAllPermissions(account);
-        } else if (role == LANDLORD) {
-            _permissions[REGISTER_PROPERTY][account] = true;
-            _permissions[CREATE_AGREEMENT][account] = true;
-            _permissions[ACCESS_PAYMENT_HISTORY][account] = true;
-            _permissions[TRANSFER_OWNERSHIP][account] = true;
-            _permissions[TERMINATE_AGREEMENT][account] = true;
-        } else if (role == TENANT) {
-            _permissions[PROCESS_PAYMENT][account] = true;
-            _permissions[ACCESS_PAYMENT_HISTORY][account] = true;
-            _permissions[TERMINATE_AGREEMENT][account] = true;
-        } else if (role == BROKER) {
-            _permissions[REGISTER_PROPERTY][account] = true;
-            _permissions[CREATE_AGREEMENT][account] = true;
-            _permissions[ACCESS_PAYMENT_HISTORY][account] = true;
-        } else if (role == PROPERTY_MANAGER) {
-            _permissions[UPDATE_AGREEMENT][account] = true;
-            _permissions[PROCESS_PAYMENT][account] = true;
-            _permissions[ACCESS_PAYMENT_HISTORY][account] = true;
-        } else if (role == LEGAL_VERIFIER) {
-            _permissions[VERIFY_COMPLIANCE][account] = true;
+    function getPermissions(address account)
+        external
+        view
+        override
+        returns (bytes32[] memory permissions)
+    {
+        bytes32[] memory known = _knownPermissions.values();
+        uint256 count = 0;
+        for (uint256 i = 0; i < known.length; i++) {
+            if (_hasPermission(account, known[i])) {
+                count++;
+            }
+        }
+
+        permissions = new bytes32[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < known.length; i++) {
+            if (_hasPermission(account, known[i])) {
+                permissions[index] = known[i];
+                index++;
+            }
         }
 
-        // Update user permissions array
-        _updateUserPermissions(account);
+        return permissions;
     }
 
     /**
-     * @notice Grants all system permissions to an address
-     * @param account Address to receive all permissions
+     * @notice Sets up default permissions for each role
      */
-    function _grantAllPermissions(address account) private {
-        _permissions[REGISTER_PROPERTY][account] = true;
-        _permissions[CREATE_AGREEMENT][account] = true;
-        _permissions[UPDATE_AGREEMENT][account] = true;
-        _permissions[PROCESS_PAYMENT][account] = true;
-        _permissions[ACCESS_PAYMENT_HISTORY][account] = true;
-        _permissions[VERIFY_COMPLIANCE][account] = true;
-        _permissions[TRANSFER_OWNERSHIP][account] = true;
-        _permissions[TERMINATE_AGREEMENT][account] = true;
-        _permissions[UPDATE_SYSTEM][account] = true;
-
-        _updateUserPermissions(account);
+    function _setupDefaultPermissions() private {
+        bytes32[] memory adminPermissions = new bytes32[](9);
+        adminPermissions[0] = REGISTER_PROPERTY;
+        adminPermissions[1] = CREATE_AGREEMENT;
+        adminPermissions[2] = UPDATE_AGREEMENT;
+        adminPermissions[3] = PROCESS_PAYMENT;
+        adminPermissions[4] = ACCESS_PAYMENT_HISTORY;
+        adminPermissions[5] = VERIFY_COMPLIANCE;
+        adminPermissions[6] = TRANSFER_OWNERSHIP;
+        adminPermissions[7] = TERMINATE_AGREEMENT;
+        adminPermissions[8] = UPDATE_SYSTEM;
+        _setRolePermissions(SYSTEM_ADMIN, adminPermissions);
+
+        bytes32[] memory landlordPermissions = new bytes32[](5);
+        landlordPermissions[0] = REGISTER_PROPERTY;
+        landlordPermissions[1] = CREATE_AGREEMENT;
+        landlordPermissions[2] = ACCESS_PAYMENT_HISTORY;
+        landlordPermissions[3] = TRANSFER_OWNERSHIP;
+        landlordPermissions[4] = TERMINATE_AGREEMENT;
+        _setRolePermissions(LANDLORD, landlordPermissions);
+
+        bytes32[] memory tenantPermissions = new bytes32[](3);
+        tenantPermissions[0] = PROCESS_PAYMENT;
+        tenantPermissions[1] = ACCESS_PAYMENT_HISTORY;
+        tenantPermissions[2] = TERMINATE_AGREEMENT;
+        _setRolePermissions(TENANT, tenantPermissions);
+
+        // Brokers and property managers act on a landlord's properties only through delegations
+        bytes32[] memory brokerPermissions = new bytes32[](1);
+        brokerPermissions[0] = ACCESS_PAYMENT_HISTORY;
+        _setRolePermissions(BROKER, brokerPermissions);
+
+        bytes32[] memory managerPermissions = new bytes32[](1);
+        managerPermissions[0] = ACCESS_PAYMENT_HISTORY;
+        _setRolePermissions(PROPERTY_MANAGER, managerPermissions);
+
+        bytes32[] memory verifierPermissions = new bytes32[](1);
+        verifierPermissions[0] = VERIFY_COMPLIANCE;
+        _setRolePermissions(LEGAL_VERIFIER, verifierPermissions);
     }
 
     /**
-     * @notice Revokes all permissions associated with a role
-     * @param account Address to revoke permissions from
-     * @param role Role whose permissions should be revoked
+     * @notice Replaces the permission set granted by a role
+     * @param role Role to configure
+     * @param permissions Permissions the role grants to its holders
      */
-    function _revokeRolePermissions(address account, bytes32 role) private {
-        bytes32[] memory permissions = _userPermissions[account];
+    function _setRolePermissions(bytes32 role, bytes32[] memory permissions) private {
+        EnumerableSet.Bytes32Set storage current = _rolePermissions[role];
+        while (current.length() > 0) {
+            current.remove(current.at(current.length() - 1));
+        }
+
         for (uint256 i = 0; i < permissions.length; i++) {
-            _permissions[permissions[i]][account] = false;
+            _knownPermissions.add(permissions[i]);
+            current.add(permissions[i]);
         }
-        delete _userPermissions[account];
     }
 
     /**
-     * @notice Updates the user's permission array
-     * @param account Address to update permissions for
+     * @notice Resolves a permission from the account's overrides, then its roles
+     * @param account Address to check
+     * @param permission Permission to resolve
+     * @return Whether the account currently holds the permission
      */
-    function _updateUserPermissions(address account) private {
-        delete _userPermissions[account];
-        bytes32[] memory allPermissions = new bytes32[](9);
-        allPermissions[0] = REGISTER_PROPERTY;
-        allPermissions[1] = CREATE_AGREEMENT;
-        allPermissions[2] = UPDATE_AGREEMENT;
-        allPermissions[3] = PROCESS_PAYMENT;
-        allPermissions[4] = ACCESS_PAYMENT_HISTORY;
-        allPermissions[5] = VERIFY_COMPLIANCE;
-        allPermissions[6] = TRANSFER_OWNERSHIP;
-        allPermissions[7] = TERMINATE_AGREEMENT;
-        allPermissions[8] = UPDATE_SYSTEM;
-
-        for (uint256 i = 0; i < allPermissions.length; i++) {
-            if (_permissions[allPermissions[i]][account]) {
-                _userPermissions[account].push(allPermissions[i]);
+    function _hasPermission(address account, bytes32 permission) private view returns (bool) {
+        if (_deniedPermissions[account].contains(permission)) {
+            return false;
+        }
+        if (_grantedPermissions[account].contains(permission)) {
+            return true;
+        }
+
+        EnumerableSet.Bytes32Set storage roles = _accountRoles[account];
+        for (uint256 i = 0; i < roles.length(); i++) {
+            if (_rolePermissions[roles.at(i)].contains(permission)) {
+                return true;
             }
         }
+        return false;
     }
 
     /**
-     * @notice Removes a specific permission from user's permission array
-     * @param account Address to remove permission from
-     * @param permission Permission to remove
+     * @notice Adds the role to the account's role set on every grant path, including grantRole
+     * @param role Role being granted
+     * @param account Address receiving the role
      */
-    function _removePermission(address account, bytes32 permission) private {
-        bytes32[] storage permissions = _userPermissions[account];
-        for (uint256 i = 0; i < permissions.length; i++) {
-            if (permissions[i] == permission) {
-                permissions[i] = permissions[permissions.length - 1];
-                permissions.pop();
-                break;
-            }
-        }
+    function _grantRole(bytes32 role, address account) internal virtual override {
+        super._grantRole(role, account);
+        _accountRoles[account].add(role);
+    }
+
+    /**
+     * @notice Removes the role from the account's role set
+     * @param role Role being revoked
+     * @param account Address losing the role
+     */
+    function _revokeRole(bytes32 role, address account) internal virtual override {
+        super._revokeRole(role, account);
+        _accountRoles[account].remove(role);
     }
-}
\ No newline at end of file
+}
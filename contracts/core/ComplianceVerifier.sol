@@ -4,15 +4,22 @@ pragma solidity ^0.8.19;
 import "../interfaces/IComplianceVerifier.sol";
 import "../interfaces/IRentalCore.sol";
 import "../interfaces/IAccessControlManager.sol";
+import "../interfaces/IComplianceOracle.sol";
+import "../utils/RentalUtils.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 
 /**
  * @title ComplianceVerifier
  * @notice Ensures compliance with Polish real estate laws and regulations
- * @dev Integrates with oracles for external data verification
+ * @dev Keeps an append-only history of every check per entity. Integrates with oracles for external data verification. Every oracle required for an
+ *      entity type must report the entity compliant with fresh data, otherwise the check fails.
+ *      Agreement checks also need an unexpired attestation from an authorized verifier, posted
+ *      directly or relayed as an EIP-712 signature
  */
-contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
+contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable, EIP712 {
     // State variables
     IRentalCore public rentalCore;
     IAccessControlManager public accessManager;
@@ -25,29 +32,56 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         address verifier;
     }
 
-    struct ComplianceParameters {
-        bytes32 parametersHash;
-        uint256 lastUpdateTime;
-        bool active;
+    struct CheckReference {
+        uint256 entityId;
+        uint8 entityType;
+        uint256 index; // Position in the entity's check history
+    }
+
+    struct Attestation {
+        bool passed;
+        bytes32 detailsHash;
+        uint256 issuedAt;
+        uint256 expiresAt;
+        address verifier;
+    }
+
+    struct ParametersVersion {
+        ComplianceParameters parameters;
+        uint256 effectiveFrom;
     }
 
     // Mappings
-    mapping(uint256 => mapping(uint8 => ComplianceCheck)) private _complianceChecks; // entityId => entityType => ComplianceCheck
+    mapping(bytes32 => ComplianceCheck[]) private _checkHistory; // entity key => append-only ComplianceCheck history
+    mapping(address => CheckReference[]) private _verifierChecks; // verifier => checks performed
+    mapping(uint8 => uint256) private _validityPeriods; // entityType => seconds a check stays valid (0 = no expiry)
     mapping(address => bool) private _authorizedVerifiers;
     mapping(bytes32 => address) private _oracles; // oracleType => oracleAddress
-    ComplianceParameters private _currentParameters;
+    mapping(uint8 => bytes32[]) private _requiredOracles; // entityType => oracle types to query
+    mapping(bytes32 => Attestation) private _attestations; // entity key => latest attestation
+    ParametersVersion[] private _parametersVersions; // version N is stored at index N - 1
 
     // Events (in addition to interface events)
     event OracleRegistered(bytes32 indexed oracleType, address indexed oracleAddress);
     event VerifierAuthorized(address indexed verifier);
     event VerifierRevoked(address indexed verifier);
     event ComplianceCheckFailed(uint256 indexed entityId, uint8 entityType, bytes32 reason);
+    event RequiredOraclesUpdated(uint8 indexed entityType, bytes32[] oracleTypes);
+    event ValidityPeriodUpdated(uint8 indexed entityType, uint256 validityPeriod);
 
     // Constants
     uint8 public constant AGREEMENT_TYPE = 1;
     uint8 public constant PROPERTY_TYPE = 2;
     uint8 public constant LANDLORD_TYPE = 3;
     uint8 public constant TENANT_TYPE = 4;
+    bytes32 public constant LAND_REGISTRY_ORACLE = keccak256("LAND_REGISTRY"); // Księga wieczysta status
+    bytes32 public constant SAFETY_CERTIFICATE_ORACLE = keccak256("SAFETY_CERTIFICATE");
+    bytes32 public constant IDENTITY_ORACLE = keccak256("IDENTITY");
+    uint256 public constant MAX_ORACLE_DATA_AGE = 30 days; // Older oracle data counts as stale
+    bytes32 public constant ATTESTATION_TYPEHASH = keccak256(
+        "Attestation(uint256 entityId,uint8 entityType,bool passed,bytes32 detailsHash,uint256 issuedAt,uint256 expiresAt)"
+    );
+    bytes32 public constant NO_VALID_ATTESTATION = keccak256("NO_VALID_ATTESTATION");
 
     // Modifiers
     modifier onlyAuthorizedVerifier() {
@@ -55,6 +89,16 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         _;
     }
 
+    // Checks are appended to the compliance history, so only RentalCore and compliance staff may trigger them
+    modifier onlyComplianceChecker() {
+        require(
+            msg.sender == address(rentalCore) ||
+                accessManager.hasPermission(msg.sender, keccak256("VERIFY_COMPLIANCE")),
+            "Not authorized to verify"
+        );
+        _;
+    }
+
     modifier onlyAdmin() {
         require(
             accessManager.hasRole(msg.sender, keccak256("SYSTEM_ADMIN")),
@@ -68,42 +112,65 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
      * @param rentalCoreAddress Address of the RentalCore contract
      * @param accessManagerAddress Address of the AccessControlManager contract
      */
-    constructor(address rentalCoreAddress, address accessManagerAddress) {
+    constructor(address rentalCoreAddress, address accessManagerAddress) EIP712("ComplianceVerifier", "1") {
         require(rentalCoreAddress != address(0), "Invalid rental core");
         require(accessManagerAddress != address(0), "Invalid access manager");
         
         rentalCore = IRentalCore(rentalCoreAddress);
         accessManager = IAccessControlManager(accessManagerAddress);
+
+        _requiredOracles[PROPERTY_TYPE].push(LAND_REGISTRY_ORACLE);
+        _requiredOracles[PROPERTY_TYPE].push(SAFETY_CERTIFICATE_ORACLE);
+        _requiredOracles[LANDLORD_TYPE].push(IDENTITY_ORACLE);
+        _requiredOracles[TENANT_TYPE].push(IDENTITY_ORACLE);
     }
 
     /**
      * @inheritdoc IComplianceVerifier
      */
-    function verifyContractCompliance(uint256 agreementId)
+    function verifyAgreementCompliance(uint256 agreementId)
         external
         override
         whenNotPaused
         nonReentrant
+        onlyComplianceChecker
         returns (bool passed, bytes32 detailsHash)
     {
-        require(_currentParameters.active, "Compliance parameters not set");
+        require(_currentParametersVersion() != 0, "Compliance parameters not set");
 
         // Get agreement details
-        (uint256 propertyId, address landlord, address tenant,,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        (uint256 propertyId, address landlord, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
 
         // Verify all parties
         (bool landlordCompliant, bytes32 landlordDetails) = _verifyPartyCompliance(landlord, LANDLORD_TYPE);
         (bool tenantCompliant, bytes32 tenantDetails) = _verifyPartyCompliance(tenant, TENANT_TYPE);
         (bool propertyCompliant, bytes32 propertyDetails) = _verifyPropertyCompliance(propertyId);
 
-        bool allCompliant = landlordCompliant && tenantCompliant && propertyCompliant;
+        // The agreement itself is only as compliant as its latest unexpired attestation,
+        // and only while the verifier who issued it is still authorized
+        Attestation storage attestation = _attestations[_entityKey(agreementId, AGREEMENT_TYPE)];
+        bool attested = attestation.passed &&
+            attestation.expiresAt > block.timestamp &&
+            _authorizedVerifiers[attestation.verifier];
+        if (!attested) {
+            emit ComplianceCheckFailed(agreementId, AGREEMENT_TYPE, NO_VALID_ATTESTATION);
+        }
+
+        bool allCompliant = landlordCompliant && tenantCompliant && propertyCompliant && attested;
         bytes32 finalHash = keccak256(abi.encodePacked(
             landlordDetails,
             tenantDetails,
-            propertyDetails
+            propertyDetails,
+            attestation.detailsHash
         ));
 
-        _recordComplianceCheck(agreementId, AGREEMENT_TYPE, allCompliant, finalHash);
+        _recordComplianceCheck(
+            agreementId,
+            AGREEMENT_TYPE,
+            allCompliant,
+            finalHash,
+            attested ? attestation.verifier : address(0)
+        );
 
         if (!allCompliant) {
             emit ComplianceCheckFailed(agreementId, AGREEMENT_TYPE, finalHash);
@@ -112,6 +179,22 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         return (allCompliant, finalHash);
     }
 
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function verifyPropertyCompliance(uint256 propertyId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        onlyComplianceChecker
+        returns (bool passed, bytes32 detailsHash)
+    {
+        // Reverts for properties that were never registered
+        rentalCore.getPropertyDetails(propertyId);
+        return _verifyPropertyCompliance(propertyId);
+    }
+
     /**
      * @inheritdoc IComplianceVerifier
      */
@@ -120,6 +203,7 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         override
         whenNotPaused
         nonReentrant
+        onlyComplianceChecker
         returns (bool passed, bytes32 detailsHash)
     {
         return _verifyPartyCompliance(landlordAddress, LANDLORD_TYPE);
@@ -133,6 +217,7 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         override
         whenNotPaused
         nonReentrant
+        onlyComplianceChecker
         returns (bool passed, bytes32 detailsHash)
     {
         return _verifyPartyCompliance(tenantAddress, TENANT_TYPE);
@@ -141,22 +226,99 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
     /**
      * @inheritdoc IComplianceVerifier
      */
-    function updateComplianceParameters(bytes32 parametersHash)
+    function submitAttestation(
+        uint256 entityId,
+        uint8 entityType,
+        bool passed,
+        bytes32 detailsHash,
+        uint256 issuedAt,
+        uint256 expiresAt
+    ) external override whenNotPaused onlyAuthorizedVerifier {
+        _storeAttestation(entityId, entityType, passed, detailsHash, issuedAt, expiresAt, msg.sender);
+    }
+
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function relayAttestation(
+        uint256 entityId,
+        uint8 entityType,
+        bool passed,
+        bytes32 detailsHash,
+        uint256 issuedAt,
+        uint256 expiresAt,
+        bytes calldata signature
+    ) external override whenNotPaused {
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            ATTESTATION_TYPEHASH,
+            entityId,
+            entityType,
+            passed,
+            detailsHash,
+            issuedAt,
+            expiresAt
+        )));
+        address signer = ECDSA.recover(digest, signature);
+        require(_authorizedVerifiers[signer], "Not authorized verifier");
+
+        _storeAttestation(entityId, entityType, passed, detailsHash, issuedAt, expiresAt, signer);
+    }
+
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function getAttestation(uint256 entityId, uint8 entityType)
+        external
+        view
+        override
+        returns (bool passed, bytes32 detailsHash, uint256 issuedAt, uint256 expiresAt, address verifier)
+    {
+        Attestation storage attestation = _attestations[_entityKey(entityId, entityType)];
+        return (
+            attestation.passed,
+            attestation.detailsHash,
+            attestation.issuedAt,
+            attestation.expiresAt,
+            attestation.verifier
+        );
+    }
+
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function updateComplianceParameters(ComplianceParameters calldata parameters, uint256 effectiveFrom)
         external
         override
         onlyAdmin
-        returns (bool)
+        returns (uint256 version)
     {
-        require(parametersHash != bytes32(0), "Invalid parameters");
+        require(
+            parameters.maxDepositMonths > 0 &&
+            parameters.maxDepositMonths <= RentalUtils.MAX_DEPOSIT_MONTHS &&
+            parameters.minRentalDays > 0 &&
+            parameters.maxRentalDays >= parameters.minRentalDays &&
+            parameters.noticePeriodDays > 0,
+            "Invalid parameters"
+        );
 
-        _currentParameters = ComplianceParameters({
-            parametersHash: parametersHash,
-            lastUpdateTime: block.timestamp,
-            active: true
-        });
+        if (effectiveFrom == 0) {
+            effectiveFrom = block.timestamp;
+        }
+        require(effectiveFrom >= block.timestamp, "Invalid effective date");
+        // Versions take effect in order, so the latest one in effect is always the current one
+        uint256 count = _parametersVersions.length;
+        require(
+            count == 0 || effectiveFrom >= _parametersVersions[count - 1].effectiveFrom,
+            "Invalid effective date"
+        );
+
+        _parametersVersions.push(ParametersVersion({
+            parameters: parameters,
+            effectiveFrom: effectiveFrom
+        }));
+        version = count + 1;
 
-        emit ComplianceParametersUpdated(parametersHash, block.timestamp);
-        return true;
+        emit ComplianceParametersUpdated(version, parameters, effectiveFrom);
     }
 
     /**
@@ -166,12 +328,92 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         external
         view
         override
-        returns (bool passed, uint256 lastCheckTime, bytes32 detailsHash)
+        returns (bool passed, uint256 lastCheckTime, bytes32 detailsHash, bool expired)
     {
         require(entityType <= TENANT_TYPE, "Invalid entity type");
 
-        ComplianceCheck storage check = _complianceChecks[entityId][entityType];
-        return (check.passed, check.timestamp, check.detailsHash);
+        ComplianceCheck[] storage history = _checkHistory[_entityKey(entityId, entityType)];
+        if (history.length == 0) {
+            return (false, 0, bytes32(0), false);
+        }
+
+        ComplianceCheck storage check = history[history.length - 1];
+        uint256 validityPeriod = _validityPeriods[entityType];
+        expired = validityPeriod != 0 && block.timestamp > check.timestamp + validityPeriod;
+
+        return (check.passed && !expired, check.timestamp, check.detailsHash, expired);
+    }
+
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function getComplianceHistory(uint256 entityId, uint8 entityType, uint256 offset, uint256 limit)
+        external
+        view
+        override
+        returns (
+            bool[] memory passed,
+            uint256[] memory timestamps,
+            bytes32[] memory detailsHashes,
+            address[] memory verifiers,
+            uint256 total
+        )
+    {
+        ComplianceCheck[] storage history = _checkHistory[_entityKey(entityId, entityType)];
+        total = history.length;
+        uint256 count = _pageSize(total, offset, limit);
+
+        passed = new bool[](count);
+        timestamps = new uint256[](count);
+        detailsHashes = new bytes32[](count);
+        verifiers = new address[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            ComplianceCheck storage check = history[offset + i];
+            passed[i] = check.passed;
+            timestamps[i] = check.timestamp;
+            detailsHashes[i] = check.detailsHash;
+            verifiers[i] = check.verifier;
+        }
+
+        return (passed, timestamps, detailsHashes, verifiers, total);
+    }
+
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function getVerifierChecks(address verifier, uint256 offset, uint256 limit)
+        external
+        view
+        override
+        returns (
+            uint256[] memory entityIds,
+            uint8[] memory entityTypes,
+            bool[] memory passed,
+            uint256[] memory timestamps,
+            uint256 total
+        )
+    {
+        CheckReference[] storage references = _verifierChecks[verifier];
+        total = references.length;
+        uint256 count = _pageSize(total, offset, limit);
+
+        entityIds = new uint256[](count);
+        entityTypes = new uint8[](count);
+        passed = new bool[](count);
+        timestamps = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            CheckReference storage checkRef = references[offset + i];
+            ComplianceCheck storage check =
+                _checkHistory[_entityKey(checkRef.entityId, checkRef.entityType)][checkRef.index];
+            entityIds[i] = checkRef.entityId;
+            entityTypes[i] = checkRef.entityType;
+            passed[i] = check.passed;
+            timestamps[i] = check.timestamp;
+        }
+
+        return (entityIds, entityTypes, passed, timestamps, total);
     }
 
     /**
@@ -193,9 +435,33 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         external
         view
         override
-        returns (bytes32 parametersHash, uint256 lastUpdateTime)
+        returns (uint256 version, ComplianceParameters memory parameters)
+    {
+        version = _currentParametersVersion();
+        if (version != 0) {
+            parameters = _parametersVersions[version - 1].parameters;
+        }
+    }
+
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function getParameters(uint256 version)
+        external
+        view
+        override
+        returns (ComplianceParameters memory parameters, uint256 effectiveFrom)
     {
-        return (_currentParameters.parametersHash, _currentParameters.lastUpdateTime);
+        require(version > 0 && version <= _parametersVersions.length, "Version doesn't exist");
+        ParametersVersion storage entry = _parametersVersions[version - 1];
+        return (entry.parameters, entry.effectiveFrom);
+    }
+
+    /**
+     * @inheritdoc IComplianceVerifier
+     */
+    function getParametersVersionCount() external view override returns (uint256) {
+        return _parametersVersions.length;
     }
 
     /**
@@ -229,6 +495,55 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         emit OracleRegistered(oracleType, oracleAddress);
     }
 
+    /**
+     * @notice Sets the oracle types queried when checking an entity type
+     * @param entityType Type of entity (PROPERTY_TYPE, LANDLORD_TYPE or TENANT_TYPE)
+     * @param oracleTypes Oracle types that must all report the entity compliant
+     */
+    function setRequiredOracles(uint8 entityType, bytes32[] calldata oracleTypes) external onlyAdmin {
+        require(entityType >= PROPERTY_TYPE && entityType <= TENANT_TYPE, "Invalid entity type");
+        _requiredOracles[entityType] = oracleTypes;
+        emit RequiredOraclesUpdated(entityType, oracleTypes);
+    }
+
+    /**
+     * @notice Sets how long a check of an entity type stays valid before it must be repeated
+     * @param entityType Type of entity
+     * @param validityPeriod Validity period in seconds (0 for no expiry)
+     */
+    function setValidityPeriod(uint8 entityType, uint256 validityPeriod) external onlyAdmin {
+        require(entityType >= AGREEMENT_TYPE && entityType <= TENANT_TYPE, "Invalid entity type");
+        _validityPeriods[entityType] = validityPeriod;
+        emit ValidityPeriodUpdated(entityType, validityPeriod);
+    }
+
+    /**
+     * @notice Gets how long a check of an entity type stays valid
+     * @param entityType Type of entity
+     * @return Validity period in seconds (0 for no expiry)
+     */
+    function getValidityPeriod(uint8 entityType) external view returns (uint256) {
+        return _validityPeriods[entityType];
+    }
+
+    /**
+     * @notice Gets the oracle types queried when checking an entity type
+     * @param entityType Type of entity
+     * @return Oracle types that must all report the entity compliant
+     */
+    function getRequiredOracles(uint8 entityType) external view returns (bytes32[] memory) {
+        return _requiredOracles[entityType];
+    }
+
+    /**
+     * @notice Gets the oracle registered for an oracle type
+     * @param oracleType Type of oracle
+     * @return Address of the oracle contract (zero if none)
+     */
+    function getOracle(bytes32 oracleType) external view returns (address) {
+        return _oracles[oracleType];
+    }
+
     /**
      * @notice Verifies compliance for a party (landlord or tenant)
      * @param partyAddress Address of the party
@@ -241,21 +556,16 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         require(partyAddress != address(0), "Invalid party address");
         require(partyType == LANDLORD_TYPE || partyType == TENANT_TYPE, "Invalid party type");
 
-        // Here we would integrate with oracles to verify:
-        // - Legal status
-        // - Tax compliance
-        // - Background checks
-        // - Other regulatory requirements
-
-        // For now, we'll implement a basic check
+        uint256 entityId = uint256(uint160(partyAddress));
         bytes32 checkHash = keccak256(abi.encodePacked(
             partyAddress,
             partyType,
             block.timestamp
         ));
 
-        bool checkPassed = true; // In production, this would be based on oracle data
-        _recordComplianceCheck(uint256(uint160(partyAddress)), partyType, checkPassed, checkHash);
+        bool checkPassed;
+        (checkPassed, checkHash) = _queryOracles(entityId, partyType, checkHash);
+        _recordComplianceCheck(entityId, partyType, checkPassed, checkHash, address(0));
 
         return (checkPassed, checkHash);
     }
@@ -268,44 +578,194 @@ contract ComplianceVerifier is IComplianceVerifier, ReentrancyGuard, Pausable {
         private
         returns (bool passed, bytes32 detailsHash)
     {
-        // Here we would integrate with oracles to verify:
-        // - Property registration status
-        // - Building permits
-        // - Safety certificates
-        // - Zoning compliance
-
-        // For now, we'll implement a basic check
         bytes32 checkHash = keccak256(abi.encodePacked(
             propertyId,
             block.timestamp
         ));
 
-        bool checkPassed = true; // In production, this would be based on oracle data
-        _recordComplianceCheck(propertyId, PROPERTY_TYPE, checkPassed, checkHash);
+        bool checkPassed;
+        (checkPassed, checkHash) = _queryOracles(propertyId, PROPERTY_TYPE, checkHash);
+        _recordComplianceCheck(propertyId, PROPERTY_TYPE, checkPassed, checkHash, address(0));
 
         return (checkPassed, checkHash);
     }
 
+    /**
+     * @notice Queries every oracle required for an entity type
+     * @dev Fails closed: a missing oracle, a reverting oracle, a negative answer or stale data
+     *      fails the check. The first failing oracle type is emitted as the failure reason
+     * @param entityId ID of the entity
+     * @param entityType Type of entity
+     * @param checkHash Hash identifying the check, folded with each oracle's data hash
+     * @return passed Whether all oracles reported the entity compliant
+     * @return detailsHash Hash of the check and the oracle data
+     */
+    function _queryOracles(uint256 entityId, uint8 entityType, bytes32 checkHash)
+        private
+        returns (bool passed, bytes32 detailsHash)
+    {
+        bytes32[] storage oracleTypes = _requiredOracles[entityType];
+        passed = oracleTypes.length > 0;
+        detailsHash = checkHash;
+
+        for (uint256 i = 0; i < oracleTypes.length && passed; i++) {
+            (bool compliant, uint256 updatedAt, bytes32 dataHash) =
+                _readOracle(_oracles[oracleTypes[i]], entityId, entityType);
+
+            if (!compliant || updatedAt > block.timestamp || block.timestamp - updatedAt > MAX_ORACLE_DATA_AGE) {
+                passed = false;
+                emit ComplianceCheckFailed(entityId, entityType, oracleTypes[i]);
+            }
+            detailsHash = keccak256(abi.encodePacked(detailsHash, oracleTypes[i], dataHash));
+        }
+
+        return (passed, detailsHash);
+    }
+
+    /**
+     * @notice Reads an oracle's compliance data without letting a faulty oracle revert the check
+     * @dev try/catch does not catch calls to addresses without code or return data that fails to
+     *      decode, so the oracle is called with a low-level staticcall and its answer validated here.
+     *      Any unusable answer reads as not compliant
+     * @param oracle Address of the oracle (zero if none is registered)
+     * @param entityId ID of the entity
+     * @param entityType Type of entity
+     * @return compliant Whether the oracle reported the entity compliant
+     * @return updatedAt Time the oracle data was last updated
+     * @return dataHash Hash of the underlying off-chain record
+     */
+    function _readOracle(address oracle, uint256 entityId, uint8 entityType)
+        private
+        view
+        returns (bool compliant, uint256 updatedAt, bytes32 dataHash)
+    {
+        if (oracle.code.length == 0) {
+            return (false, 0, bytes32(0));
+        }
+
+        (bool success, bytes memory data) = oracle.staticcall(
+            abi.encodeWithSelector(IComplianceOracle.getComplianceData.selector, entityId, entityType)
+        );
+        if (!success || data.length < 96) {
+            return (false, 0, bytes32(0));
+        }
+
+        // Decoded as a word so an out-of-range boolean fails closed instead of reverting
+        uint256 compliantWord;
+        (compliantWord, updatedAt, dataHash) = abi.decode(data, (uint256, uint256, bytes32));
+        return (compliantWord == 1, updatedAt, dataHash);
+    }
+
+    /**
+     * @notice Stores an attestation as the latest for its entity
+     * @dev Attestations must be newer than the stored one, so an old signature cannot be
+     *      replayed over a later result
+     * @param entityId ID of the entity
+     * @param entityType Type of entity
+     * @param passed Whether the entity passed the verifier's check
+     * @param detailsHash Hash of the verifier's off-chain report
+     * @param issuedAt Time the check was performed
+     * @param expiresAt Time the attestation stops counting
+     * @param verifier Authorized verifier making the attestation
+     */
+    function _storeAttestation(
+        uint256 entityId,
+        uint8 entityType,
+        bool passed,
+        bytes32 detailsHash,
+        uint256 issuedAt,
+        uint256 expiresAt,
+        address verifier
+    ) private {
+        require(entityType >= AGREEMENT_TYPE && entityType <= TENANT_TYPE, "Invalid entity type");
+        require(issuedAt <= block.timestamp, "Invalid issue time");
+        require(expiresAt > block.timestamp, "Attestation expired");
+        bytes32 key = _entityKey(entityId, entityType);
+        require(issuedAt > _attestations[key].issuedAt, "Stale attestation");
+
+        _attestations[key] = Attestation({
+            passed: passed,
+            detailsHash: detailsHash,
+            issuedAt: issuedAt,
+            expiresAt: expiresAt,
+            verifier: verifier
+        });
+
+        _recordComplianceCheck(entityId, entityType, passed, detailsHash, verifier);
+
+        emit AttestationSubmitted(entityId, entityType, verifier, passed, detailsHash, expiresAt);
+    }
+
     /**
      * @notice Records a compliance check result
+     * @dev Checks backed by a verifier are also listed under that verifier
      * @param entityId ID of the entity
      * @param entityType Type of entity
      * @param passed Whether the check passed
      * @param detailsHash Hash of check details
+     * @param verifier Authorized verifier behind the result (zero for oracle checks)
      */
     function _recordComplianceCheck(
         uint256 entityId,
         uint8 entityType,
         bool passed,
-        bytes32 detailsHash
+        bytes32 detailsHash,
+        address verifier
     ) private {
-        _complianceChecks[entityId][entityType] = ComplianceCheck({
+        ComplianceCheck[] storage history = _checkHistory[_entityKey(entityId, entityType)];
+        uint256 index = history.length;
+        history.push(ComplianceCheck({
             passed: passed,
             timestamp: block.timestamp,
             detailsHash: detailsHash,
-            verifier: msg.sender
-        });
+            verifier: verifier
+        }));
+        if (verifier != address(0)) {
+            _verifierChecks[verifier].push(CheckReference({
+                entityId: entityId,
+                entityType: entityType,
+                index: index
+            }));
+        }
 
         emit ComplianceCheckCompleted(entityId, entityType, passed, detailsHash);
     }
-}
\ No newline at end of file
+
+    /**
+     * @notice Gets the latest compliance parameters version already in effect
+     * @return Version number in effect (0 if none)
+     */
+    function _currentParametersVersion() private view returns (uint256) {
+        uint256 version = _parametersVersions.length;
+        while (version > 0 && _parametersVersions[version - 1].effectiveFrom > block.timestamp) {
+            version--;
+        }
+        return version;
+    }
+
+    /**
+     * @notice Gets the number of entries on a page
+     * @param total Total number of entries
+     * @param offset Index of the first entry
+     * @param limit Maximum number of entries
+     * @return Number of entries from offset, capped at limit
+     */
+    function _pageSize(uint256 total, uint256 offset, uint256 limit) private pure returns (uint256) {
+        if (offset >= total) {
+            return 0;
+        }
+        return total - offset > limit ? limit : total - offset;
+    }
+
+    /**
+     * @notice Derives the storage key of an entity
+     * @dev Agreement and property IDs overlap, and party IDs are addresses cast to uint256,
+     *      so the entity type is part of every key
+     * @param entityId ID of the entity
+     * @param entityType Type of entity
+     * @return Key identifying the entity
+     */
+    function _entityKey(uint256 entityId, uint8 entityType) private pure returns (bytes32) {
+        return keccak256(abi.encode(entityType, entityId));
+    }
+}
@@ -0,0 +1,330 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/IDisputeManager.sol";
+import "../interfaces/IRentalCore.sol";
+import "../interfaces/IPaymentManager.sol";
+import "../interfaces/IAccessControlManager.sol";
+import "../utils/DocumentUtils.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/Counters.sol";
+
+/**
+ * @title DisputeManager
+ * @notice Handles disputes between landlords and tenants of rental agreements
+ * @dev Parties open disputes and submit evidence; legal verifiers rule on them,
+ *      splitting the escrowed deposit held by PaymentManager
+ */
+contract DisputeManager is IDisputeManager, ReentrancyGuard, Pausable {
+    using Counters for Counters.Counter;
+
+    // State variables
+    IRentalCore public rentalCore;
+    IPaymentManager public paymentManager;
+    IAccessControlManager public accessManager;
+
+    Counters.Counter private _disputeIds;
+
+    // Agreement status values as defined in RentalCore.AgreementStatus
+    uint8 private constant STATUS_ACTIVE = 1;
+    uint8 private constant STATUS_TERMINATED = 2;
+    uint8 private constant STATUS_DISPUTED = 4;
+
+    // Structs
+    struct Evidence {
+        address submittedBy;
+        bytes32 evidenceHash;
+        uint256 timestamp;
+    }
+
+    struct Dispute {
+        uint256 agreementId;
+        address openedBy;
+        uint8 disputeType;
+        uint256 openedAt;
+        bool resolved;
+        bytes32 rulingHash;
+        Evidence[] evidence;
+    }
+
+    // Mappings
+    mapping(uint256 => Dispute) private _disputes;
+    mapping(uint256 => uint256) private _openDisputes; // agreementId => disputeId
+
+    // Modifiers
+    modifier disputeExists(uint256 disputeId) {
+        require(_disputes[disputeId].agreementId != 0, "Dispute doesn't exist");
+        _;
+    }
+
+    modifier onlyDisputeParty(uint256 disputeId) {
+        (, address landlord, address tenant,,,,,,) = rentalCore.getAgreementDetails(_disputes[disputeId].agreementId);
+        require(msg.sender == landlord || msg.sender == tenant, "Not agreement party");
+        _;
+    }
+
+    modifier onlyArbitrator() {
+        require(
+            accessManager.hasRole(msg.sender, keccak256("LEGAL_VERIFIER")),
+            "Not legal verifier"
+        );
+        _;
+    }
+
+    /**
+     * @notice Contract constructor
+     * @param rentalCoreAddress Address of the RentalCore contract
+     * @param paymentManagerAddress Address of the PaymentManager contract
+     * @param accessManagerAddress Address of the AccessControlManager contract
+     */
+    constructor(
+        address rentalCoreAddress,
+        address paymentManagerAddress,
+        address accessManagerAddress
+    ) {
+        require(rentalCoreAddress != address(0), "Invalid rental core");
+        require(paymentManagerAddress != address(0), "Invalid payment manager");
+        require(accessManagerAddress != address(0), "Invalid access manager");
+
+        rentalCore = IRentalCore(rentalCoreAddress);
+        paymentManager = IPaymentManager(paymentManagerAddress);
+        accessManager = IAccessControlManager(accessManagerAddress);
+    }
+
+    /**
+     * @inheritdoc IDisputeManager
+     */
+    function openDispute(
+        uint256 agreementId,
+        uint8 disputeType,
+        bytes32 evidenceHash
+    )
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        returns (uint256)
+    {
+        require(evidenceHash != bytes32(0), "Invalid evidence");
+        require(_openDisputes[agreementId] == 0, "Dispute already open");
+
+        (, address landlord, address tenant,,,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == landlord || msg.sender == tenant, "Not agreement party");
+        require(status == STATUS_ACTIVE, "Agreement not active");
+
+        _disputeIds.increment();
+        uint256 newDisputeId = _disputeIds.current();
+
+        Dispute storage dispute = _disputes[newDisputeId];
+        dispute.agreementId = agreementId;
+        dispute.openedBy = msg.sender;
+        dispute.disputeType = disputeType;
+        dispute.openedAt = block.timestamp;
+        dispute.evidence.push(Evidence({
+            submittedBy: msg.sender,
+            evidenceHash: evidenceHash,
+            timestamp: block.timestamp
+        }));
+
+        _openDisputes[agreementId] = newDisputeId;
+
+        bytes32 disputeHash = _disputeHash(newDisputeId, landlord, tenant);
+        rentalCore.updateAgreementStatus(agreementId, STATUS_DISPUTED, disputeHash);
+
+        emit DisputeOpened(newDisputeId, agreementId, msg.sender, disputeHash);
+        emit EvidenceSubmitted(newDisputeId, msg.sender, evidenceHash);
+        return newDisputeId;
+    }
+
+    /**
+     * @inheritdoc IDisputeManager
+     */
+    function submitEvidence(uint256 disputeId, bytes32 evidenceHash)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        disputeExists(disputeId)
+        onlyDisputeParty(disputeId)
+    {
+        require(evidenceHash != bytes32(0), "Invalid evidence");
+
+        Dispute storage dispute = _disputes[disputeId];
+        require(!dispute.resolved, "Dispute already resolved");
+
+        dispute.evidence.push(Evidence({
+            submittedBy: msg.sender,
+            evidenceHash: evidenceHash,
+            timestamp: block.timestamp
+        }));
+
+        emit EvidenceSubmitted(disputeId, msg.sender, evidenceHash);
+    }
+
+    /**
+     * @inheritdoc IDisputeManager
+     */
+    function resolveDispute(
+        uint256 disputeId,
+        uint256 landlordAward,
+        uint256 tenantAward,
+        bool terminate,
+        bytes32 rulingHash
+    )
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        disputeExists(disputeId)
+        onlyArbitrator
+    {
+        require(rulingHash != bytes32(0), "Invalid ruling");
+
+        Dispute storage dispute = _disputes[disputeId];
+        require(!dispute.resolved, "Dispute already resolved");
+
+        uint256 agreementId = dispute.agreementId;
+        require(
+            landlordAward + tenantAward <= paymentManager.getDepositBalance(agreementId),
+            "Awards exceed deposit"
+        );
+
+        dispute.resolved = true;
+        dispute.rulingHash = rulingHash;
+        delete _openDisputes[agreementId];
+
+        (, address landlord, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        if (landlordAward > 0) {
+            paymentManager.releaseDeposit(agreementId, landlordAward, payable(landlord));
+        }
+        if (tenantAward > 0) {
+            paymentManager.releaseDeposit(agreementId, tenantAward, payable(tenant));
+        }
+
+        rentalCore.updateAgreementStatus(
+            agreementId,
+            terminate ? STATUS_TERMINATED : STATUS_ACTIVE,
+            rulingHash
+        );
+
+        emit DisputeResolved(disputeId, msg.sender, landlordAward, tenantAward, terminate, rulingHash);
+    }
+
+    /**
+     * @inheritdoc IDisputeManager
+     */
+    function getDispute(uint256 disputeId)
+        external
+        view
+        override
+        disputeExists(disputeId)
+        returns (
+            uint256 agreementId,
+            address openedBy,
+            uint8 disputeType,
+            uint256 openedAt,
+            bool resolved,
+            bytes32 rulingHash
+        )
+    {
+        Dispute storage dispute = _disputes[disputeId];
+        return (
+            dispute.agreementId,
+            dispute.openedBy,
+            dispute.disputeType,
+            dispute.openedAt,
+            dispute.resolved,
+            dispute.rulingHash
+        );
+    }
+
+    /**
+     * @inheritdoc IDisputeManager
+     */
+    function getEvidence(uint256 disputeId)
+        external
+        view
+        override
+        disputeExists(disputeId)
+        returns (
+            address[] memory submitters,
+            bytes32[] memory evidenceHashes,
+            uint256[] memory timestamps
+        )
+    {
+        Evidence[] storage evidence = _disputes[disputeId].evidence;
+        uint256 length = evidence.length;
+
+        submitters = new address[](length);
+        evidenceHashes = new bytes32[](length);
+        timestamps = new uint256[](length);
+
+        for (uint256 i = 0; i < length; i++) {
+            submitters[i] = evidence[i].submittedBy;
+            evidenceHashes[i] = evidence[i].evidenceHash;
+            timestamps[i] = evidence[i].timestamp;
+        }
+
+        return (submitters, evidenceHashes, timestamps);
+    }
+
+    /**
+     * @inheritdoc IDisputeManager
+     */
+    function getOpenDispute(uint256 agreementId) external view override returns (uint256) {
+        return _openDisputes[agreementId];
+    }
+
+    /**
+     * @notice Emergency shutdown of the contract
+     * @dev Only callable by system admin
+     */
+    function emergencyShutdown() external {
+        require(
+            accessManager.hasRole(msg.sender, keccak256("SYSTEM_ADMIN")),
+            "Not system admin"
+        );
+        _pause();
+    }
+
+    /**
+     * @notice Resumes the contract after emergency shutdown
+     * @dev Only callable by system admin
+     */
+    function resumeOperation() external {
+        require(
+            accessManager.hasRole(msg.sender, keccak256("SYSTEM_ADMIN")),
+            "Not system admin"
+        );
+        _unpause();
+    }
+
+    /**
+     * @notice Computes the dispute record hash over the parties and evidence
+     * @param disputeId ID of the dispute
+     * @param landlord Address of the landlord
+     * @param tenant Address of the tenant
+     * @return Hash of the dispute record
+     */
+    function _disputeHash(uint256 disputeId, address landlord, address tenant) private view returns (bytes32) {
+        Dispute storage dispute = _disputes[disputeId];
+
+        address[] memory parties = new address[](2);
+        parties[0] = landlord;
+        parties[1] = tenant;
+
+        bytes32[] memory evidence = new bytes32[](dispute.evidence.length);
+        for (uint256 i = 0; i < evidence.length; i++) {
+            evidence[i] = dispute.evidence[i].evidenceHash;
+        }
+
+        return DocumentUtils.generateDisputeHash(
+            dispute.agreementId,
+            dispute.disputeType,
+            dispute.openedAt,
+            parties,
+            evidence
+        );
+    }
+}
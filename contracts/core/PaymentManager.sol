@@ -4,26 +4,47 @@ pragma solidity ^0.8.19;
 import "../interfaces/IPaymentManager.sol";
 import "../interfaces/IRentalCore.sol";
 import "../interfaces/IAccessControlManager.sol";
+import "../utils/RentalUtils.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/utils/math/SafeMath.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title PaymentManager
  * @notice Manages all payment-related functionality for the rental system
- * @dev Handles rent payments, deposits, and late fees with secure transaction handling
+ * @dev Handles rent payments, deposits, and late fees with secure transaction handling.
+ *      Rent is billed in calendar-month installments and late fees accrue per overdue
+ *      installment at the Polish statutory interest rate. Deposits stay in escrow until the
+ *      agreement ends and are then settled against the landlord's inspection deductions.
+ *      Rent is split between landlord, broker and platform when it is paid, and each
+ *      party withdraws its earnings.
+ *      Each agreement settles either in native ETH or in a supported ERC-20 token
+ *      such as a PLN stablecoin.
  */
 contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
     using SafeMath for uint256;
+    using SafeERC20 for IERC20;
 
     // State variables
     IRentalCore public rentalCore;
     IAccessControlManager public accessManager;
+    address public platformFeeRecipient;
+    uint256 public platformFeeBps;
+    address public disputeManager; // Only contract allowed to release deposits of disputed agreements
+    uint256 public emergencyApprovalsRequired; // Distinct system admin approvals an emergency withdrawal needs
 
     // Constants
-    uint256 public constant LATE_FEE_PERCENTAGE = 10; // 10% late fee
     uint256 public constant GRACE_PERIOD_DAYS = 5; // 5 days grace period
     uint256 public constant SECONDS_PER_DAY = 86400;
+    uint256 public constant DEDUCTION_FILING_PERIOD_DAYS = 30; // Landlord has a month to file deductions
+    uint256 public constant DEPOSIT_CHALLENGE_PERIOD_DAYS = 14; // Tenant can challenge deductions for 14 days
+    uint256 public constant EMERGENCY_TIMELOCK = 2 days;
+    uint256 public constant DEFAULT_EMERGENCY_APPROVALS = 2;
+    uint256 public constant FEE_DENOMINATOR = 10000; // Fees are expressed in basis points
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 500; // 5% platform fee cap
+    uint256 public constant MAX_BROKER_FEE_BPS = 1000; // 10% broker fee cap
 
     // Structs
     struct PaymentRecord {
@@ -31,6 +52,52 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         uint256 amount;
         PaymentType paymentType;
         bool confirmed;
+        address token;
+    }
+
+    struct BillingSchedule {
+        uint256 startDate;
+        uint256 endDate;
+        uint256 rentAmount;
+        uint8 dueDay;
+        uint256[] rentChangeTimes; // Effective times of confirmed rent changes, oldest first
+        uint256[] previousRents; // Rent replaced by each change
+    }
+
+    struct DepositClaim {
+        uint256 deductionAmount;
+        bytes32 inspectionHash;
+        uint256 filedAt;
+        bool challenged;
+        uint256 releaseRequestedAt;
+        bool settled;
+    }
+
+    struct EmergencyWithdrawal {
+        address token;
+        uint256 amount;
+        address payable recipient;
+        uint256 proposedAt;
+        uint256 approvals;
+        bool executed;
+        bool cancelled;
+    }
+
+    struct AutopayAuthorization {
+        bool enabled;
+        uint256 cap; // Maximum amount collected per installment
+        uint256 balance; // Prefunded ETH held for autopay
+    }
+
+    struct BrokerFee {
+        address broker;
+        uint256 feeBps;
+    }
+
+    struct TerminationPenalty {
+        address payer;
+        uint256 amount;
+        uint256 outstanding; // Part not covered by funds held for the payer
     }
 
     enum PaymentType {
@@ -42,18 +109,82 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
     // Mappings
     mapping(uint256 => PaymentRecord[]) private _paymentHistory; // agreementId => PaymentRecord[]
     mapping(uint256 => uint256) private _depositBalances; // agreementId => balance
-    mapping(uint256 => uint256) private _lastPaymentDate; // agreementId => timestamp
-    mapping(uint256 => uint256) private _outstandingBalance; // agreementId => balance
+    mapping(uint256 => address) private _paymentTokens; // agreementId => token (zero for ETH)
+    mapping(address => bool) private _supportedTokens;
+    mapping(uint256 => uint256) private _credits; // agreementId => prepaid credit
+    mapping(uint256 => bool) private _refundOverpayments; // agreementId => refund instead of credit
+    mapping(uint256 => uint256) private _installmentsPaid; // agreementId => rent installments paid
+    mapping(uint256 => mapping(uint256 => uint256)) private _lateFeesCharged; // agreementId => installment => fee charged so far
+    mapping(uint256 => uint256) private _lateFeesDue; // agreementId => charged, unpaid late fees
+    mapping(uint256 => uint8) private _dueDays; // agreementId => day of month rent falls due (0 = start date)
+    mapping(uint256 => uint256) private _billedInstallments; // agreementId => installments added to the balance
+    mapping(uint256 => uint256) private _rentBilled; // agreementId => rent fallen due so far
+    mapping(uint256 => uint256) private _rentPaid; // agreementId => rent paid so far
+    mapping(uint256 => DepositClaim) private _depositClaims; // agreementId => end-of-lease deposit claim
+    mapping(address => uint256) private _liabilities; // token => funds owed to tenants and landlords
+    mapping(uint256 => EmergencyWithdrawal) private _emergencyWithdrawals;
+    mapping(uint256 => mapping(address => bool)) private _emergencyApprovals; // proposalId => admin => approved
+    uint256 private _emergencyWithdrawalCount;
+    mapping(address => mapping(address => uint256)) private _earnings; // account => token => withdrawable earnings
+    mapping(uint256 => BrokerFee) private _brokerFees; // agreementId => broker fee
+    mapping(uint256 => bool) private _autoForward; // agreementId => forward landlord earnings immediately
+    mapping(uint256 => AutopayAuthorization) private _autopay; // agreementId => tenant autopay authorization
+    mapping(uint256 => TerminationPenalty) private _terminationPenalties; // agreementId => early termination penalty
 
     // Events (in addition to interface events)
     event PaymentConfirmed(uint256 indexed agreementId, uint256 amount, PaymentType paymentType);
     event PaymentFailed(uint256 indexed agreementId, uint256 amount, string reason);
     event BalanceUpdated(uint256 indexed agreementId, uint256 newBalance);
+    event SupportedTokenUpdated(address indexed token, bool supported);
+    event PlatformFeeUpdated(address indexed recipient, uint256 feeBps);
+    event DisputeManagerSet(address indexed disputeManager);
+    event EmergencyApprovalsRequiredUpdated(uint256 approvals);
+    event EmergencyWithdrawalProposed(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        address token,
+        uint256 amount,
+        address recipient,
+        uint256 executableAt
+    );
+    event EmergencyWithdrawalApproved(uint256 indexed proposalId, address indexed approver, uint256 approvals);
+    event EmergencyWithdrawalCancelled(uint256 indexed proposalId, address indexed cancelledBy);
+    event EmergencyWithdrawalExecuted(
+        uint256 indexed proposalId,
+        address indexed executor,
+        address token,
+        uint256 amount,
+        address recipient
+    );
 
     // Modifiers
     modifier onlyValidAgreement(uint256 agreementId) {
-        (,,,,,,,uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        (,,,, uint256 endDate,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
         require(status == 1, "Agreement not active"); // 1 = Active status
+        require(block.timestamp <= endDate, "Agreement ended");
+        _;
+    }
+
+    modifier onlyBillableAgreement(uint256 agreementId) {
+        (,,,, uint256 endDate,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        // After the end date every unpaid installment is arrears from the term, payable even once expired
+        require(status == 1 || (status == 3 && block.timestamp > endDate), "Agreement not active"); // 1 = Active, 3 = Expired
+        _;
+    }
+
+    modifier onlyEndedAgreement(uint256 agreementId) {
+        (,,,,,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        require(status == 2 || status == 3, "Agreement not ended"); // 2 = Terminated, 3 = Expired
+        _;
+    }
+
+    modifier onlySystemAdmin() {
+        require(accessManager.hasRole(msg.sender, keccak256("SYSTEM_ADMIN")), "Not system admin");
+        _;
+    }
+
+    modifier onlyDisputeManager() {
+        require(disputeManager != address(0) && msg.sender == disputeManager, "Not dispute manager");
         _;
     }
 
@@ -77,6 +208,7 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         
         rentalCore = IRentalCore(rentalCoreAddress);
         accessManager = IAccessControlManager(accessManagerAddress);
+        emergencyApprovalsRequired = DEFAULT_EMERGENCY_APPROVALS;
     }
 
     /**
@@ -88,27 +220,53 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         override
         whenNotPaused
         nonReentrant
-        onlyValidAgreement(agreementId)
+        onlyBillableAgreement(agreementId)
         returns (bool)
     {
-        (,,,,,uint256 rentAmount,,,,) = rentalCore.getAgreementDetails(agreementId);
-        require(msg.value >= rentAmount, "Insufficient payment");
+        (, uint256 dueAmount) = _nextInstallment(agreementId);
+        uint256 received = _collectPayment(agreementId, dueAmount);
+        require(received >= dueAmount, "Insufficient payment");
 
-        PaymentRecord memory newPayment = PaymentRecord({
-            timestamp: block.timestamp,
-            amount: msg.value,
-            paymentType: PaymentType.Rent,
-            confirmed: true
-        });
+        _recordRentPayment(agreementId, msg.sender);
+        _handleOverpayment(agreementId, received.sub(dueAmount));
 
-        _paymentHistory[agreementId].push(newPayment);
-        _lastPaymentDate[agreementId] = block.timestamp;
-        _updateOutstandingBalance(agreementId);
+        return true;
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function collectDueRent(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        onlyValidAgreement(agreementId)
+        returns (uint256)
+    {
+        AutopayAuthorization storage autopay = _autopay[agreementId];
+        require(autopay.enabled, "Autopay not enabled");
 
-        emit RentPaymentProcessed(agreementId, msg.value, msg.sender, block.timestamp);
-        emit PaymentConfirmed(agreementId, msg.value, PaymentType.Rent);
+        (uint256 dueDate, uint256 dueAmount) = _nextInstallment(agreementId);
+        require(block.timestamp >= dueDate, "Rent not due");
+        require(dueAmount <= autopay.cap, "Exceeds autopay cap");
 
-        return true;
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        address token = _paymentTokens[agreementId];
+        if (token == address(0)) {
+            // Prefunded ETH is already counted in the liabilities
+            require(autopay.balance >= dueAmount, "Insufficient autopay balance");
+            autopay.balance = autopay.balance.sub(dueAmount);
+        } else if (dueAmount > 0) {
+            uint256 received = _pullTokens(token, tenant, dueAmount);
+            require(received >= dueAmount, "Insufficient payment");
+            _liabilities[token] = _liabilities[token].add(received);
+        }
+
+        _recordRentPayment(agreementId, tenant);
+        emit AutopayCollected(agreementId, msg.sender, dueAmount);
+
+        return dueAmount;
     }
 
     /**
@@ -123,21 +281,26 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         onlyValidAgreement(agreementId)
         returns (bool)
     {
-        (,,,,,, uint256 depositAmount,,) = rentalCore.getAgreementDetails(agreementId);
-        require(msg.value >= depositAmount, "Insufficient deposit");
+        (,,,,, uint256 rentAmount, uint256 depositAmount,,) = rentalCore.getAgreementDetails(agreementId);
+        require(_depositBalances[agreementId] == 0, "Deposit already held");
+        require(depositAmount <= rentAmount.mul(RentalUtils.MAX_DEPOSIT_MONTHS), "Deposit exceeds cap");
+
+        uint256 received = _collectPayment(agreementId, depositAmount);
+        require(received == depositAmount, "Incorrect deposit amount");
 
         PaymentRecord memory newPayment = PaymentRecord({
             timestamp: block.timestamp,
-            amount: msg.value,
+            amount: depositAmount,
             paymentType: PaymentType.Deposit,
-            confirmed: true
+            confirmed: true,
+            token: _paymentTokens[agreementId]
         });
 
         _paymentHistory[agreementId].push(newPayment);
-        _depositBalances[agreementId] = _depositBalances[agreementId].add(msg.value);
+        _depositBalances[agreementId] = depositAmount;
 
-        emit DepositProcessed(agreementId, msg.value, msg.sender);
-        emit PaymentConfirmed(agreementId, msg.value, PaymentType.Deposit);
+        emit DepositProcessed(agreementId, depositAmount, msg.sender);
+        emit PaymentConfirmed(agreementId, depositAmount, PaymentType.Deposit);
 
         return true;
     }
@@ -154,21 +317,178 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         override
         whenNotPaused
         nonReentrant
-        onlyAuthorized
+        onlyDisputeManager
         returns (bool)
     {
-        require(recipient != address(0), "Invalid recipient");
+        (, address landlord, address tenant,,,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        require(status == 4, "Deposit locked"); // 4 = Disputed status
+        require(recipient == landlord || recipient == tenant, "Invalid recipient");
         require(amount <= _depositBalances[agreementId], "Insufficient deposit balance");
 
         _depositBalances[agreementId] = _depositBalances[agreementId].sub(amount);
-        
-        (bool success, ) = recipient.call{value: amount}("");
-        require(success, "Transfer failed");
+        _transferOut(_paymentTokens[agreementId], recipient, amount);
 
         emit DepositReleased(agreementId, amount, recipient);
         return true;
     }
 
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function fileDepositDeductions(uint256 agreementId, uint256 amount, bytes32 inspectionHash)
+        external
+        override
+        whenNotPaused
+        onlyEndedAgreement(agreementId)
+    {
+        (, address landlord,,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        _requireLandlord(agreementId, landlord);
+        require(inspectionHash != bytes32(0), "Invalid inspection hash");
+        require(amount <= _depositBalances[agreementId], "Insufficient deposit balance");
+
+        DepositClaim storage claim = _depositClaims[agreementId];
+        require(!claim.settled, "Deposit already settled");
+        require(claim.filedAt == 0, "Deductions already filed");
+        require(
+            claim.releaseRequestedAt == 0 ||
+            block.timestamp <= claim.releaseRequestedAt.add(DEDUCTION_FILING_PERIOD_DAYS.mul(SECONDS_PER_DAY)),
+            "Filing period over"
+        );
+
+        claim.deductionAmount = amount;
+        claim.inspectionHash = inspectionHash;
+        claim.filedAt = block.timestamp;
+
+        emit DepositDeductionsFiled(agreementId, amount, inspectionHash);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function challengeDepositDeductions(uint256 agreementId, bytes32 evidenceHash)
+        external
+        override
+        whenNotPaused
+    {
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == tenant, "Not tenant");
+        require(evidenceHash != bytes32(0), "Invalid evidence hash");
+
+        DepositClaim storage claim = _depositClaims[agreementId];
+        require(claim.filedAt != 0, "No deductions filed");
+        require(!claim.settled, "Deposit already settled");
+        require(!claim.challenged, "Deductions already challenged");
+        require(
+            block.timestamp <= claim.filedAt.add(DEPOSIT_CHALLENGE_PERIOD_DAYS.mul(SECONDS_PER_DAY)),
+            "Challenge period over"
+        );
+
+        claim.challenged = true;
+        emit DepositDeductionsChallenged(agreementId, evidenceHash);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function resolveDepositChallenge(uint256 agreementId, uint256 approvedAmount)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+    {
+        require(
+            accessManager.hasRole(msg.sender, keccak256("LEGAL_VERIFIER")),
+            "Not legal verifier"
+        );
+
+        DepositClaim storage claim = _depositClaims[agreementId];
+        require(claim.challenged && !claim.settled, "No open challenge");
+        require(approvedAmount <= claim.deductionAmount, "Exceeds filed deductions");
+
+        claim.deductionAmount = approvedAmount;
+        claim.challenged = false;
+        emit DepositChallengeResolved(agreementId, approvedAmount, msg.sender);
+
+        _settleDeposit(agreementId);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function requestDepositRelease(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        onlyEndedAgreement(agreementId)
+    {
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == tenant, "Not tenant");
+
+        DepositClaim storage claim = _depositClaims[agreementId];
+        require(!claim.settled, "Deposit already settled");
+        require(claim.releaseRequestedAt == 0, "Release already requested");
+
+        claim.releaseRequestedAt = block.timestamp;
+        emit DepositReleaseRequested(agreementId, block.timestamp);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function settleDeposit(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        onlyEndedAgreement(agreementId)
+    {
+        DepositClaim storage claim = _depositClaims[agreementId];
+        require(!claim.settled, "Deposit already settled");
+
+        if (claim.filedAt != 0) {
+            require(!claim.challenged, "Deductions challenged");
+            require(
+                block.timestamp > claim.filedAt.add(DEPOSIT_CHALLENGE_PERIOD_DAYS.mul(SECONDS_PER_DAY)),
+                "Challenge period active"
+            );
+        } else {
+            require(claim.releaseRequestedAt != 0, "Release not requested");
+            require(
+                block.timestamp > claim.releaseRequestedAt.add(DEDUCTION_FILING_PERIOD_DAYS.mul(SECONDS_PER_DAY)),
+                "Filing period active"
+            );
+        }
+
+        _settleDeposit(agreementId);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getDepositClaim(uint256 agreementId)
+        external
+        view
+        override
+        returns (
+            uint256 deductionAmount,
+            bytes32 inspectionHash,
+            uint256 filedAt,
+            bool challenged,
+            uint256 releaseRequestedAt,
+            bool settled
+        )
+    {
+        DepositClaim storage claim = _depositClaims[agreementId];
+        return (
+            claim.deductionAmount,
+            claim.inspectionHash,
+            claim.filedAt,
+            claim.challenged,
+            claim.releaseRequestedAt,
+            claim.settled
+        );
+    }
+
     /**
      * @inheritdoc IPaymentManager
      */
@@ -179,7 +499,8 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         returns (
             uint256[] memory timestamps,
             uint256[] memory amounts,
-            uint8[] memory types
+            uint8[] memory types,
+            address[] memory tokens
         )
     {
         PaymentRecord[] storage records = _paymentHistory[agreementId];
@@ -188,14 +509,16 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         timestamps = new uint256[](length);
         amounts = new uint256[](length);
         types = new uint8[](length);
+        tokens = new address[](length);
 
         for (uint256 i = 0; i < length; i++) {
             timestamps[i] = records[i].timestamp;
             amounts[i] = records[i].amount;
             types[i] = uint8(records[i].paymentType);
+            tokens[i] = records[i].token;
         }
 
-        return (timestamps, amounts, types);
+        return (timestamps, amounts, types, tokens);
     }
 
     /**
@@ -207,7 +530,7 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         override
         returns (uint256 amount, uint256 lateFees)
     {
-        amount = _outstandingBalance[agreementId];
+        amount = _outstandingRent(agreementId, _getSchedule(agreementId));
         lateFees = _calculateLateFees(agreementId);
         return (amount, lateFees);
     }
@@ -223,12 +546,66 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
         onlyAuthorized
         returns (uint256)
     {
-        uint256 lateFees = _calculateLateFees(agreementId);
-        if (lateFees > 0) {
-            _outstandingBalance[agreementId] = _outstandingBalance[agreementId].add(lateFees);
-            emit LateFeeCharged(agreementId, lateFees);
+        BillingSchedule memory schedule = _getSchedule(agreementId);
+
+        uint256 charged = 0;
+        uint256 credit = _credits[agreementId];
+        uint256 installment = _installmentsPaid[agreementId];
+        (uint256 dueDate, uint256 amount) = _getInstallment(schedule, installment);
+        while (dueDate != 0 && dueDate <= block.timestamp) {
+            // Installments the credit covers count as paid on their due date
+            if (credit >= amount) {
+                credit = credit.sub(amount);
+            } else {
+                credit = 0;
+                charged = charged.add(_chargeLateFee(agreementId, installment, dueDate, amount));
+            }
+            installment++;
+            (dueDate, amount) = _getInstallment(schedule, installment);
         }
-        return lateFees;
+
+        if (charged > 0) {
+            _lateFeesDue[agreementId] = _lateFeesDue[agreementId].add(charged);
+            emit LateFeeCharged(agreementId, charged);
+        }
+        return charged;
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function payLateFees(uint256 agreementId)
+        external
+        payable
+        override
+        whenNotPaused
+        nonReentrant
+        returns (uint256)
+    {
+        uint256 feesDue = _lateFeesDue[agreementId];
+        require(feesDue > 0, "No late fees due");
+
+        uint256 received = _collectPayment(agreementId, feesDue);
+        require(received >= feesDue, "Insufficient payment");
+
+        PaymentRecord memory newPayment = PaymentRecord({
+            timestamp: block.timestamp,
+            amount: feesDue,
+            paymentType: PaymentType.LateFee,
+            confirmed: true,
+            token: _paymentTokens[agreementId]
+        });
+
+        _paymentHistory[agreementId].push(newPayment);
+        _lateFeesDue[agreementId] = 0;
+        (, address landlord,,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        _payLandlord(agreementId, landlord, feesDue);
+        _handleOverpayment(agreementId, received.sub(feesDue));
+
+        emit LateFeesPaid(agreementId, feesDue, msg.sender);
+        emit PaymentConfirmed(agreementId, feesDue, PaymentType.LateFee);
+
+        return feesDue;
     }
 
     /**
@@ -244,60 +621,1155 @@ contract PaymentManager is IPaymentManager, ReentrancyGuard, Pausable {
     }
 
     /**
-     * @notice Calculates late fees for an agreement
-     * @param agreementId ID of the agreement
-     * @return Late fee amount
+     * @inheritdoc IPaymentManager
      */
-    function _calculateLateFees(uint256 agreementId) private view returns (uint256) {
-        (,,, uint256 startDate,,uint256 rentAmount,,,) = rentalCore.getAgreementDetails(agreementId);
-        
-        uint256 lastPayment = _lastPaymentDate[agreementId];
-        if (lastPayment == 0) {
-            lastPayment = startDate;
-        }
+    function setPaymentToken(uint256 agreementId, address token)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+    {
+        (, address landlord,,,,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        _requireLandlord(agreementId, landlord);
+        require(status == 0, "Agreement not pending"); // 0 = Pending status
+        require(token == address(0) || _supportedTokens[token], "Unsupported token");
 
-        uint256 daysLate = (block.timestamp.sub(lastPayment)).div(SECONDS_PER_DAY);
-        if (daysLate <= GRACE_PERIOD_DAYS) {
-            return 0;
+        _paymentTokens[agreementId] = token;
+        emit PaymentTokenSet(agreementId, token);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getPaymentToken(uint256 agreementId)
+        external
+        view
+        override
+        returns (address)
+    {
+        return _paymentTokens[agreementId];
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function prepayRent(uint256 agreementId, uint256 amount)
+        external
+        payable
+        override
+        whenNotPaused
+        nonReentrant
+        onlyValidAgreement(agreementId)
+        returns (uint256)
+    {
+        require(amount > 0, "Invalid amount");
+        if (_paymentTokens[agreementId] == address(0)) {
+            require(msg.value == amount, "Incorrect ETH amount");
         }
+        require(_credits[agreementId].add(amount) <= _remainingRent(agreementId), "Exceeds remaining rent");
+        require(!_hasUncoveredArrears(agreementId), "Rent overdue");
+
+        uint256 received = _collectPayment(agreementId, amount);
+        _credits[agreementId] = _credits[agreementId].add(received);
 
-        return rentAmount.mul(LATE_FEE_PERCENTAGE).div(100);
+        emit CreditUpdated(agreementId, _credits[agreementId]);
+        return _credits[agreementId];
     }
 
     /**
-     * @notice Updates the outstanding balance for an agreement
-     * @param agreementId ID of the agreement
+     * @inheritdoc IPaymentManager
      */
-    function _updateOutstandingBalance(uint256 agreementId) private {
-        (,,, uint256 startDate,, uint256 rentAmount,,,) = rentalCore.getAgreementDetails(agreementId);
-        
-        uint256 monthsSinceStart = (block.timestamp.sub(startDate)).div(30 days);
-        uint256 expectedTotal = rentAmount.mul(monthsSinceStart.add(1));
-        
-        uint256 totalPaid = 0;
-        PaymentRecord[] storage records = _paymentHistory[agreementId];
-        for (uint256 i = 0; i < records.length; i++) {
-            if (records[i].paymentType == PaymentType.Rent && records[i].confirmed) {
-                totalPaid = totalPaid.add(records[i].amount);
+    function setOverpaymentRefund(uint256 agreementId, bool refund) external override {
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == tenant, "Not tenant");
+
+        _refundOverpayments[agreementId] = refund;
+        emit OverpaymentRefundSet(agreementId, refund);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function withdrawCredit(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        onlyEndedAgreement(agreementId)
+        returns (uint256 amount)
+    {
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == tenant, "Not tenant");
+        amount = _credits[agreementId];
+        require(amount > 0, "No credit");
+
+        _credits[agreementId] = 0;
+        _transferOut(_paymentTokens[agreementId], payable(tenant), amount);
+
+        emit CreditUpdated(agreementId, 0);
+        emit CreditWithdrawn(agreementId, tenant, amount);
+        return amount;
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getBalanceSummary(uint256 agreementId)
+        external
+        view
+        override
+        returns (uint256 credit, uint256 outstanding)
+    {
+        credit = _credits[agreementId];
+        uint256 rentOutstanding = _outstandingRent(agreementId, _getSchedule(agreementId));
+        outstanding = rentOutstanding > credit ? rentOutstanding.sub(credit) : 0;
+        return (credit, outstanding);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function setDueDay(uint256 agreementId, uint8 dueDay)
+        external
+        override
+        whenNotPaused
+    {
+        (, address landlord,,,,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        _requireLandlord(agreementId, landlord);
+        require(status == 0, "Agreement not pending"); // 0 = Pending status
+        require(dueDay <= RentalUtils.MAX_DUE_DAY, "Invalid due day");
+
+        _dueDays[agreementId] = dueDay;
+        emit DueDaySet(agreementId, dueDay);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getDueDay(uint256 agreementId)
+        external
+        view
+        override
+        returns (uint8)
+    {
+        return _dueDays[agreementId];
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getUpcomingDueDates(uint256 agreementId, uint256 count)
+        external
+        view
+        override
+        returns (uint256[] memory dueDates, uint256[] memory amounts)
+    {
+        BillingSchedule memory schedule = _getSchedule(agreementId);
+        uint256 firstInstallment = _installmentsPaid[agreementId];
+
+        uint256 found = 0;
+        while (found < count) {
+            (uint256 dueDate,) = _getInstallment(schedule, firstInstallment.add(found));
+            if (dueDate == 0) {
+                break;
             }
+            found++;
         }
 
-        _outstandingBalance[agreementId] = expectedTotal > totalPaid ? 
-            expectedTotal.sub(totalPaid) : 0;
-        
-        emit BalanceUpdated(agreementId, _outstandingBalance[agreementId]);
+        dueDates = new uint256[](found);
+        amounts = new uint256[](found);
+        for (uint256 i = 0; i < found; i++) {
+            (dueDates[i], amounts[i]) = _getInstallment(schedule, firstInstallment.add(i));
+        }
+
+        return (dueDates, amounts);
     }
 
     /**
-     * @notice Emergency withdrawal of funds
-     * @dev Only callable by system admin
+     * @inheritdoc IPaymentManager
+     */
+    function enableAutopay(uint256 agreementId, uint256 cap) external override whenNotPaused {
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == tenant, "Not tenant");
+        require(cap > 0, "Invalid cap");
+
+        _autopay[agreementId].enabled = true;
+        _autopay[agreementId].cap = cap;
+        emit AutopayEnabled(agreementId, cap);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function fundAutopay(uint256 agreementId)
+        external
+        payable
+        override
+        whenNotPaused
+        nonReentrant
+        returns (uint256)
+    {
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == tenant, "Not tenant");
+        require(_paymentTokens[agreementId] == address(0), "Token agreement");
+        require(msg.value > 0, "Invalid amount");
+
+        AutopayAuthorization storage autopay = _autopay[agreementId];
+        autopay.balance = autopay.balance.add(msg.value);
+        _liabilities[address(0)] = _liabilities[address(0)].add(msg.value);
+
+        emit AutopayFunded(agreementId, msg.value, autopay.balance);
+        return autopay.balance;
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function revokeAutopay(uint256 agreementId) external override nonReentrant {
+        (,, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(msg.sender == tenant, "Not tenant");
+
+        AutopayAuthorization storage autopay = _autopay[agreementId];
+        uint256 refund = autopay.balance;
+        autopay.enabled = false;
+        autopay.cap = 0;
+        autopay.balance = 0;
+
+        if (refund > 0) {
+            _transferOut(address(0), payable(tenant), refund);
+        }
+        emit AutopayRevoked(agreementId, refund);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getAutopay(uint256 agreementId)
+        external
+        view
+        override
+        returns (bool enabled, uint256 cap, uint256 balance)
+    {
+        AutopayAuthorization storage autopay = _autopay[agreementId];
+        return (autopay.enabled, autopay.cap, autopay.balance);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function chargeTerminationPenalty(uint256 agreementId, address payer, uint256 amount)
+        external
+        override
+        nonReentrant
+    {
+        require(msg.sender == address(rentalCore), "Not rental core");
+        require(amount > 0, "Invalid amount");
+
+        TerminationPenalty storage penalty = _terminationPenalties[agreementId];
+        require(penalty.amount == 0, "Penalty already charged");
+
+        (, address landlord, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        require(payer == landlord || payer == tenant, "Invalid payer");
+
+        // Only the tenant's deposit is held for this agreement; the landlord's earnings are pooled
+        // across agreements, so a landlord's penalty stays outstanding until paid
+        uint256 covered;
+        if (payer == tenant) {
+            covered = amount < _depositBalances[agreementId] ? amount : _depositBalances[agreementId];
+            _depositBalances[agreementId] = _depositBalances[agreementId].sub(covered);
+        }
+
+        penalty.payer = payer;
+        penalty.amount = amount;
+        penalty.outstanding = amount.sub(covered);
+
+        if (covered > 0) {
+            _creditEarnings(agreementId, payer == tenant ? landlord : tenant, covered);
+        }
+        emit TerminationPenaltyCharged(agreementId, payer, amount, covered);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function payTerminationPenalty(uint256 agreementId)
+        external
+        payable
+        override
+        whenNotPaused
+        nonReentrant
+        returns (uint256 amount)
+    {
+        TerminationPenalty storage penalty = _terminationPenalties[agreementId];
+        amount = penalty.outstanding;
+        require(amount > 0, "No penalty due");
+
+        uint256 received = _collectPayment(agreementId, amount);
+        require(received >= amount, "Insufficient payment");
+
+        penalty.outstanding = 0;
+        (, address landlord, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        _creditEarnings(agreementId, penalty.payer == tenant ? landlord : tenant, amount);
+        if (received > amount) {
+            _transferOut(_paymentTokens[agreementId], payable(msg.sender), received.sub(amount));
+        }
+
+        emit TerminationPenaltyPaid(agreementId, msg.sender, amount);
+        return amount;
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getTerminationPenalty(uint256 agreementId)
+        external
+        view
+        override
+        returns (address payer, uint256 amount, uint256 outstanding)
+    {
+        TerminationPenalty storage penalty = _terminationPenalties[agreementId];
+        return (penalty.payer, penalty.amount, penalty.outstanding);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function withdrawEarnings(address token)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        returns (uint256 amount)
+    {
+        amount = _earnings[msg.sender][token];
+        require(amount > 0, "No earnings");
+
+        _earnings[msg.sender][token] = 0;
+        _transferOut(token, payable(msg.sender), amount);
+
+        emit EarningsWithdrawn(msg.sender, token, amount);
+        return amount;
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getEarnings(address account, address token)
+        external
+        view
+        override
+        returns (uint256)
+    {
+        return _earnings[account][token];
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function setAutoForward(uint256 agreementId, bool enabled) external override {
+        (, address landlord,,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        _requireLandlord(agreementId, landlord);
+
+        _autoForward[agreementId] = enabled;
+        emit AutoForwardSet(agreementId, enabled);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function setAgreementBroker(uint256 agreementId, address broker, uint256 feeBps)
+        external
+        override
+        whenNotPaused
+    {
+        (, address landlord,,,,,, uint8 status,) = rentalCore.getAgreementDetails(agreementId);
+        _requireLandlord(agreementId, landlord);
+        require(status == 0, "Agreement not pending"); // 0 = Pending status
+        if (broker == address(0)) {
+            require(feeBps == 0, "Invalid broker fee");
+        } else {
+            require(accessManager.hasRole(broker, keccak256("BROKER")), "Not a broker");
+            require(feeBps <= MAX_BROKER_FEE_BPS, "Invalid broker fee");
+        }
+
+        _brokerFees[agreementId] = BrokerFee({broker: broker, feeBps: feeBps});
+        emit AgreementBrokerSet(agreementId, broker, feeBps);
+    }
+
+    /**
+     * @inheritdoc IPaymentManager
+     */
+    function getAgreementBroker(uint256 agreementId)
+        external
+        view
+        override
+        returns (address broker, uint256 feeBps)
+    {
+        BrokerFee storage brokerFee = _brokerFees[agreementId];
+        return (brokerFee.broker, brokerFee.feeBps);
+    }
+
+    /**
+     * @notice Sets the platform fee taken from every rent payment
+     * @dev Only callable by system admin
+     * @param recipient Address receiving the platform fee (zero to disable)
+     * @param feeBps Fee in basis points
+     */
+    function setPlatformFee(address recipient, uint256 feeBps) external onlySystemAdmin {
+        require(feeBps <= MAX_PLATFORM_FEE_BPS, "Invalid platform fee");
+        require(recipient != address(0) || feeBps == 0, "Invalid recipient");
+
+        platformFeeRecipient = recipient;
+        platformFeeBps = feeBps;
+        emit PlatformFeeUpdated(recipient, feeBps);
+    }
+
+    /**
+     * @notice Registers the DisputeManager contract
+     * @dev Only callable by system admin. Releasing deposits of disputed agreements is reserved
+     *      for this contract, so deposits leave escrow early only through a ruling
+     * @param disputeMgr Address of the DisputeManager contract
+     */
+    function setDisputeManager(address disputeMgr) external onlySystemAdmin {
+        require(disputeMgr != address(0), "Invalid dispute manager");
+
+        disputeManager = disputeMgr;
+        emit DisputeManagerSet(disputeMgr);
+    }
+
+    /**
+     * @notice Checks whether landlord earnings of an agreement are forwarded immediately
+     * @param agreementId ID of the agreement
+     * @return Whether auto-forward is enabled
+     */
+    function isAutoForward(uint256 agreementId) external view returns (bool) {
+        return _autoForward[agreementId];
+    }
+
+    /**
+     * @notice Checks whether overpayments on an agreement are refunded
+     * @param agreementId ID of the agreement
+     * @return Whether overpayments are refunded instead of credited
+     */
+    function refundsOverpayments(uint256 agreementId) external view returns (bool) {
+        return _refundOverpayments[agreementId];
+    }
+
+    /**
+     * @notice Adds or removes an ERC-20 token from the list of accepted payment tokens
+     * @dev Only callable by system admin or payment manager
+     * @param token Address of the ERC-20 token
+     * @param supported Whether agreements may settle in the token
+     */
+    function setSupportedToken(address token, bool supported) external onlyAuthorized {
+        require(token != address(0), "Invalid token");
+        _supportedTokens[token] = supported;
+        emit SupportedTokenUpdated(token, supported);
+    }
+
+    /**
+     * @notice Checks whether an ERC-20 token is accepted for payments
+     * @param token Address of the ERC-20 token
+     * @return Whether the token is supported
+     */
+    function isSupportedToken(address token) external view returns (bool) {
+        return _supportedTokens[token];
+    }
+
+    /**
+     * @notice Calculates late fees for an agreement
+     * @dev Includes charged unpaid fees and interest accrued on overdue installments since they were last charged.
+     *      Installments fully covered by credit accrue nothing
+     * @param agreementId ID of the agreement
+     * @return Late fee amount
+     */
+    function _calculateLateFees(uint256 agreementId) private view returns (uint256) {
+        BillingSchedule memory schedule = _getSchedule(agreementId);
+
+        uint256 fees = _lateFeesDue[agreementId];
+        uint256 credit = _credits[agreementId];
+        uint256 installment = _installmentsPaid[agreementId];
+        (uint256 dueDate, uint256 amount) = _getInstallment(schedule, installment);
+        while (dueDate != 0 && dueDate <= block.timestamp) {
+            if (credit >= amount) {
+                credit = credit.sub(amount);
+            } else {
+                credit = 0;
+                fees = fees.add(_unchargedLateFee(agreementId, installment, dueDate, amount));
+            }
+            installment++;
+            (dueDate, amount) = _getInstallment(schedule, installment);
+        }
+
+        return fees;
+    }
+
+    /**
+     * @notice Checks whether an installment not fully covered by credit is accruing a late fee
+     * @dev Credit added while such an installment is outstanding would otherwise let it escape its late fee
+     * @param agreementId ID of the agreement
+     * @return True if rent is overdue beyond the credit and the grace period
+     */
+    function _hasUncoveredArrears(uint256 agreementId) private view returns (bool) {
+        BillingSchedule memory schedule = _getSchedule(agreementId);
+        uint256 credit = _credits[agreementId];
+        uint256 installment = _installmentsPaid[agreementId];
+        (uint256 dueDate, uint256 amount) = _getInstallment(schedule, installment);
+        while (dueDate != 0 && dueDate <= block.timestamp) {
+            if (credit < amount) {
+                // Later installments fall due after this one, so they are no further overdue
+                return _lateFeeFor(amount, dueDate, block.timestamp) > 0;
+            }
+            credit = credit.sub(amount);
+            installment++;
+            (dueDate, amount) = _getInstallment(schedule, installment);
+        }
+        return false;
+    }
+
+    /**
+     * @notice Sums the unpaid installments left in the billing schedule
+     * @param agreementId ID of the agreement
+     * @return remaining Rent still to be paid over the rest of the term
+     */
+    function _remainingRent(uint256 agreementId) private view returns (uint256 remaining) {
+        BillingSchedule memory schedule = _getSchedule(agreementId);
+        uint256 installment = _installmentsPaid[agreementId];
+        (uint256 dueDate, uint256 amount) = _getInstallment(schedule, installment);
+        while (dueDate != 0) {
+            remaining = remaining.add(amount);
+            installment++;
+            (dueDate, amount) = _getInstallment(schedule, installment);
+        }
+        return remaining;
+    }
+
+    /**
+     * @notice Gets the next unpaid installment and the part of it not covered by credit
+     * @param agreementId ID of the agreement
+     * @return dueDate Due date of the installment
+     * @return dueAmount Amount still to be paid
+     */
+    function _nextInstallment(uint256 agreementId)
+        private
+        view
+        returns (uint256 dueDate, uint256 dueAmount)
+    {
+        uint256 rentAmount;
+        (dueDate, rentAmount) = _getInstallment(_getSchedule(agreementId), _installmentsPaid[agreementId]);
+        require(dueDate != 0, "No installments remaining");
+
+        uint256 fromCredit = _credits[agreementId] < rentAmount ? _credits[agreementId] : rentAmount;
+        return (dueDate, rentAmount.sub(fromCredit));
+    }
+
+    /**
+     * @notice Records payment of the next installment once its funds are in the contract
+     * @dev Draws whatever the payer did not cover from credit
+     * @param agreementId ID of the agreement
+     * @param payer Address the payment is attributed to
+     */
+    function _recordRentPayment(uint256 agreementId, address payer) private {
+        BillingSchedule memory schedule = _getSchedule(agreementId);
+        uint256 installment = _installmentsPaid[agreementId];
+        (uint256 dueDate, uint256 rentAmount) = _getInstallment(schedule, installment);
+
+        uint256 fromCredit = _credits[agreementId] < rentAmount ? _credits[agreementId] : rentAmount;
+        if (fromCredit > 0) {
+            _credits[agreementId] = _credits[agreementId].sub(fromCredit);
+            emit CreditUpdated(agreementId, _credits[agreementId]);
+        }
+
+        PaymentRecord memory newPayment = PaymentRecord({
+            timestamp: block.timestamp,
+            amount: rentAmount,
+            paymentType: PaymentType.Rent,
+            confirmed: true,
+            token: _paymentTokens[agreementId]
+        });
+
+        _paymentHistory[agreementId].push(newPayment);
+        _accrueRent(agreementId, schedule);
+        _settleInstallment(agreementId, installment, dueDate, rentAmount, fromCredit == rentAmount);
+        emit BalanceUpdated(agreementId, _outstandingRent(agreementId, schedule));
+        _splitRent(agreementId, rentAmount);
+
+        emit RentPaymentProcessed(agreementId, rentAmount, payer, block.timestamp);
+        emit PaymentConfirmed(agreementId, rentAmount, PaymentType.Rent);
+    }
+
+    /**
+     * @notice Records a paid rent installment and charges its late fee
+     * @dev An installment paid entirely from credit was covered on its due date and is never late
+     * @param agreementId ID of the agreement
+     * @param installment Zero-based index of the installment
+     * @param dueDate Due date of the installment
+     * @param amount Rent amount of the installment
+     * @param coveredByCredit Whether credit paid the whole installment
+     */
+    function _settleInstallment(
+        uint256 agreementId,
+        uint256 installment,
+        uint256 dueDate,
+        uint256 amount,
+        bool coveredByCredit
+    ) private {
+        _installmentsPaid[agreementId] = installment.add(1);
+        _rentPaid[agreementId] = _rentPaid[agreementId].add(amount);
+        if (coveredByCredit) {
+            return;
+        }
+
+        uint256 fee = _chargeLateFee(agreementId, installment, dueDate, amount);
+        if (fee > 0) {
+            _lateFeesDue[agreementId] = _lateFeesDue[agreementId].add(fee);
+            emit LateFeeCharged(agreementId, fee);
+        }
+    }
+
+    /**
+     * @notice Records the late fee an overdue installment has accrued up to now
+     * @dev Returns only the part not charged by an earlier assessment; the caller adds it to the fees due
+     * @param agreementId ID of the agreement
+     * @param installment Zero-based index of the installment
+     * @param dueDate Due date of the installment
+     * @param amount Rent amount of the installment
+     * @return fee Late fee newly charged
+     */
+    function _chargeLateFee(
+        uint256 agreementId,
+        uint256 installment,
+        uint256 dueDate,
+        uint256 amount
+    ) private returns (uint256 fee) {
+        fee = _unchargedLateFee(agreementId, installment, dueDate, amount);
+        if (fee > 0) {
+            _lateFeesCharged[agreementId][installment] = _lateFeesCharged[agreementId][installment].add(fee);
+        }
+        return fee;
+    }
+
+    /**
+     * @notice Calculates the late fee an installment has accrued since it was last charged
+     * @param agreementId ID of the agreement
+     * @param installment Zero-based index of the installment
+     * @param dueDate Due date of the installment
+     * @param amount Rent amount of the installment
+     * @return Late fee accrued and not yet charged
+     */
+    function _unchargedLateFee(
+        uint256 agreementId,
+        uint256 installment,
+        uint256 dueDate,
+        uint256 amount
+    ) private view returns (uint256) {
+        uint256 accrued = _lateFeeFor(amount, dueDate, block.timestamp);
+        uint256 charged = _lateFeesCharged[agreementId][installment];
+        return accrued > charged ? accrued.sub(charged) : 0;
+    }
+
+    /**
+     * @notice Loads the billing schedule of an agreement
+     * @param agreementId ID of the agreement
+     * @return schedule Billing schedule built from the current agreement terms
+     */
+    function _getSchedule(uint256 agreementId) private view returns (BillingSchedule memory schedule) {
+        (,,, uint256 startDate, uint256 endDate, uint256 rentAmount,,,) = rentalCore.getAgreementDetails(agreementId);
+        (uint256[] memory rentChangeTimes, uint256[] memory previousRents) = rentalCore.getRentHistory(agreementId);
+        return BillingSchedule({
+            startDate: startDate,
+            endDate: endDate,
+            rentAmount: rentAmount,
+            dueDay: _dueDays[agreementId],
+            rentChangeTimes: rentChangeTimes,
+            previousRents: previousRents
+        });
+    }
+
+    /**
+     * @notice Gets the due date and amount of a rent installment
+     * @param schedule Billing schedule of the agreement
+     * @param installment Zero-based index of the installment
+     * @return dueDate Due date of the installment (0 if past the end of the agreement)
+     * @return amount Rent due for the installment, at the rent in force on its due date
+     */
+    function _getInstallment(BillingSchedule memory schedule, uint256 installment)
+        private
+        pure
+        returns (uint256 dueDate, uint256 amount)
+    {
+        (dueDate, amount) = RentalUtils.calculateInstallment(
+            schedule.startDate,
+            schedule.endDate,
+            schedule.rentAmount,
+            schedule.dueDay,
+            installment
+        );
+
+        uint256 rentAmount = _rentInForce(schedule, dueDate);
+        if (dueDate != 0 && rentAmount != schedule.rentAmount) {
+            (, amount) = RentalUtils.calculateInstallment(
+                schedule.startDate,
+                schedule.endDate,
+                rentAmount,
+                schedule.dueDay,
+                installment
+            );
+        }
+        return (dueDate, amount);
+    }
+
+    /**
+     * @notice Gets the monthly rent in force at a given time
+     * @dev A rent change applies only to installments falling due after it took effect
+     * @param schedule Billing schedule of the agreement
+     * @param timestamp Time to look up
+     * @return rentAmount Monthly rent in force
+     */
+    function _rentInForce(BillingSchedule memory schedule, uint256 timestamp)
+        private
+        pure
+        returns (uint256 rentAmount)
+    {
+        rentAmount = schedule.rentAmount;
+        for (uint256 i = schedule.rentChangeTimes.length; i > 0; i--) {
+            if (timestamp > schedule.rentChangeTimes[i - 1]) {
+                break;
+            }
+            rentAmount = schedule.previousRents[i - 1];
+        }
+        return rentAmount;
+    }
+
+    /**
+     * @notice Calculates the statutory late fee of a single installment
+     * @dev No fee is due within the grace period; past it interest runs from the due date
+     * @param rentAmount Rent amount of the installment
+     * @param dueDate Due date of the installment
+     * @param paidAt Time the installment is paid or assessed
+     * @return Late fee amount
+     */
+    function _lateFeeFor(uint256 rentAmount, uint256 dueDate, uint256 paidAt) private pure returns (uint256) {
+        if (paidAt <= dueDate) {
+            return 0;
+        }
+
+        uint256 daysLate = paidAt.sub(dueDate).div(SECONDS_PER_DAY);
+        if (daysLate <= GRACE_PERIOD_DAYS) {
+            return 0;
+        }
+
+        return RentalUtils.calculateLateFee(rentAmount, daysLate);
+    }
+
+    /**
+     * @notice Adds the installments that have fallen due since the last accrual to the billed rent
+     * @param agreementId ID of the agreement
+     * @param schedule Billing schedule of the agreement
+     */
+    function _accrueRent(uint256 agreementId, BillingSchedule memory schedule) private {
+        (uint256 newlyBilled, uint256 billedInstallments) = _pendingBilling(agreementId, schedule);
+        if (newlyBilled > 0) {
+            _rentBilled[agreementId] = _rentBilled[agreementId].add(newlyBilled);
+        }
+        _billedInstallments[agreementId] = billedInstallments;
+    }
+
+    /**
+     * @notice Sums the installments that have fallen due since the last accrual
+     * @param agreementId ID of the agreement
+     * @param schedule Billing schedule of the agreement
+     * @return newlyBilled Rent that has fallen due but is not yet billed
+     * @return billedInstallments Number of installments billed after accruing it
+     */
+    function _pendingBilling(uint256 agreementId, BillingSchedule memory schedule)
+        private
+        view
+        returns (uint256 newlyBilled, uint256 billedInstallments)
+    {
+        billedInstallments = _billedInstallments[agreementId];
+        (uint256 dueDate, uint256 amount) = _getInstallment(schedule, billedInstallments);
+        while (dueDate != 0 && dueDate <= block.timestamp) {
+            newlyBilled = newlyBilled.add(amount);
+            billedInstallments++;
+            (dueDate, amount) = _getInstallment(schedule, billedInstallments);
+        }
+        return (newlyBilled, billedInstallments);
+    }
+
+    /**
+     * @notice Calculates rent that has fallen due and is not yet paid
+     * @param agreementId ID of the agreement
+     * @param schedule Billing schedule of the agreement
+     * @return Outstanding rent amount
+     */
+    function _outstandingRent(uint256 agreementId, BillingSchedule memory schedule) private view returns (uint256) {
+        (uint256 newlyBilled,) = _pendingBilling(agreementId, schedule);
+        uint256 billed = _rentBilled[agreementId].add(newlyBilled);
+        uint256 paid = _rentPaid[agreementId];
+        return billed > paid ? billed.sub(paid) : 0;
+    }
+
+    /**
+     * @notice Collects a payment in the agreement's payment token
+     * @dev ETH payments use msg.value; token payments pull exactly the due amount.
+     *      Everything received is owed to a tenant or landlord until paid out
+     * @param agreementId ID of the agreement
+     * @param dueAmount Amount to pull for token payments
+     * @return received Amount actually received by the contract
+     */
+    function _collectPayment(uint256 agreementId, uint256 dueAmount) private returns (uint256 received) {
+        address token = _paymentTokens[agreementId];
+        if (token == address(0)) {
+            received = msg.value;
+        } else {
+            require(msg.value == 0, "ETH not accepted");
+            received = _pullTokens(token, msg.sender, dueAmount);
+        }
+
+        _liabilities[token] = _liabilities[token].add(received);
+        return received;
+    }
+
+    /**
+     * @notice Pulls tokens from a payer's allowance
+     * @param token ERC-20 token to pull
+     * @param from Address to pull from
+     * @param amount Amount to pull
+     * @return received Amount actually received by the contract
+     */
+    function _pullTokens(address token, address from, uint256 amount) private returns (uint256 received) {
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(from, address(this), amount);
+        return IERC20(token).balanceOf(address(this)).sub(balanceBefore);
+    }
+
+    /**
+     * @notice Splits a rent installment between platform, broker and landlord
+     * @param agreementId ID of the agreement
+     * @param amount Rent amount to split
+     */
+    function _splitRent(uint256 agreementId, uint256 amount) private {
+        (, address landlord,,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        BrokerFee storage brokerFee = _brokerFees[agreementId];
+
+        uint256 platformFee = amount.mul(platformFeeBps).div(FEE_DENOMINATOR);
+        uint256 brokerShare = amount.mul(brokerFee.feeBps).div(FEE_DENOMINATOR);
+
+        if (platformFee > 0) {
+            _creditEarnings(agreementId, platformFeeRecipient, platformFee);
+        }
+        if (brokerShare > 0) {
+            _creditEarnings(agreementId, brokerFee.broker, brokerShare);
+        }
+        _payLandlord(agreementId, landlord, amount.sub(platformFee).sub(brokerShare));
+    }
+
+    /**
+     * @notice Credits the landlord's share, or forwards it when auto-forward is enabled
+     * @param agreementId ID of the agreement
+     * @param landlord Address of the landlord
+     * @param amount Landlord's share
+     */
+    function _payLandlord(uint256 agreementId, address landlord, uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+
+        if (_autoForward[agreementId]) {
+            address token = _paymentTokens[agreementId];
+            _transferOut(token, payable(landlord), amount);
+            emit EarningsAccrued(agreementId, landlord, token, amount);
+            emit EarningsWithdrawn(landlord, token, amount);
+        } else {
+            _creditEarnings(agreementId, landlord, amount);
+        }
+    }
+
+    /**
+     * @notice Adds to an account's withdrawable earnings
+     * @param agreementId ID of the agreement the earnings come from
+     * @param account Address earning the funds
+     * @param amount Amount earned
+     */
+    function _creditEarnings(uint256 agreementId, address account, uint256 amount) private {
+        address token = _paymentTokens[agreementId];
+        _earnings[account][token] = _earnings[account][token].add(amount);
+        emit EarningsAccrued(agreementId, account, token, amount);
+    }
+
+    /**
+     * @notice Requires the caller to be the landlord or their PROCESS_PAYMENT delegate for the agreement
+     * @param agreementId ID of the agreement
+     * @param landlord Landlord of the agreement
+     */
+    function _requireLandlord(uint256 agreementId, address landlord) private view {
+        require(
+            msg.sender == landlord ||
+                rentalCore.canActForLandlord(agreementId, msg.sender, keccak256("PROCESS_PAYMENT")),
+            "Not landlord"
+        );
+    }
+
+    /**
+     * @notice Refunds or credits the part of a payment above the amount due
+     * @dev Credit is capped at the rent still owed for the term and is not taken while rent is overdue;
+     *      anything beyond it is refunded
+     * @param agreementId ID of the agreement
+     * @param excess Amount received above the amount due
+     */
+    function _handleOverpayment(uint256 agreementId, uint256 excess) private {
+        if (excess == 0) {
+            return;
+        }
+
+        uint256 credited;
+        if (!_refundOverpayments[agreementId] && !_hasUncoveredArrears(agreementId)) {
+            uint256 remaining = _remainingRent(agreementId);
+            uint256 room = remaining > _credits[agreementId] ? remaining.sub(_credits[agreementId]) : 0;
+            credited = excess < room ? excess : room;
+        }
+
+        if (credited > 0) {
+            _credits[agreementId] = _credits[agreementId].add(credited);
+            emit CreditUpdated(agreementId, _credits[agreementId]);
+        }
+        if (excess > credited) {
+            _transferOut(_paymentTokens[agreementId], payable(msg.sender), excess.sub(credited));
+            emit OverpaymentRefunded(agreementId, msg.sender, excess.sub(credited));
+        }
+    }
+
+    /**
+     * @notice Pays out an escrowed deposit, deductions to the landlord and the rest to the tenant
+     * @param agreementId ID of the agreement
+     */
+    function _settleDeposit(uint256 agreementId) private {
+        (, address landlord, address tenant,,,,,,) = rentalCore.getAgreementDetails(agreementId);
+        DepositClaim storage claim = _depositClaims[agreementId];
+
+        uint256 balance = _depositBalances[agreementId];
+        uint256 deduction = claim.deductionAmount < balance ? claim.deductionAmount : balance;
+        uint256 refund = balance.sub(deduction);
+
+        claim.settled = true;
+        _depositBalances[agreementId] = 0;
+
+        address token = _paymentTokens[agreementId];
+        if (deduction > 0) {
+            _transferOut(token, payable(landlord), deduction);
+            emit DepositReleased(agreementId, deduction, landlord);
+        }
+        if (refund > 0) {
+            _transferOut(token, payable(tenant), refund);
+            emit DepositReleased(agreementId, refund, tenant);
+        }
+
+        emit DepositSettled(agreementId, deduction, refund);
+    }
+
+    /**
+     * @notice Pays owed funds out of the contract
+     * @param token Address of the ERC-20 token (zero for ETH)
+     * @param recipient Address to receive the funds
+     * @param amount Amount to send
+     */
+    function _transferOut(address token, address payable recipient, uint256 amount) private {
+        _liabilities[token] = _liabilities[token].sub(amount);
+        _sendFunds(token, recipient, amount);
+    }
+
+    /**
+     * @notice Sends ETH or ERC-20 tokens out of the contract
+     * @param token Address of the ERC-20 token (zero for ETH)
+     * @param recipient Address to receive the funds
+     * @param amount Amount to send
+     */
+    function _sendFunds(address token, address payable recipient, uint256 amount) private {
+        if (token == address(0)) {
+            (bool success, ) = recipient.call{value: amount}("");
+            require(success, "Transfer failed");
+        } else {
+            IERC20(token).safeTransfer(recipient, amount);
+        }
+    }
+
+    /**
+     * @notice Sets how many distinct system admins must approve an emergency withdrawal
+     * @dev Only callable by system admin. The threshold cannot exceed the current number of system admins
+     * @param approvals Number of approvals required
+     */
+    function setEmergencyApprovalsRequired(uint256 approvals) external onlySystemAdmin {
+        require(approvals > 0 && approvals <= _systemAdminCount(), "Invalid approval threshold");
+
+        emergencyApprovalsRequired = approvals;
+        emit EmergencyApprovalsRequiredUpdated(approvals);
+    }
+
+    /**
+     * @notice Proposes withdrawing funds that are not owed to tenants or landlords
+     * @dev Only callable by a system admin; the proposer's approval is counted
+     * @param token Address of the ERC-20 token (zero for ETH)
+     * @param amount Amount to withdraw
      * @param recipient Address to receive the funds
+     * @return proposalId ID of the withdrawal proposal
      */
-    function emergencyWithdraw(address payable recipient) external onlyAuthorized {
+    function proposeEmergencyWithdrawal(address token, uint256 amount, address payable recipient)
+        external
+        onlySystemAdmin
+        returns (uint256 proposalId)
+    {
         require(recipient != address(0), "Invalid recipient");
-        uint256 balance = address(this).balance;
-        (bool success, ) = recipient.call{value: balance}("");
-        require(success, "Transfer failed");
+        require(amount > 0, "Invalid amount");
+
+        _emergencyWithdrawalCount++;
+        proposalId = _emergencyWithdrawalCount;
+
+        _emergencyWithdrawals[proposalId] = EmergencyWithdrawal({
+            token: token,
+            amount: amount,
+            recipient: recipient,
+            proposedAt: block.timestamp,
+            approvals: 1,
+            executed: false,
+            cancelled: false
+        });
+        _emergencyApprovals[proposalId][msg.sender] = true;
+
+        emit EmergencyWithdrawalProposed(
+            proposalId,
+            msg.sender,
+            token,
+            amount,
+            recipient,
+            block.timestamp.add(EMERGENCY_TIMELOCK)
+        );
+        emit EmergencyWithdrawalApproved(proposalId, msg.sender, 1);
+        return proposalId;
+    }
+
+    /**
+     * @notice Approves an emergency withdrawal proposal
+     * @dev Only callable by a system admin that has not approved it yet
+     * @param proposalId ID of the withdrawal proposal
+     */
+    function approveEmergencyWithdrawal(uint256 proposalId) external onlySystemAdmin {
+        EmergencyWithdrawal storage withdrawal = _getOpenEmergencyWithdrawal(proposalId);
+        require(!_emergencyApprovals[proposalId][msg.sender], "Already approved");
+
+        _emergencyApprovals[proposalId][msg.sender] = true;
+        withdrawal.approvals = withdrawal.approvals.add(1);
+
+        emit EmergencyWithdrawalApproved(proposalId, msg.sender, withdrawal.approvals);
+    }
+
+    /**
+     * @notice Cancels an emergency withdrawal proposal
+     * @dev Any system admin can veto a pending proposal
+     * @param proposalId ID of the withdrawal proposal
+     */
+    function cancelEmergencyWithdrawal(uint256 proposalId) external onlySystemAdmin {
+        EmergencyWithdrawal storage withdrawal = _getOpenEmergencyWithdrawal(proposalId);
+        withdrawal.cancelled = true;
+
+        emit EmergencyWithdrawalCancelled(proposalId, msg.sender);
+    }
+
+    /**
+     * @notice Executes an approved emergency withdrawal after the timelock
+     * @dev Only funds not owed as deposits, credit or received rent can be withdrawn. If admins were
+     *      removed since the threshold was set, approval from every remaining admin is enough
+     * @param proposalId ID of the withdrawal proposal
+     */
+    function executeEmergencyWithdrawal(uint256 proposalId) external nonReentrant onlySystemAdmin {
+        EmergencyWithdrawal storage withdrawal = _getOpenEmergencyWithdrawal(proposalId);
+        uint256 adminCount = _systemAdminCount();
+        uint256 required = emergencyApprovalsRequired < adminCount ? emergencyApprovalsRequired : adminCount;
+        require(withdrawal.approvals >= required, "Not enough approvals");
+        require(block.timestamp >= withdrawal.proposedAt.add(EMERGENCY_TIMELOCK), "Timelock active");
+        require(withdrawal.amount <= getWithdrawableBalance(withdrawal.token), "Exceeds withdrawable balance");
+
+        withdrawal.executed = true;
+        _sendFunds(withdrawal.token, withdrawal.recipient, withdrawal.amount);
+
+        emit EmergencyWithdrawalExecuted(
+            proposalId,
+            msg.sender,
+            withdrawal.token,
+            withdrawal.amount,
+            withdrawal.recipient
+        );
+    }
+
+    /**
+     * @notice Gets an emergency withdrawal proposal
+     * @param proposalId ID of the withdrawal proposal
+     * @return token Address of the ERC-20 token (zero for ETH)
+     * @return amount Amount to withdraw
+     * @return recipient Address to receive the funds
+     * @return executableAt Time the timelock expires
+     * @return approvals Number of admin approvals
+     * @return executed Whether the withdrawal was executed
+     * @return cancelled Whether the proposal was cancelled
+     */
+    function getEmergencyWithdrawal(uint256 proposalId)
+        external
+        view
+        returns (
+            address token,
+            uint256 amount,
+            address recipient,
+            uint256 executableAt,
+            uint256 approvals,
+            bool executed,
+            bool cancelled
+        )
+    {
+        EmergencyWithdrawal storage withdrawal = _emergencyWithdrawals[proposalId];
+        require(withdrawal.proposedAt != 0, "Proposal doesn't exist");
+        return (
+            withdrawal.token,
+            withdrawal.amount,
+            withdrawal.recipient,
+            withdrawal.proposedAt.add(EMERGENCY_TIMELOCK),
+            withdrawal.approvals,
+            withdrawal.executed,
+            withdrawal.cancelled
+        );
+    }
+
+    /**
+     * @notice Gets the balance that is not owed to tenants or landlords
+     * @param token Address of the ERC-20 token (zero for ETH)
+     * @return Amount available for emergency withdrawal
+     */
+    function getWithdrawableBalance(address token) public view returns (uint256) {
+        uint256 balance = token == address(0) ?
+            address(this).balance : IERC20(token).balanceOf(address(this));
+        return balance > _liabilities[token] ? balance.sub(_liabilities[token]) : 0;
+    }
+
+    /**
+     * @notice Counts the accounts currently holding the system admin role
+     * @return Number of system admins
+     */
+    function _systemAdminCount() private view returns (uint256) {
+        return accessManager.getRoleMembers(keccak256("SYSTEM_ADMIN")).length;
+    }
+
+    /**
+     * @notice Loads an emergency withdrawal proposal that is still pending
+     * @param proposalId ID of the withdrawal proposal
+     * @return withdrawal Storage pointer to the proposal
+     */
+    function _getOpenEmergencyWithdrawal(uint256 proposalId)
+        private
+        view
+        returns (EmergencyWithdrawal storage withdrawal)
+    {
+        withdrawal = _emergencyWithdrawals[proposalId];
+        require(withdrawal.proposedAt != 0, "Proposal doesn't exist");
+        require(!withdrawal.executed && !withdrawal.cancelled, "Proposal closed");
     }
 
     // Function to receive ETH
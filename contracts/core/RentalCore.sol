@@ -5,6 +5,8 @@ import "../interfaces/IRentalCore.sol";
 import "../interfaces/IPaymentManager.sol";
 import "../interfaces/IComplianceVerifier.sol";
 import "../interfaces/IAccessControlManager.sol";
+import "../utils/DocumentUtils.sol";
+import "../utils/RentalUtils.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/security/Pausable.sol";
 import "@openzeppelin/contracts/utils/Counters.sol";
@@ -21,16 +23,22 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
     IPaymentManager public paymentManager;
     IComplianceVerifier public complianceVerifier;
     IAccessControlManager public accessManager;
+    address public disputeManager; // Only contract allowed to move agreements in and out of Disputed
 
     Counters.Counter private _propertyIds;
     Counters.Counter private _agreementIds;
 
+    // Constants
+    uint256 public constant OFFER_VALIDITY_PERIOD = 14 days;
+    uint256 public constant TERMINATION_CONSENT_VALIDITY = 14 days;
+
     // Structs
     struct Property {
         address owner;
         bytes32 dataHash;
         bool isActive;
         uint256[] agreementHistory;
+        uint256 floorArea; // Square meters
     }
 
     struct Agreement {
@@ -44,8 +52,50 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         AgreementStatus status;
         bytes32 termsHash;
         bytes32[] amendmentHashes;
+        uint256 offerExpiry;
+        uint256 parametersVersion; // Compliance parameters version the agreement was created under
+    }
+
+    struct TerminationNotice {
+        address givenBy;
+        uint256 effectiveDate;
+        uint256 penaltyAmount;
+    }
+
+    struct AmendmentProposal {
+        address proposer;
+        uint256 newRentAmount;
+        uint256 newEndDate;
+        bytes32 newTermsHash;
+        bytes32 amendmentHash;
+        uint256 proposedAt;
+    }
+
+    struct RentChange {
+        uint256 effectiveFrom;
+        uint256 previousRent;
+    }
+
+    struct Delegation {
+        address grantedBy;
+        uint256 expiresAt;
     }
 
+    // Landlord permissions a property owner can delegate to a manager or broker
+    bytes32 public constant CREATE_AGREEMENT = keccak256("CREATE_AGREEMENT");
+    bytes32 public constant TERMINATE_AGREEMENT = keccak256("TERMINATE_AGREEMENT");
+    bytes32 public constant PROCESS_PAYMENT = keccak256("PROCESS_PAYMENT");
+
+    // Amendment type flags combined into the amendment type passed to DocumentUtils
+    uint8 public constant AMEND_RENT = 1;
+    uint8 public constant AMEND_END_DATE = 2;
+    uint8 public constant AMEND_TERMS = 4;
+
+    // Party role filters for agreement enumeration
+    uint8 public constant ROLE_ANY = 0;
+    uint8 public constant ROLE_LANDLORD = 1;
+    uint8 public constant ROLE_TENANT = 2;
+
     // Enums
     enum AgreementStatus {
         Pending,
@@ -60,11 +110,56 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
     mapping(uint256 => Agreement) private _agreements;
     mapping(address => uint256[]) private _userProperties;
     mapping(address => uint256[]) private _userAgreements;
+    mapping(uint256 => AmendmentProposal) private _pendingAmendments; // agreementId => proposal
+    mapping(uint256 => RentChange[]) private _rentChanges; // agreementId => confirmed rent changes, oldest first
+    mapping(uint256 => TerminationNotice) private _terminationNotices; // agreementId => notice
+    mapping(uint256 => mapping(address => uint256)) private _terminationConsents; // agreementId => party => consent expiry
+    mapping(uint256 => mapping(address => mapping(bytes32 => Delegation))) private _delegations; // propertyId => delegate => permission
+
+    // Errors
+    error InvalidStatus(uint8 status);
+    error InvalidStatusTransition(uint8 fromStatus, uint8 toStatus);
+    error MissingReasonHash();
+    error InvalidRentalPeriod(uint8 reason);
+    error InvalidDeposit(uint8 reason);
+    error InvalidRentAmount(uint8 reason);
 
     // Events (in addition to interface events)
     event AgreementAmended(uint256 indexed agreementId, bytes32 amendmentHash);
     event PropertyUpdated(uint256 indexed propertyId, bytes32 newDataHash);
     event EmergencyShutdown(address indexed triggeredBy, uint256 timestamp);
+    event DisputeManagerSet(address indexed disputeManager);
+    event AgreementAccepted(uint256 indexed agreementId, address indexed tenant);
+    event AgreementRejected(uint256 indexed agreementId, address indexed tenant);
+    event AgreementOfferExpired(uint256 indexed agreementId);
+    event AmendmentProposed(uint256 indexed agreementId, address indexed proposer, bytes32 amendmentHash);
+    event AmendmentCancelled(uint256 indexed agreementId, address indexed cancelledBy, bytes32 amendmentHash);
+    event AgreementStatusTransition(
+        uint256 indexed agreementId,
+        uint8 fromStatus,
+        uint8 toStatus,
+        bytes32 reasonHash,
+        address indexed changedBy
+    );
+    event AgreementExpired(uint256 indexed agreementId, uint256 endDate);
+    event TerminationNoticeGiven(
+        uint256 indexed agreementId,
+        address indexed givenBy,
+        uint256 effectiveDate,
+        uint256 penaltyAmount
+    );
+    event MutualTerminationAgreed(uint256 indexed agreementId, address indexed party);
+    event TerminationConsentRevoked(uint256 indexed agreementId, address indexed party);
+    event AgreementTerminated(uint256 indexed agreementId, uint256 penaltyAmount);
+    event PropertyStatusChanged(uint256 indexed propertyId, bool isActive);
+    event PropertyTransferred(uint256 indexed propertyId, address indexed previousOwner, address indexed newOwner);
+    event PropertyPermissionDelegated(
+        uint256 indexed propertyId,
+        address indexed delegate,
+        bytes32 indexed permission,
+        uint256 expiresAt
+    );
+    event PropertyDelegationRevoked(uint256 indexed propertyId, address indexed delegate, bytes32 indexed permission);
 
     // Modifiers
     modifier onlyPropertyOwner(uint256 propertyId) {
@@ -81,6 +176,11 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         _;
     }
 
+    modifier onlyTenant(uint256 agreementId) {
+        require(_agreements[agreementId].tenant == msg.sender, "Not agreement tenant");
+        _;
+    }
+
     modifier propertyExists(uint256 propertyId) {
         require(_properties[propertyId].owner != address(0), "Property doesn't exist");
         _;
@@ -114,7 +214,7 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
     /**
      * @inheritdoc IRentalCore
      */
-    function registerProperty(bytes32 dataHash) 
+    function registerProperty(bytes32 dataHash, uint256 floorArea) 
         external 
         override 
         whenNotPaused 
@@ -122,6 +222,7 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         returns (uint256) 
     {
         require(dataHash != bytes32(0), "Invalid property data");
+        require(floorArea > 0, "Invalid floor area");
         require(
             accessManager.hasPermission(msg.sender, keccak256("REGISTER_PROPERTY")),
             "No permission"
@@ -134,6 +235,7 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         newProperty.owner = msg.sender;
         newProperty.dataHash = dataHash;
         newProperty.isActive = true;
+        newProperty.floorArea = floorArea;
 
         _userProperties[msg.sender].push(newPropertyId);
 
@@ -141,6 +243,118 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         return newPropertyId;
     }
 
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function updatePropertyData(uint256 propertyId, bytes32 newDataHash)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        propertyExists(propertyId)
+        onlyPropertyOwner(propertyId)
+    {
+        require(newDataHash != bytes32(0), "Invalid property data");
+
+        _properties[propertyId].dataHash = newDataHash;
+        emit PropertyUpdated(propertyId, newDataHash);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function setPropertyActive(uint256 propertyId, bool isActive)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        propertyExists(propertyId)
+        onlyPropertyOwner(propertyId)
+    {
+        Property storage property = _properties[propertyId];
+        require(property.isActive != isActive, "Status unchanged");
+        if (!isActive) {
+            require(!_hasOpenAgreement(propertyId), "Property has open agreement");
+        }
+
+        property.isActive = isActive;
+        emit PropertyStatusChanged(propertyId, isActive);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function transferProperty(uint256 propertyId, address newOwner)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        propertyExists(propertyId)
+        onlyPropertyOwner(propertyId)
+    {
+        require(newOwner != address(0), "Invalid new owner");
+        require(newOwner != msg.sender, "Already property owner");
+        require(
+            accessManager.hasPermission(msg.sender, keccak256("TRANSFER_OWNERSHIP")),
+            "No permission"
+        );
+        require(!_hasOpenAgreement(propertyId), "Property has open agreement");
+
+        _properties[propertyId].owner = newOwner;
+        _removeUserProperty(msg.sender, propertyId);
+        _userProperties[newOwner].push(propertyId);
+
+        emit PropertyTransferred(propertyId, msg.sender, newOwner);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function delegatePropertyPermission(
+        uint256 propertyId,
+        address delegate,
+        bytes32 permission,
+        uint256 expiresAt
+    )
+        external
+        override
+        whenNotPaused
+        propertyExists(propertyId)
+        onlyPropertyOwner(propertyId)
+    {
+        require(delegate != address(0) && delegate != msg.sender, "Invalid delegate");
+        require(
+            permission == CREATE_AGREEMENT || permission == TERMINATE_AGREEMENT || permission == PROCESS_PAYMENT,
+            "Invalid permission"
+        );
+        require(expiresAt > block.timestamp, "Invalid expiry");
+        require(_isManagerOrBroker(delegate), "Not a manager or broker");
+
+        _delegations[propertyId][delegate][permission] = Delegation({
+            grantedBy: msg.sender,
+            expiresAt: expiresAt
+        });
+
+        emit PropertyPermissionDelegated(propertyId, delegate, permission, expiresAt);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function revokePropertyDelegation(uint256 propertyId, address delegate, bytes32 permission)
+        external
+        override
+        whenNotPaused
+        propertyExists(propertyId)
+        onlyPropertyOwner(propertyId)
+    {
+        require(_delegations[propertyId][delegate][permission].grantedBy != address(0), "No delegation");
+
+        delete _delegations[propertyId][delegate][permission];
+
+        emit PropertyDelegationRevoked(propertyId, delegate, permission);
+    }
+
     /**
      * @inheritdoc IRentalCore
      */
@@ -163,11 +377,9 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         require(tenant != address(0), "Invalid tenant address");
         require(terms != bytes32(0), "Invalid terms");
         require(startDate > block.timestamp, "Invalid start date");
-        require(endDate > startDate, "Invalid end date");
-        require(rentAmount > 0, "Invalid rent amount");
-        require(depositAmount > 0, "Invalid deposit amount");
+        address landlord = _properties[propertyId].owner;
         require(
-            _properties[propertyId].owner == msg.sender,
+            landlord == msg.sender || _isDelegate(propertyId, landlord, msg.sender, CREATE_AGREEMENT),
             "Not property owner"
         );
         require(
@@ -175,16 +387,26 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
             "Property not active"
         );
 
-        // Verify compliance
-        (bool compliant,) = complianceVerifier.verifyContractCompliance(propertyId);
-        require(compliant, "Failed compliance check");
+        // Validate the terms against the statutory parameters currently in effect
+        (
+            uint256 parametersVersion,
+            IComplianceVerifier.ComplianceParameters memory parameters
+        ) = complianceVerifier.getCurrentParameters();
+        require(parametersVersion != 0, "Compliance parameters not set");
+        _validateTerms(propertyId, startDate, endDate, rentAmount, depositAmount, parameters);
+
+        // Verify compliance of the property and both parties; the agreement doesn't exist yet
+        (bool propertyCompliant,) = complianceVerifier.verifyPropertyCompliance(propertyId);
+        (bool landlordCompliant,) = complianceVerifier.verifyLandlordCompliance(landlord);
+        (bool tenantCompliant,) = complianceVerifier.verifyTenantCompliance(tenant);
+        require(propertyCompliant && landlordCompliant && tenantCompliant, "Failed compliance check");
 
         _agreementIds.increment();
         uint256 newAgreementId = _agreementIds.current();
 
         Agreement storage newAgreement = _agreements[newAgreementId];
         newAgreement.propertyId = propertyId;
-        newAgreement.landlord = msg.sender;
+        newAgreement.landlord = landlord;
         newAgreement.tenant = tenant;
         newAgreement.startDate = startDate;
         newAgreement.endDate = endDate;
@@ -192,15 +414,124 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         newAgreement.depositAmount = depositAmount;
         newAgreement.status = AgreementStatus.Pending;
         newAgreement.termsHash = terms;
+        newAgreement.offerExpiry = _offerExpiry(startDate);
+        newAgreement.parametersVersion = parametersVersion;
 
         _properties[propertyId].agreementHistory.push(newAgreementId);
-        _userAgreements[msg.sender].push(newAgreementId);
-        _userAgreements[tenant].push(newAgreementId);
+        _userAgreements[landlord].push(newAgreementId);
+        if (tenant != landlord) {
+            _userAgreements[tenant].push(newAgreementId);
+        }
 
-        emit AgreementCreated(newAgreementId, propertyId, msg.sender, tenant);
+        emit AgreementCreated(newAgreementId, propertyId, landlord, tenant);
         return newAgreementId;
     }
 
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function acceptAgreement(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+        onlyTenant(agreementId)
+    {
+        Agreement storage agreement = _agreements[agreementId];
+        require(
+            agreement.status == AgreementStatus.Pending,
+            "Agreement not pending"
+        );
+        require(block.timestamp <= agreement.offerExpiry, "Offer expired");
+
+        agreement.status = AgreementStatus.Active;
+
+        emit AgreementAccepted(agreementId, msg.sender);
+        emit AgreementStatusUpdated(agreementId, uint8(AgreementStatus.Active));
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function rejectAgreement(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+        onlyTenant(agreementId)
+    {
+        Agreement storage agreement = _agreements[agreementId];
+        require(
+            agreement.status == AgreementStatus.Pending,
+            "Agreement not pending"
+        );
+
+        agreement.status = AgreementStatus.Terminated;
+
+        emit AgreementRejected(agreementId, msg.sender);
+        emit AgreementStatusUpdated(agreementId, uint8(AgreementStatus.Terminated));
+    }
+
+    /**
+     * @notice Marks a pending agreement whose offer was never answered as expired
+     * @dev Callable by anyone once the offer expiry has passed
+     * @param agreementId ID of the agreement
+     */
+    function expireOffer(uint256 agreementId)
+        external
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+    {
+        Agreement storage agreement = _agreements[agreementId];
+        require(
+            agreement.status == AgreementStatus.Pending,
+            "Agreement not pending"
+        );
+        require(block.timestamp > agreement.offerExpiry, "Offer still valid");
+
+        agreement.status = AgreementStatus.Expired;
+
+        emit AgreementOfferExpired(agreementId);
+        emit AgreementStatusUpdated(agreementId, uint8(AgreementStatus.Expired));
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function expireAgreement(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+    {
+        require(_terminationNotices[agreementId].givenBy == address(0), "Termination notice pending");
+        require(_isExpirable(agreementId), "Agreement not expirable");
+        _expireAgreement(agreementId);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function expireAgreements(uint256[] calldata agreementIds)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        returns (uint256 expiredCount)
+    {
+        for (uint256 i = 0; i < agreementIds.length; i++) {
+            if (_isExpirable(agreementIds[i])) {
+                _expireAgreement(agreementIds[i]);
+                expiredCount++;
+            }
+        }
+        return expiredCount;
+    }
+
     /**
      * @inheritdoc IRentalCore
      */
@@ -210,46 +541,309 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         whenNotPaused
         nonReentrant
         agreementExists(agreementId)
-        onlyAgreementParty(agreementId)
     {
         Agreement storage agreement = _agreements[agreementId];
+        // Delegates give notice on the landlord's behalf
+        address party = msg.sender;
+        if (party != agreement.landlord && party != agreement.tenant) {
+            require(
+                _isDelegate(agreement.propertyId, agreement.landlord, party, TERMINATE_AGREEMENT),
+                "Not agreement party"
+            );
+            party = agreement.landlord;
+        }
         require(
             agreement.status == AgreementStatus.Active,
             "Agreement not active"
         );
+        require(_terminationNotices[agreementId].givenBy == address(0), "Notice already given");
+
+        (bool allowed, uint256 penaltyMonths) = RentalUtils.validateTermination(
+            agreement.startDate,
+            agreement.endDate,
+            block.timestamp
+        );
+        require(allowed, "Termination not allowed");
 
         // Verify compliance for termination
-        (bool compliant,) = complianceVerifier.verifyContractCompliance(agreementId);
+        (bool compliant,) = complianceVerifier.verifyAgreementCompliance(agreementId);
         require(compliant, "Failed compliance check");
 
-        agreement.status = AgreementStatus.Terminated;
-        emit AgreementStatusUpdated(agreementId, uint8(AgreementStatus.Terminated));
+        // Notice cannot run past the end of the lease, which ends it anyway
+        uint256 effectiveDate = block.timestamp + _noticePeriodDays(agreement) * 1 days;
+        if (effectiveDate > agreement.endDate) {
+            effectiveDate = agreement.endDate;
+        }
+        uint256 penaltyAmount = penaltyMonths * agreement.rentAmount;
+        _terminationNotices[agreementId] = TerminationNotice({
+            givenBy: party,
+            effectiveDate: effectiveDate,
+            penaltyAmount: penaltyAmount
+        });
+
+        emit TerminationNoticeGiven(agreementId, party, effectiveDate, penaltyAmount);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function finalizeTermination(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+    {
+        require(_agreements[agreementId].status == AgreementStatus.Active, "Agreement not active");
+        TerminationNotice storage notice = _terminationNotices[agreementId];
+        require(notice.givenBy != address(0), "No termination notice");
+        require(block.timestamp >= notice.effectiveDate, "Notice period not over");
+
+        _terminate(agreementId, notice.penaltyAmount);
+        if (notice.penaltyAmount > 0) {
+            paymentManager.chargeTerminationPenalty(agreementId, notice.givenBy, notice.penaltyAmount);
+        }
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function agreeMutualTermination(uint256 agreementId)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+        onlyAgreementParty(agreementId)
+    {
+        Agreement storage agreement = _agreements[agreementId];
+        require(agreement.status == AgreementStatus.Active, "Agreement not active");
+
+        _terminationConsents[agreementId][msg.sender] = block.timestamp + TERMINATION_CONSENT_VALIDITY;
+        emit MutualTerminationAgreed(agreementId, msg.sender);
+
+        if (
+            _terminationConsents[agreementId][agreement.landlord] > block.timestamp &&
+            _terminationConsents[agreementId][agreement.tenant] > block.timestamp
+        ) {
+            _terminate(agreementId, 0);
+        }
     }
 
     /**
      * @inheritdoc IRentalCore
      */
-    function updateAgreementStatus(uint256 agreementId, uint8 status)
+    function revokeTerminationConsent(uint256 agreementId)
         external
         override
         whenNotPaused
         nonReentrant
         agreementExists(agreementId)
+        onlyAgreementParty(agreementId)
+    {
+        require(_terminationConsents[agreementId][msg.sender] > block.timestamp, "No termination consent");
+
+        delete _terminationConsents[agreementId][msg.sender];
+        emit TerminationConsentRevoked(agreementId, msg.sender);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getTerminationNotice(uint256 agreementId)
+        external
+        view
+        override
+        agreementExists(agreementId)
+        returns (address givenBy, uint256 effectiveDate, uint256 penaltyAmount)
+    {
+        TerminationNotice storage notice = _terminationNotices[agreementId];
+        return (notice.givenBy, notice.effectiveDate, notice.penaltyAmount);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function proposeAmendment(
+        uint256 agreementId,
+        uint256 newRentAmount,
+        uint256 newEndDate,
+        bytes32 newTermsHash
+    )
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+        onlyAgreementParty(agreementId)
+        returns (bytes32)
     {
+        Agreement storage agreement = _agreements[agreementId];
         require(
-            accessManager.hasPermission(msg.sender, keccak256("UPDATE_AGREEMENT")),
-            "No permission"
+            agreement.status == AgreementStatus.Active,
+            "Agreement not active"
+        );
+        require(
+            _pendingAmendments[agreementId].proposer == address(0),
+            "Amendment already pending"
+        );
+        require(newRentAmount > 0, "Invalid rent amount");
+        require(
+            newEndDate > agreement.startDate && newEndDate > block.timestamp,
+            "Invalid end date"
         );
+        require(newTermsHash != bytes32(0), "Invalid terms");
+        _validateAmendedTerms(agreement, newRentAmount, newEndDate);
+
+        uint8 amendmentType = 0;
+        if (newRentAmount != agreement.rentAmount) amendmentType |= AMEND_RENT;
+        if (newEndDate != agreement.endDate) amendmentType |= AMEND_END_DATE;
+        if (newTermsHash != agreement.termsHash) amendmentType |= AMEND_TERMS;
+        require(amendmentType != 0, "No changes proposed");
+
+        bytes32 amendmentHash = DocumentUtils.generateAmendmentHash(
+            agreementId,
+            amendmentType,
+            block.timestamp,
+            keccak256(abi.encodePacked(newRentAmount, newEndDate, newTermsHash))
+        );
+
+        _pendingAmendments[agreementId] = AmendmentProposal({
+            proposer: msg.sender,
+            newRentAmount: newRentAmount,
+            newEndDate: newEndDate,
+            newTermsHash: newTermsHash,
+            amendmentHash: amendmentHash,
+            proposedAt: block.timestamp
+        });
+
+        emit AmendmentProposed(agreementId, msg.sender, amendmentHash);
+        return amendmentHash;
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function confirmAmendment(uint256 agreementId, bytes32 amendmentHash)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+        onlyAgreementParty(agreementId)
+    {
+        AmendmentProposal memory proposal = _pendingAmendments[agreementId];
+        require(proposal.proposer != address(0), "No pending amendment");
+        require(proposal.amendmentHash == amendmentHash, "Amendment mismatch");
+        require(proposal.proposer != msg.sender, "Proposer cannot confirm");
+
+        Agreement storage agreement = _agreements[agreementId];
         require(
-            status <= uint8(AgreementStatus.Disputed),
-            "Invalid status"
+            agreement.status == AgreementStatus.Active,
+            "Agreement not active"
         );
+        require(proposal.newEndDate > block.timestamp, "Invalid end date");
+        _validateAmendedTerms(agreement, proposal.newRentAmount, proposal.newEndDate);
+
+        // The new rent applies to installments falling due after confirmation
+        if (proposal.newRentAmount != agreement.rentAmount) {
+            _rentChanges[agreementId].push(RentChange({
+                effectiveFrom: block.timestamp,
+                previousRent: agreement.rentAmount
+            }));
+        }
 
+        agreement.rentAmount = proposal.newRentAmount;
+        agreement.endDate = proposal.newEndDate;
+        agreement.termsHash = proposal.newTermsHash;
+        agreement.amendmentHashes.push(amendmentHash);
+
+        delete _pendingAmendments[agreementId];
+
+        emit AgreementAmended(agreementId, amendmentHash);
+    }
+
+    /**
+     * @notice Withdraws or declines the pending amendment of an agreement
+     * @dev Callable by either party; the proposer withdraws, the counterparty declines
+     * @param agreementId ID of the agreement
+     */
+    function cancelAmendment(uint256 agreementId)
+        external
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+        onlyAgreementParty(agreementId)
+    {
+        bytes32 amendmentHash = _pendingAmendments[agreementId].amendmentHash;
+        require(amendmentHash != bytes32(0), "No pending amendment");
+
+        delete _pendingAmendments[agreementId];
+
+        emit AmendmentCancelled(agreementId, msg.sender, amendmentHash);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function updateAgreementStatus(uint256 agreementId, uint8 status, bytes32 reasonHash)
+        external
+        override
+        whenNotPaused
+        nonReentrant
+        agreementExists(agreementId)
+    {
         Agreement storage agreement = _agreements[agreementId];
+        uint8 currentStatus = uint8(agreement.status);
+        if (currentStatus == uint8(AgreementStatus.Disputed) || status == uint8(AgreementStatus.Disputed)) {
+            require(disputeManager != address(0) && msg.sender == disputeManager, "Not dispute manager");
+        } else {
+            require(
+                accessManager.hasPermission(msg.sender, keccak256("UPDATE_AGREEMENT")),
+                "No permission"
+            );
+        }
+        if (status > uint8(AgreementStatus.Disputed)) revert InvalidStatus(status);
+        if (reasonHash == bytes32(0)) revert MissingReasonHash();
+
+        if (!isValidTransition(currentStatus, status)) {
+            revert InvalidStatusTransition(currentStatus, status);
+        }
+
         agreement.status = AgreementStatus(status);
+        _clearTerminationConsents(agreementId);
+        emit AgreementStatusTransition(agreementId, currentStatus, status, reasonHash, msg.sender);
         emit AgreementStatusUpdated(agreementId, status);
     }
 
+    /**
+     * @notice Checks whether an agreement may move between two statuses
+     * @dev Pending -> Active | Terminated | Expired
+     *      Active -> Disputed | Terminated | Expired
+     *      Disputed -> Active | Terminated
+     *      Terminated and Expired are final
+     * @param fromStatus Current status
+     * @param toStatus Requested status
+     * @return Whether the transition is allowed
+     */
+    function isValidTransition(uint8 fromStatus, uint8 toStatus) public pure returns (bool) {
+        if (fromStatus == uint8(AgreementStatus.Pending)) {
+            return toStatus == uint8(AgreementStatus.Active) ||
+                toStatus == uint8(AgreementStatus.Terminated) ||
+                toStatus == uint8(AgreementStatus.Expired);
+        }
+        if (fromStatus == uint8(AgreementStatus.Active)) {
+            return toStatus == uint8(AgreementStatus.Disputed) ||
+                toStatus == uint8(AgreementStatus.Terminated) ||
+                toStatus == uint8(AgreementStatus.Expired);
+        }
+        if (fromStatus == uint8(AgreementStatus.Disputed)) {
+            return toStatus == uint8(AgreementStatus.Active) ||
+                toStatus == uint8(AgreementStatus.Terminated);
+        }
+        return false;
+    }
+
     /**
      * @inheritdoc IRentalCore
      */
@@ -264,6 +858,39 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         return (property.owner, property.dataHash, property.isActive);
     }
 
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getPropertyDelegation(uint256 propertyId, address delegate, bytes32 permission)
+        external
+        view
+        override
+        propertyExists(propertyId)
+        returns (address grantedBy, uint256 expiresAt, bool active)
+    {
+        Delegation storage delegation = _delegations[propertyId][delegate][permission];
+        return (
+            delegation.grantedBy,
+            delegation.expiresAt,
+            _isDelegate(propertyId, _properties[propertyId].owner, delegate, permission)
+        );
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function canActForLandlord(uint256 agreementId, address account, bytes32 permission)
+        external
+        view
+        override
+        agreementExists(agreementId)
+        returns (bool)
+    {
+        Agreement storage agreement = _agreements[agreementId];
+        return account == agreement.landlord ||
+            _isDelegate(agreement.propertyId, agreement.landlord, account, permission);
+    }
+
     /**
      * @inheritdoc IRentalCore
      */
@@ -298,6 +925,199 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         );
     }
 
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getAmendmentHistory(uint256 agreementId)
+        external
+        view
+        override
+        agreementExists(agreementId)
+        returns (bytes32[] memory)
+    {
+        return _agreements[agreementId].amendmentHashes;
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getRentHistory(uint256 agreementId)
+        external
+        view
+        override
+        agreementExists(agreementId)
+        returns (uint256[] memory effectiveFrom, uint256[] memory previousRents)
+    {
+        RentChange[] storage changes = _rentChanges[agreementId];
+        effectiveFrom = new uint256[](changes.length);
+        previousRents = new uint256[](changes.length);
+        for (uint256 i = 0; i < changes.length; i++) {
+            effectiveFrom[i] = changes[i].effectiveFrom;
+            previousRents[i] = changes[i].previousRent;
+        }
+        return (effectiveFrom, previousRents);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getPropertiesByOwner(address owner, uint256 offset, uint256 limit)
+        external
+        view
+        override
+        returns (uint256[] memory propertyIds, uint256 total)
+    {
+        uint256[] storage ids = _userProperties[owner];
+        return (_paginate(ids, offset, limit), ids.length);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getAgreementsByUser(
+        address user,
+        uint8 role,
+        uint256 offset,
+        uint256 limit
+    )
+        external
+        view
+        override
+        returns (uint256[] memory agreementIds, uint256 total)
+    {
+        require(role <= ROLE_TENANT, "Invalid role filter");
+
+        uint256[] storage ids = _userAgreements[user];
+        if (role == ROLE_ANY) {
+            return (_paginate(ids, offset, limit), ids.length);
+        }
+
+        for (uint256 i = 0; i < ids.length; i++) {
+            if (_isAgreementRole(ids[i], user, role)) {
+                total++;
+            }
+        }
+
+        uint256 pageSize = 0;
+        if (offset < total) {
+            pageSize = total - offset < limit ? total - offset : limit;
+        }
+
+        agreementIds = new uint256[](pageSize);
+        uint256 matched = 0;
+        uint256 count = 0;
+        for (uint256 i = 0; i < ids.length && count < pageSize; i++) {
+            if (!_isAgreementRole(ids[i], user, role)) {
+                continue;
+            }
+            if (matched >= offset) {
+                agreementIds[count] = ids[i];
+                count++;
+            }
+            matched++;
+        }
+
+        return (agreementIds, total);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getPropertyAgreementHistory(uint256 propertyId, uint256 offset, uint256 limit)
+        external
+        view
+        override
+        propertyExists(propertyId)
+        returns (uint256[] memory agreementIds, uint256 total)
+    {
+        uint256[] storage ids = _properties[propertyId].agreementHistory;
+        return (_paginate(ids, offset, limit), ids.length);
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getTotalCounts()
+        external
+        view
+        override
+        returns (uint256 propertyCount, uint256 agreementCount)
+    {
+        return (_propertyIds.current(), _agreementIds.current());
+    }
+
+    /**
+     * @notice Gets the amendment awaiting confirmation for an agreement
+     * @param agreementId ID of the agreement
+     * @return proposer Address that proposed the amendment (zero if none)
+     * @return newRentAmount Proposed monthly rent amount
+     * @return newEndDate Proposed end date
+     * @return newTermsHash Proposed terms hash
+     * @return amendmentHash Hash identifying the amendment
+     */
+    function getPendingAmendment(uint256 agreementId)
+        external
+        view
+        agreementExists(agreementId)
+        returns (
+            address proposer,
+            uint256 newRentAmount,
+            uint256 newEndDate,
+            bytes32 newTermsHash,
+            bytes32 amendmentHash
+        )
+    {
+        AmendmentProposal storage proposal = _pendingAmendments[agreementId];
+        return (
+            proposal.proposer,
+            proposal.newRentAmount,
+            proposal.newEndDate,
+            proposal.newTermsHash,
+            proposal.amendmentHash
+        );
+    }
+
+    /**
+     * @inheritdoc IRentalCore
+     */
+    function getAgreementParametersVersion(uint256 agreementId)
+        external
+        view
+        override
+        agreementExists(agreementId)
+        returns (uint256)
+    {
+        return _agreements[agreementId].parametersVersion;
+    }
+
+    /**
+     * @notice Gets the floor area of a property
+     * @param propertyId ID of the property
+     * @return Floor area in square meters
+     */
+    function getPropertyFloorArea(uint256 propertyId)
+        external
+        view
+        propertyExists(propertyId)
+        returns (uint256)
+    {
+        return _properties[propertyId].floorArea;
+    }
+
+    /**
+     * @notice Gets the time until which the tenant can accept a pending agreement
+     * @param agreementId ID of the agreement
+     * @return Offer expiry timestamp
+     */
+    function getOfferExpiry(uint256 agreementId)
+        external
+        view
+        agreementExists(agreementId)
+        returns (uint256)
+    {
+        return _agreements[agreementId].offerExpiry;
+    }
+
     /**
      * @notice Emergency shutdown of the contract
      * @dev Only callable by system admin
@@ -322,4 +1142,265 @@ contract RentalCore is IRentalCore, ReentrancyGuard, Pausable {
         );
         _unpause();
     }
-}
\ No newline at end of file
+
+    /**
+     * @notice Registers the DisputeManager contract
+     * @dev Only callable by system admin. Moving agreements in and out of Disputed is reserved
+     *      for this contract, so a dispute cannot be cleared without a ruling
+     * @param disputeMgr Address of the DisputeManager contract
+     */
+    function setDisputeManager(address disputeMgr) external {
+        require(
+            accessManager.hasRole(msg.sender, keccak256("SYSTEM_ADMIN")),
+            "Not system admin"
+        );
+        require(disputeMgr != address(0), "Invalid dispute manager");
+
+        disputeManager = disputeMgr;
+        emit DisputeManagerSet(disputeMgr);
+    }
+
+    /**
+     * @notice Checks whether an agreement is active and past its end date
+     * @param agreementId ID of the agreement
+     * @return Whether the agreement can be expired
+     */
+    function _isExpirable(uint256 agreementId) private view returns (bool) {
+        Agreement storage agreement = _agreements[agreementId];
+        return agreement.status == AgreementStatus.Active &&
+            block.timestamp > agreement.endDate &&
+            _terminationNotices[agreementId].givenBy == address(0);
+    }
+
+    /**
+     * @notice Moves an agreement to the Expired status
+     * @param agreementId ID of the agreement
+     */
+    function _expireAgreement(uint256 agreementId) private {
+        Agreement storage agreement = _agreements[agreementId];
+        agreement.status = AgreementStatus.Expired;
+        _clearTerminationConsents(agreementId);
+
+        emit AgreementExpired(agreementId, agreement.endDate);
+        emit AgreementStatusUpdated(agreementId, uint8(AgreementStatus.Expired));
+    }
+
+    /**
+     * @notice Moves an agreement to the Terminated status
+     * @param agreementId ID of the agreement
+     * @param penaltyAmount Early termination penalty charged, if any
+     */
+    function _terminate(uint256 agreementId, uint256 penaltyAmount) private {
+        _agreements[agreementId].status = AgreementStatus.Terminated;
+        _clearTerminationConsents(agreementId);
+
+        emit AgreementTerminated(agreementId, penaltyAmount);
+        emit AgreementStatusUpdated(agreementId, uint8(AgreementStatus.Terminated));
+    }
+
+    /**
+     * @notice Drops both parties' mutual termination consents
+     * @dev Called on every status change of an active agreement, so consent given before a
+     *      dispute or other change never carries over
+     * @param agreementId ID of the agreement
+     */
+    function _clearTerminationConsents(uint256 agreementId) private {
+        Agreement storage agreement = _agreements[agreementId];
+        delete _terminationConsents[agreementId][agreement.landlord];
+        delete _terminationConsents[agreementId][agreement.tenant];
+    }
+
+    /**
+     * @notice Computes the notice period for terminating an agreement now
+     * @dev The statutory period grows with the time already rented. The compliance parameters
+     *      the agreement was created under can lengthen it but never shorten it
+     * @param agreement The agreement being terminated
+     * @return Notice period in days
+     */
+    function _noticePeriodDays(Agreement storage agreement) private view returns (uint256) {
+        uint256 noticeDays = RentalUtils.calculateNoticePeriod(agreement.startDate, block.timestamp);
+        (IComplianceVerifier.ComplianceParameters memory parameters,) =
+            complianceVerifier.getParameters(agreement.parametersVersion);
+        return noticeDays > parameters.noticePeriodDays ? noticeDays : parameters.noticePeriodDays;
+    }
+
+    /**
+     * @notice Checks whether a property has a pending, active or disputed agreement
+     * @dev Pending offers count as open so the tenant cannot accept a lease
+     *      from an owner who has since sold or deactivated the property
+     * @param propertyId ID of the property
+     * @return Whether an open agreement exists
+     */
+    function _hasOpenAgreement(uint256 propertyId) private view returns (bool) {
+        uint256[] storage history = _properties[propertyId].agreementHistory;
+        for (uint256 i = 0; i < history.length; i++) {
+            AgreementStatus status = _agreements[history[i]].status;
+            if (
+                status == AgreementStatus.Pending ||
+                status == AgreementStatus.Active ||
+                status == AgreementStatus.Disputed
+            ) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @notice Checks whether an account holds an unexpired delegation from a landlord
+     * @dev Delegations granted by a previous owner, or held by an account that has since lost
+     *      its manager or broker role, are not honoured
+     * @param propertyId ID of the property
+     * @param landlord Owner the delegate acts for
+     * @param delegate Address to check
+     * @param permission Delegated permission
+     * @return Whether the delegation can be used
+     */
+    function _isDelegate(uint256 propertyId, address landlord, address delegate, bytes32 permission)
+        private
+        view
+        returns (bool)
+    {
+        Delegation storage delegation = _delegations[propertyId][delegate][permission];
+        return delegation.grantedBy == landlord &&
+            landlord == _properties[propertyId].owner &&
+            delegation.expiresAt > block.timestamp &&
+            _isManagerOrBroker(delegate);
+    }
+
+    /**
+     * @notice Checks whether an account holds the PROPERTY_MANAGER or BROKER role
+     * @param account Address to check
+     * @return Whether the account can receive property delegations
+     */
+    function _isManagerOrBroker(address account) private view returns (bool) {
+        return accessManager.hasRole(account, keccak256("PROPERTY_MANAGER")) ||
+            accessManager.hasRole(account, keccak256("BROKER"));
+    }
+
+    /**
+     * @notice Copies a slice of an ID list into memory
+     * @param ids Storage list to read from
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return page Entries from offset up to offset + limit
+     */
+    function _paginate(uint256[] storage ids, uint256 offset, uint256 limit)
+        private
+        view
+        returns (uint256[] memory page)
+    {
+        if (offset >= ids.length) {
+            return new uint256[](0);
+        }
+
+        uint256 end = ids.length - offset > limit ? offset + limit : ids.length;
+
+        page = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = ids[i];
+        }
+        return page;
+    }
+
+    /**
+     * @notice Checks whether a user holds the given role in an agreement
+     * @param agreementId ID of the agreement
+     * @param user Address of the user
+     * @param role Role filter (ROLE_LANDLORD or ROLE_TENANT)
+     * @return Whether the user matches the role
+     */
+    function _isAgreementRole(uint256 agreementId, address user, uint8 role) private view returns (bool) {
+        Agreement storage agreement = _agreements[agreementId];
+        return role == ROLE_LANDLORD ? agreement.landlord == user : agreement.tenant == user;
+    }
+
+    /**
+     * @notice Removes a property from a user's property list
+     * @param user Address of the user
+     * @param propertyId ID of the property to remove
+     */
+    function _removeUserProperty(address user, uint256 propertyId) private {
+        uint256[] storage properties = _userProperties[user];
+        for (uint256 i = 0; i < properties.length; i++) {
+            if (properties[i] == propertyId) {
+                properties[i] = properties[properties.length - 1];
+                properties.pop();
+                break;
+            }
+        }
+    }
+
+    /**
+     * @notice Computes the acceptance deadline for a new agreement offer
+     * @dev The offer never outlives the start of the rental period
+     * @param startDate Start date of the rental period
+     * @return Offer expiry timestamp
+     */
+    function _offerExpiry(uint256 startDate) private view returns (uint256) {
+        uint256 expiry = block.timestamp + OFFER_VALIDITY_PERIOD;
+        return expiry < startDate ? expiry : startDate;
+    }
+
+    /**
+     * @notice Validates agreement terms against the Polish-market rules in the given compliance parameters
+     * @dev Reverts with the RentalUtils reason code of the first failing check
+     * @param propertyId ID of the property being let
+     * @param startDate Start date of the rental period
+     * @param endDate End date of the rental period
+     * @param rentAmount Monthly rent amount
+     * @param depositAmount Security deposit amount
+     * @param parameters Compliance parameters to validate against
+     */
+    function _validateTerms(
+        uint256 propertyId,
+        uint256 startDate,
+        uint256 endDate,
+        uint256 rentAmount,
+        uint256 depositAmount,
+        IComplianceVerifier.ComplianceParameters memory parameters
+    ) private view {
+        (bool valid, uint8 reason) = RentalUtils.validateRentalPeriodWithin(
+            startDate,
+            endDate,
+            parameters.minRentalDays,
+            parameters.maxRentalDays
+        );
+        if (!valid) revert InvalidRentalPeriod(reason);
+
+        (valid, reason) = RentalUtils.validateRentAmountWithin(
+            rentAmount,
+            _properties[propertyId].floorArea,
+            parameters.minRentPerSqm
+        );
+        if (!valid) revert InvalidRentAmount(reason);
+
+        (valid, reason) = RentalUtils.validateDepositWithin(rentAmount, depositAmount, parameters.maxDepositMonths);
+        if (!valid) revert InvalidDeposit(reason);
+    }
+
+    /**
+     * @notice Validates amended rent and end date the same way as new agreement terms
+     * @dev Uses the compliance parameters the agreement was created under, so an amendment
+     *      cannot stretch the term or cut the rent past what those rules allow
+     * @param agreement The agreement being amended
+     * @param newRentAmount Amended monthly rent
+     * @param newEndDate Amended end date
+     */
+    function _validateAmendedTerms(
+        Agreement storage agreement,
+        uint256 newRentAmount,
+        uint256 newEndDate
+    ) private view {
+        (IComplianceVerifier.ComplianceParameters memory parameters,) =
+            complianceVerifier.getParameters(agreement.parametersVersion);
+        _validateTerms(
+            agreement.propertyId,
+            agreement.startDate,
+            newEndDate,
+            newRentAmount,
+            agreement.depositAmount,
+            parameters
+        );
+    }
+}
@@ -50,6 +50,26 @@ interface IAccessControlManager {
         bytes32 indexed permission
     );
 
+    /**
+     * @notice Emitted when a per-account permission grant or deny is removed
+     * @param account Address whose override was removed
+     * @param permission Permission that falls back to the account's roles
+     */
+    event PermissionOverrideCleared(
+        address indexed account,
+        bytes32 indexed permission
+    );
+
+    /**
+     * @notice Emitted when the permission set of a role is replaced
+     * @param role Role being configured
+     * @param permissions Permissions the role now grants
+     */
+    event RolePermissionsUpdated(
+        bytes32 indexed role,
+        bytes32[] permissions
+    );
+
     /**
      * @notice Assigns a role to an address
      * @param account Address to receive the role
@@ -67,7 +87,7 @@ interface IAccessControlManager {
     function revokeRole(address account, bytes32 role) external returns (bool success);
 
     /**
-     * @notice Grants a specific permission to an address
+     * @notice Grants a specific permission to an address, regardless of its roles
      * @param account Address to receive the permission
      * @param permission Permission to grant
      * @return success Whether the permission was granted successfully
@@ -75,13 +95,36 @@ interface IAccessControlManager {
     function grantPermission(address account, bytes32 permission) external returns (bool success);
 
     /**
-     * @notice Revokes a specific permission from an address
+     * @notice Denies a specific permission to an address, even if one of its roles grants it
      * @param account Address to revoke the permission from
      * @param permission Permission to revoke
      * @return success Whether the permission was revoked successfully
      */
     function revokePermission(address account, bytes32 permission) external returns (bool success);
 
+    /**
+     * @notice Removes a grant or deny so the permission follows the address's roles again
+     * @param account Address to clear the override for
+     * @param permission Permission to clear
+     * @return success Whether the override was cleared successfully
+     */
+    function clearPermissionOverride(address account, bytes32 permission) external returns (bool success);
+
+    /**
+     * @notice Replaces the permissions granted to every holder of a role
+     * @param role Role to configure
+     * @param permissions Permissions the role grants
+     * @return success Whether the permission set was updated successfully
+     */
+    function setRolePermissions(bytes32 role, bytes32[] calldata permissions) external returns (bool success);
+
+    /**
+     * @notice Gets the permissions granted by a role
+     * @param role Role to check
+     * @return permissions Array of permissions granted to holders of the role
+     */
+    function getRolePermissions(bytes32 role) external view returns (bytes32[] memory permissions);
+
     /**
      * @notice Checks if an address has a specific role
      * @param account Address to check
@@ -91,24 +134,31 @@ interface IAccessControlManager {
     function hasRole(address account, bytes32 role) external view returns (bool hasRole);
 
     /**
-     * @notice Checks if an address has a specific permission
+     * @notice Checks if an address has a specific permission, through its roles or an explicit grant
      * @param account Address to check
      * @param permission Permission to verify
      * @return hasPermission Whether the address has the permission
      */
     function hasPermission(address account, bytes32 permission) external view returns (bool hasPermission);
 
+    /**
+     * @notice Gets every account holding a role
+     * @param role Role to enumerate
+     * @return members Array of role members, in no particular order
+     */
+    function getRoleMembers(bytes32 role) external view returns (address[] memory members);
+
     /**
      * @notice Gets all roles assigned to an address
      * @param account Address to check
-     * @return roles Array of roles assigned to the address
+     * @return roles Array of roles assigned to the address, without duplicates
      */
     function getRoles(address account) external view returns (bytes32[] memory roles);
 
     /**
      * @notice Gets all permissions granted to an address
      * @param account Address to check
-     * @return permissions Array of permissions granted to the address
+     * @return permissions Array of permissions the address currently holds, without duplicates
      */
     function getPermissions(address account) external view returns (bytes32[] memory permissions);
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IComplianceOracle
+ * @notice Interface for external data sources consulted during compliance checks,
+ *         such as the land registry (księga wieczysta), safety certificates or identity providers
+ */
+interface IComplianceOracle {
+    /**
+     * @notice Gets the latest compliance data the oracle holds for an entity
+     * @param entityId ID of the entity (property ID, or the address as uint256 for parties)
+     * @param entityType Type of entity (2: Property, 3: Landlord, 4: Tenant)
+     * @return compliant Whether the entity meets the oracle's requirements
+     * @return updatedAt Time the oracle data was last updated
+     * @return dataHash Hash of the underlying off-chain record
+     */
+    function getComplianceData(uint256 entityId, uint8 entityType) external view returns (
+        bool compliant,
+        uint256 updatedAt,
+        bytes32 dataHash
+    );
+}
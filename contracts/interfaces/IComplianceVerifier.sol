@@ -6,6 +6,22 @@ pragma solidity ^0.8.19;
  * @notice Interface for verifying compliance with Polish real estate laws and regulations
  */
 interface IComplianceVerifier {
+    /**
+     * @notice Statutory rules agreements are validated against
+     * @param maxDepositMonths Maximum security deposit in months of rent
+     * @param minRentalDays Minimum rental duration in days
+     * @param maxRentalDays Maximum rental duration in days
+     * @param noticePeriodDays Notice period for termination in days
+     * @param minRentPerSqm Minimum monthly rent per square meter of floor area (0 for no minimum)
+     */
+    struct ComplianceParameters {
+        uint256 maxDepositMonths;
+        uint256 minRentalDays;
+        uint256 maxRentalDays;
+        uint256 noticePeriodDays;
+        uint256 minRentPerSqm;
+    }
+
     /**
      * @notice Emitted when a compliance check is completed
      * @param entityId ID of the entity checked (agreement or property)
@@ -21,19 +37,53 @@ interface IComplianceVerifier {
     );
 
     /**
-     * @notice Emitted when compliance parameters are updated
-     * @param parametersHash Hash of the new compliance parameters
-     * @param timestamp Time of update
+     * @notice Emitted when a new version of the compliance parameters is published
+     * @param version Version number of the new parameters
+     * @param parameters The new compliance parameters
+     * @param effectiveFrom Time from which the new parameters apply
+     */
+    event ComplianceParametersUpdated(uint256 indexed version, ComplianceParameters parameters, uint256 effectiveFrom);
+
+    /**
+     * @notice Emitted when an authorized verifier's attestation is recorded
+     * @param entityId ID of the entity attested
+     * @param entityType Type of entity (1: Agreement, 2: Property, 3: Landlord, 4: Tenant)
+     * @param verifier Verifier that made the attestation
+     * @param passed Whether the entity passed the verifier's check
+     * @param detailsHash Hash of the verifier's off-chain report
+     * @param expiresAt Time the attestation stops counting
      */
-    event ComplianceParametersUpdated(bytes32 parametersHash, uint256 timestamp);
+    event AttestationSubmitted(
+        uint256 indexed entityId,
+        uint8 indexed entityType,
+        address indexed verifier,
+        bool passed,
+        bytes32 detailsHash,
+        uint256 expiresAt
+    );
 
     /**
      * @notice Verifies compliance of a rental agreement
+     * @dev Checks the agreement's property, landlord and tenant together with its latest attestation.
+     *      The attestation no longer counts once its verifier's authorization is revoked.
+     *      Like every verify function, only callable by RentalCore or holders of VERIFY_COMPLIANCE,
+     *      since each check is appended to the compliance history
      * @param agreementId ID of the agreement to verify
      * @return passed Whether the agreement is compliant
      * @return detailsHash Hash of the compliance details
      */
-    function verifyContractCompliance(uint256 agreementId) external returns (
+    function verifyAgreementCompliance(uint256 agreementId) external returns (
+        bool passed,
+        bytes32 detailsHash
+    );
+
+    /**
+     * @notice Verifies compliance of a registered property
+     * @param propertyId ID of the property to verify
+     * @return passed Whether the property is compliant
+     * @return detailsHash Hash of the compliance details
+     */
+    function verifyPropertyCompliance(uint256 propertyId) external returns (
         bool passed,
         bytes32 detailsHash
     );
@@ -61,24 +111,130 @@ interface IComplianceVerifier {
     );
 
     /**
-     * @notice Updates compliance verification parameters
-     * @param parametersHash Hash of the new parameters
-     * @return success Whether the parameters were updated successfully
+     * @notice Records an attestation from the calling authorized verifier
+     * @param entityId ID of the entity attested
+     * @param entityType Type of entity (1: Agreement, 2: Property, 3: Landlord, 4: Tenant)
+     * @param passed Whether the entity passed the verifier's check
+     * @param detailsHash Hash of the verifier's off-chain report
+     * @param issuedAt Time the check was performed
+     * @param expiresAt Time the attestation stops counting
      */
-    function updateComplianceParameters(bytes32 parametersHash) external returns (bool success);
+    function submitAttestation(
+        uint256 entityId,
+        uint8 entityType,
+        bool passed,
+        bytes32 detailsHash,
+        uint256 issuedAt,
+        uint256 expiresAt
+    ) external;
+
+    /**
+     * @notice Records an attestation signed off-chain by an authorized verifier
+     * @dev Callable by anyone. The signature covers the EIP-712 `Attestation` struct
+     * @param entityId ID of the entity attested
+     * @param entityType Type of entity (1: Agreement, 2: Property, 3: Landlord, 4: Tenant)
+     * @param passed Whether the entity passed the verifier's check
+     * @param detailsHash Hash of the verifier's off-chain report
+     * @param issuedAt Time the check was performed
+     * @param expiresAt Time the attestation stops counting
+     * @param signature Verifier's EIP-712 signature
+     */
+    function relayAttestation(
+        uint256 entityId,
+        uint8 entityType,
+        bool passed,
+        bytes32 detailsHash,
+        uint256 issuedAt,
+        uint256 expiresAt,
+        bytes calldata signature
+    ) external;
+
+    /**
+     * @notice Gets the latest attestation for an entity
+     * @param entityId ID of the entity
+     * @param entityType Type of entity (1: Agreement, 2: Property, 3: Landlord, 4: Tenant)
+     * @return passed Whether the entity passed the verifier's check
+     * @return detailsHash Hash of the verifier's off-chain report
+     * @return issuedAt Time the check was performed
+     * @return expiresAt Time the attestation stops counting
+     * @return verifier Verifier that made the attestation
+     */
+    function getAttestation(uint256 entityId, uint8 entityType) external view returns (
+        bool passed,
+        bytes32 detailsHash,
+        uint256 issuedAt,
+        uint256 expiresAt,
+        address verifier
+    );
+
+    /**
+     * @notice Publishes a new version of the compliance parameters
+     * @dev Earlier versions stay readable so agreements can be audited against the rules they were created under
+     * @param parameters The new compliance parameters
+     * @param effectiveFrom Time from which the parameters apply (0 for immediately)
+     * @return version Version number assigned to the parameters
+     */
+    function updateComplianceParameters(
+        ComplianceParameters calldata parameters,
+        uint256 effectiveFrom
+    ) external returns (uint256 version);
 
     /**
      * @notice Gets the current compliance status for an entity
+     * @dev An expired check never reports the entity as compliant
      * @param entityId ID of the entity
      * @param entityType Type of entity (1: Agreement, 2: Property, 3: Landlord, 4: Tenant)
      * @return passed Whether the entity is currently compliant
      * @return lastCheckTime Timestamp of the last compliance check
      * @return detailsHash Hash of the latest compliance details
+     * @return expired Whether the last check is older than the entity type's validity period
      */
     function getComplianceStatus(uint256 entityId, uint8 entityType) external view returns (
         bool passed,
         uint256 lastCheckTime,
-        bytes32 detailsHash
+        bytes32 detailsHash,
+        bool expired
+    );
+
+    /**
+     * @notice Lists the compliance checks performed on an entity
+     * @dev Includes oracle checks and verifier attestations
+     * @param entityId ID of the entity
+     * @param entityType Type of entity (1: Agreement, 2: Property, 3: Landlord, 4: Tenant)
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return passed Result of each check
+     * @return timestamps Time of each check
+     * @return detailsHashes Details hash of each check
+     * @return verifiers Verifier behind each check (zero for oracle checks)
+     * @return total Total number of checks on the entity
+     */
+    function getComplianceHistory(uint256 entityId, uint8 entityType, uint256 offset, uint256 limit) external view returns (
+        bool[] memory passed,
+        uint256[] memory timestamps,
+        bytes32[] memory detailsHashes,
+        address[] memory verifiers,
+        uint256 total
+    );
+
+    /**
+     * @notice Lists the checks recorded for a verifier
+     * @dev Includes the verifier's attestations and the agreement checks that relied on them
+     * @param verifier Verifier behind the checks
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return entityIds Entity of each check
+     * @return entityTypes Entity type of each check
+     * @return passed Result of each check
+     * @return timestamps Time of each check
+     * @return total Total number of checks recorded for the verifier
+     */
+    function getVerifierChecks(address verifier, uint256 offset, uint256 limit) external view returns (
+        uint256[] memory entityIds,
+        uint8[] memory entityTypes,
+        bool[] memory passed,
+        uint256[] memory timestamps,
+        uint256 total
     );
 
     /**
@@ -89,12 +245,29 @@ interface IComplianceVerifier {
     function isAuthorizedVerifier(address verifier) external view returns (bool isAuthorized);
 
     /**
-     * @notice Gets the current compliance parameters
-     * @return parametersHash Hash of current compliance parameters
-     * @return lastUpdateTime Time of last parameters update
+     * @notice Gets the compliance parameters currently in effect
+     * @return version Version number of the parameters in effect (0 if none)
+     * @return parameters The compliance parameters in effect
      */
     function getCurrentParameters() external view returns (
-        bytes32 parametersHash,
-        uint256 lastUpdateTime
+        uint256 version,
+        ComplianceParameters memory parameters
     );
+
+    /**
+     * @notice Gets a specific version of the compliance parameters
+     * @param version Version number to look up
+     * @return parameters The compliance parameters of the version
+     * @return effectiveFrom Time from which the version applies
+     */
+    function getParameters(uint256 version) external view returns (
+        ComplianceParameters memory parameters,
+        uint256 effectiveFrom
+    );
+
+    /**
+     * @notice Gets the number of published compliance parameter versions
+     * @return count Number of versions, including ones not yet in effect
+     */
+    function getParametersVersionCount() external view returns (uint256 count);
 }
\ No newline at end of file
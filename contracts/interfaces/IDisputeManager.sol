@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IDisputeManager
+ * @notice Interface for opening, evidencing and resolving rental agreement disputes
+ */
+interface IDisputeManager {
+    /**
+     * @notice Emitted when a dispute is opened
+     * @param disputeId Unique identifier of the dispute
+     * @param agreementId ID of the disputed agreement
+     * @param openedBy Agreement party that opened the dispute
+     * @param disputeHash Hash of the dispute record at opening
+     */
+    event DisputeOpened(
+        uint256 indexed disputeId,
+        uint256 indexed agreementId,
+        address indexed openedBy,
+        bytes32 disputeHash
+    );
+
+    /**
+     * @notice Emitted when evidence is added to a dispute
+     * @param disputeId ID of the dispute
+     * @param submittedBy Agreement party that submitted the evidence
+     * @param evidenceHash Hash of the evidence document
+     */
+    event EvidenceSubmitted(
+        uint256 indexed disputeId,
+        address indexed submittedBy,
+        bytes32 evidenceHash
+    );
+
+    /**
+     * @notice Emitted when an arbitrator rules on a dispute
+     * @param disputeId ID of the dispute
+     * @param arbitrator Legal verifier that issued the ruling
+     * @param landlordAward Deposit amount awarded to the landlord
+     * @param tenantAward Deposit amount returned to the tenant
+     * @param terminated Whether the agreement was terminated by the ruling
+     * @param rulingHash Hash of the ruling document
+     */
+    event DisputeResolved(
+        uint256 indexed disputeId,
+        address indexed arbitrator,
+        uint256 landlordAward,
+        uint256 tenantAward,
+        bool terminated,
+        bytes32 rulingHash
+    );
+
+    /**
+     * @notice Opens a dispute on an active agreement
+     * @param agreementId ID of the agreement
+     * @param disputeType Type of dispute
+     * @param evidenceHash Hash of the initial evidence document
+     * @return disputeId Unique identifier of the dispute
+     */
+    function openDispute(
+        uint256 agreementId,
+        uint8 disputeType,
+        bytes32 evidenceHash
+    ) external returns (uint256 disputeId);
+
+    /**
+     * @notice Adds evidence to an open dispute
+     * @param disputeId ID of the dispute
+     * @param evidenceHash Hash of the evidence document
+     */
+    function submitEvidence(uint256 disputeId, bytes32 evidenceHash) external;
+
+    /**
+     * @notice Resolves a dispute, splitting the escrowed deposit between the parties
+     * @dev Only a dispute ruling clears the Disputed status, so this contract must be the
+     *      DisputeManager registered in RentalCore
+     * @param disputeId ID of the dispute
+     * @param landlordAward Deposit amount awarded to the landlord
+     * @param tenantAward Deposit amount returned to the tenant
+     * @param terminate Whether the agreement is terminated (otherwise it returns to Active)
+     * @param rulingHash Hash of the ruling document
+     */
+    function resolveDispute(
+        uint256 disputeId,
+        uint256 landlordAward,
+        uint256 tenantAward,
+        bool terminate,
+        bytes32 rulingHash
+    ) external;
+
+    /**
+     * @notice Retrieves dispute details
+     * @param disputeId ID of the dispute
+     * @return agreementId ID of the disputed agreement
+     * @return openedBy Party that opened the dispute
+     * @return disputeType Type of dispute
+     * @return openedAt Time the dispute was opened
+     * @return resolved Whether the dispute has been resolved
+     * @return rulingHash Hash of the ruling document (zero while open)
+     */
+    function getDispute(uint256 disputeId) external view returns (
+        uint256 agreementId,
+        address openedBy,
+        uint8 disputeType,
+        uint256 openedAt,
+        bool resolved,
+        bytes32 rulingHash
+    );
+
+    /**
+     * @notice Retrieves the evidence submitted for a dispute
+     * @param disputeId ID of the dispute
+     * @return submitters Addresses that submitted each evidence entry
+     * @return evidenceHashes Hashes of the evidence documents
+     * @return timestamps Submission times
+     */
+    function getEvidence(uint256 disputeId) external view returns (
+        address[] memory submitters,
+        bytes32[] memory evidenceHashes,
+        uint256[] memory timestamps
+    );
+
+    /**
+     * @notice Gets the open dispute of an agreement
+     * @param agreementId ID of the agreement
+     * @return disputeId ID of the open dispute (0 if none)
+     */
+    function getOpenDispute(uint256 agreementId) external view returns (uint256 disputeId);
+}
@@ -44,6 +44,128 @@ interface IPaymentManager {
         address indexed recipient
     );
 
+    /**
+     * @notice Emitted when the landlord files deposit deductions after an inspection
+     * @param agreementId ID of the rental agreement
+     * @param amount Amount the landlord claims from the deposit
+     * @param inspectionHash Hash of the inspection report
+     */
+    event DepositDeductionsFiled(uint256 indexed agreementId, uint256 amount, bytes32 inspectionHash);
+
+    /**
+     * @notice Emitted when the tenant challenges deposit deductions
+     * @param agreementId ID of the rental agreement
+     * @param evidenceHash Hash of the tenant's evidence
+     */
+    event DepositDeductionsChallenged(uint256 indexed agreementId, bytes32 evidenceHash);
+
+    /**
+     * @notice Emitted when a legal verifier resolves a challenge to deposit deductions
+     * @param agreementId ID of the rental agreement
+     * @param approvedAmount Deduction amount upheld
+     * @param resolvedBy Address of the legal verifier
+     */
+    event DepositChallengeResolved(uint256 indexed agreementId, uint256 approvedAmount, address indexed resolvedBy);
+
+    /**
+     * @notice Emitted when the tenant asks for the deposit back after the agreement ends
+     * @param agreementId ID of the rental agreement
+     * @param requestedAt Time of the request
+     */
+    event DepositReleaseRequested(uint256 indexed agreementId, uint256 requestedAt);
+
+    /**
+     * @notice Emitted when an escrowed deposit is paid out
+     * @param agreementId ID of the rental agreement
+     * @param landlordAmount Deductions paid to the landlord
+     * @param tenantAmount Remainder returned to the tenant
+     */
+    event DepositSettled(uint256 indexed agreementId, uint256 landlordAmount, uint256 tenantAmount);
+
+    /**
+     * @notice Emitted when a tenant authorizes autopay on an agreement
+     * @param agreementId ID of the rental agreement
+     * @param cap Maximum amount collected per installment
+     */
+    event AutopayEnabled(uint256 indexed agreementId, uint256 cap);
+
+    /**
+     * @notice Emitted when a tenant prefunds ETH for autopay
+     * @param agreementId ID of the rental agreement
+     * @param amount Amount added
+     * @param balance New prefunded balance
+     */
+    event AutopayFunded(uint256 indexed agreementId, uint256 amount, uint256 balance);
+
+    /**
+     * @notice Emitted when a tenant revokes autopay
+     * @param agreementId ID of the rental agreement
+     * @param refunded Prefunded ETH returned to the tenant
+     */
+    event AutopayRevoked(uint256 indexed agreementId, uint256 refunded);
+
+    /**
+     * @notice Emitted when a keeper collects due rent through autopay
+     * @param agreementId ID of the rental agreement
+     * @param keeper Address that triggered the collection
+     * @param amount Amount collected from the tenant
+     */
+    event AutopayCollected(uint256 indexed agreementId, address indexed keeper, uint256 amount);
+
+    /**
+     * @notice Emitted when an early termination penalty is charged to the terminating party
+     * @param agreementId ID of the rental agreement
+     * @param payer Party that gave notice
+     * @param amount Total penalty charged
+     * @param covered Part of the penalty taken from the tenant's escrowed deposit
+     */
+    event TerminationPenaltyCharged(uint256 indexed agreementId, address indexed payer, uint256 amount, uint256 covered);
+
+    /**
+     * @notice Emitted when the outstanding part of a termination penalty is paid
+     * @param agreementId ID of the rental agreement
+     * @param paidBy Address that paid
+     * @param amount Amount paid
+     */
+    event TerminationPenaltyPaid(uint256 indexed agreementId, address indexed paidBy, uint256 amount);
+
+    /**
+     * @notice Emitted when rent or late fees are credited to an account
+     * @param agreementId ID of the rental agreement
+     * @param account Landlord, broker or platform address
+     * @param token ERC-20 token of the earnings (zero for ETH)
+     * @param amount Amount credited
+     */
+    event EarningsAccrued(
+        uint256 indexed agreementId,
+        address indexed account,
+        address indexed token,
+        uint256 amount
+    );
+
+    /**
+     * @notice Emitted when earnings leave the contract, by withdrawal or auto-forward
+     * @param account Address receiving the earnings
+     * @param token ERC-20 token of the earnings (zero for ETH)
+     * @param amount Amount paid out
+     */
+    event EarningsWithdrawn(address indexed account, address indexed token, uint256 amount);
+
+    /**
+     * @notice Emitted when the landlord toggles auto-forwarding of earnings
+     * @param agreementId ID of the rental agreement
+     * @param enabled Whether earnings are forwarded immediately
+     */
+    event AutoForwardSet(uint256 indexed agreementId, bool enabled);
+
+    /**
+     * @notice Emitted when a broker fee is attached to an agreement
+     * @param agreementId ID of the rental agreement
+     * @param broker Address of the broker (zero for none)
+     * @param feeBps Broker fee in basis points of each rent payment
+     */
+    event AgreementBrokerSet(uint256 indexed agreementId, address indexed broker, uint256 feeBps);
+
     /**
      * @notice Emitted when late fees are charged
      * @param agreementId ID of the rental agreement
@@ -51,8 +173,64 @@ interface IPaymentManager {
      */
     event LateFeeCharged(uint256 indexed agreementId, uint256 amount);
 
+    /**
+     * @notice Emitted when charged late fees are paid
+     * @param agreementId ID of the rental agreement
+     * @param amount Late fee amount paid
+     * @param paidBy Address that paid the late fees
+     */
+    event LateFeesPaid(uint256 indexed agreementId, uint256 amount, address indexed paidBy);
+
+    /**
+     * @notice Emitted when the payment token of an agreement is set
+     * @param agreementId ID of the rental agreement
+     * @param token ERC-20 token used for payments (zero for ETH)
+     */
+    event PaymentTokenSet(uint256 indexed agreementId, address indexed token);
+
+    /**
+     * @notice Emitted when the rent due day of an agreement is set
+     * @param agreementId ID of the rental agreement
+     * @param dueDay Day of month rent falls due (zero to anchor to the start date)
+     */
+    event DueDaySet(uint256 indexed agreementId, uint8 dueDay);
+
+    /**
+     * @notice Emitted when the prepaid credit of an agreement changes
+     * @param agreementId ID of the rental agreement
+     * @param newCredit Prepaid credit available for future rent
+     */
+    event CreditUpdated(uint256 indexed agreementId, uint256 newCredit);
+
+    /**
+     * @notice Emitted when an overpayment is sent back to the payer
+     * @param agreementId ID of the rental agreement
+     * @param recipient Address receiving the refund
+     * @param amount Refunded amount
+     */
+    event OverpaymentRefunded(uint256 indexed agreementId, address indexed recipient, uint256 amount);
+
+    /**
+     * @notice Emitted when the tenant takes back leftover credit after the agreement ended
+     * @param agreementId ID of the rental agreement
+     * @param tenant Tenant receiving the credit
+     * @param amount Amount withdrawn
+     */
+    event CreditWithdrawn(uint256 indexed agreementId, address indexed tenant, uint256 amount);
+
+    /**
+     * @notice Emitted when the tenant chooses between refunds and credit for overpayments
+     * @param agreementId ID of the rental agreement
+     * @param refund Whether overpayments are refunded instead of credited
+     */
+    event OverpaymentRefundSet(uint256 indexed agreementId, bool refund);
+
     /**
      * @notice Processes a rent payment for an agreement
+     * @dev Pays the next unpaid installment of the billing schedule. Prepaid credit is
+     *      drawn first. For token agreements the remainder is pulled
+     *      from the caller's allowance; excess ETH is refunded or credited. Arrears left
+     *      when the term ends can still be paid after the agreement has expired
      * @param agreementId ID of the agreement
      * @return success Whether the payment was processed successfully
      */
@@ -60,13 +238,18 @@ interface IPaymentManager {
 
     /**
      * @notice Processes a security deposit for an agreement
+     * @dev The deposit is paid once, as a single payment of exactly the agreement's deposit
+     *      amount, and may not exceed RentalUtils.MAX_DEPOSIT_MONTHS of rent. For token
+     *      agreements the deposit amount is pulled from the caller's allowance
      * @param agreementId ID of the agreement
      * @return success Whether the deposit was processed successfully
      */
     function processDeposit(uint256 agreementId) external payable returns (bool success);
 
     /**
-     * @notice Releases a deposit to the specified recipient
+     * @notice Releases part of a deposit to a party of a disputed agreement
+     * @dev Only callable by the registered DisputeManager to execute arbitration rulings;
+     *      deposits are otherwise locked until settlement
      * @param agreementId ID of the agreement
      * @param amount Amount to release
      * @param recipient Address to receive the deposit
@@ -84,18 +267,20 @@ interface IPaymentManager {
      * @return timestamps Array of payment timestamps
      * @return amounts Array of payment amounts
      * @return types Array of payment types (1: Rent, 2: Deposit, 3: Late Fee)
+     * @return tokens Array of payment tokens (zero for ETH)
      */
     function getPaymentHistory(uint256 agreementId) external view returns (
         uint256[] memory timestamps,
         uint256[] memory amounts,
-        uint8[] memory types
+        uint8[] memory types,
+        address[] memory tokens
     );
 
     /**
      * @notice Calculates outstanding rent for an agreement
      * @param agreementId ID of the agreement
-     * @return amount Outstanding rent amount
-     * @return lateFees Accumulated late fees
+     * @return amount Rent installments fallen due and not yet paid
+     * @return lateFees Charged unpaid late fees plus interest accrued on overdue installments
      */
     function calculateOutstandingRent(uint256 agreementId) external view returns (
         uint256 amount,
@@ -104,15 +289,280 @@ interface IPaymentManager {
 
     /**
      * @notice Handles late fees for overdue payments
+     * @dev Charges statutory interest on each overdue installment past the grace period.
+     *      Interest keeps accruing until the installment is paid; each call charges what has
+     *      accrued since the previous assessment. Installments fully covered by prepaid credit
+     *      count as paid on their due date and are never charged
      * @param agreementId ID of the agreement
-     * @return feeAmount Amount of late fees charged
+     * @return feeAmount Amount of late fees newly charged
      */
     function handleLateFees(uint256 agreementId) external returns (uint256 feeAmount);
 
+    /**
+     * @notice Pays the late fees charged on an agreement
+     * @dev For token agreements the fee amount is pulled from the caller's allowance;
+     *      excess ETH is refunded or credited
+     * @param agreementId ID of the agreement
+     * @return amount Late fee amount paid
+     */
+    function payLateFees(uint256 agreementId) external payable returns (uint256 amount);
+
     /**
      * @notice Gets the current deposit balance for an agreement
      * @param agreementId ID of the agreement
      * @return amount Current deposit balance
      */
     function getDepositBalance(uint256 agreementId) external view returns (uint256 amount);
-}
\ No newline at end of file
+
+    /**
+     * @notice Sets the token an agreement settles in
+     * @dev Only callable by the landlord or a PROCESS_PAYMENT delegate while the agreement is pending
+     * @param agreementId ID of the agreement
+     * @param token Supported ERC-20 token, or zero for ETH
+     */
+    function setPaymentToken(uint256 agreementId, address token) external;
+
+    /**
+     * @notice Gets the token an agreement settles in
+     * @param agreementId ID of the agreement
+     * @return token ERC-20 token used for payments (zero for ETH)
+     */
+    function getPaymentToken(uint256 agreementId) external view returns (address token);
+
+    /**
+     * @notice Adds prepaid credit that later rent payments draw from
+     * @dev For ETH agreements msg.value must equal the amount. Credit cannot exceed the rent
+     *      still to be paid over the rest of the term and cannot be added while an
+     *      installment is past its grace period
+     * @param agreementId ID of the agreement
+     * @param amount Amount to prepay
+     * @return newCredit Prepaid credit after the top-up
+     */
+    function prepayRent(uint256 agreementId, uint256 amount) external payable returns (uint256 newCredit);
+
+    /**
+     * @notice Chooses whether overpayments are refunded instead of credited
+     * @dev Only callable by the tenant of the agreement
+     * @param agreementId ID of the agreement
+     * @param refund True to refund overpayments, false to credit them
+     */
+    function setOverpaymentRefund(uint256 agreementId, bool refund) external;
+
+    /**
+     * @notice Returns the prepaid credit left once the agreement has ended
+     * @dev Only callable by the tenant of a terminated or expired agreement
+     * @param agreementId ID of the agreement
+     * @return amount Credit sent to the tenant
+     */
+    function withdrawCredit(uint256 agreementId) external returns (uint256 amount);
+
+    /**
+     * @notice Gets the prepaid credit and the outstanding rent not covered by it
+     * @param agreementId ID of the agreement
+     * @return credit Prepaid credit available for future rent
+     * @return outstanding Outstanding rent after applying the credit
+     */
+    function getBalanceSummary(uint256 agreementId) external view returns (
+        uint256 credit,
+        uint256 outstanding
+    );
+
+    /**
+     * @notice Sets the day of month rent falls due
+     * @dev Only callable by the landlord or a PROCESS_PAYMENT delegate while the agreement is pending.
+     *      With a due day the first and last months are pro-rated; zero bills full months from the start date
+     * @param agreementId ID of the agreement
+     * @param dueDay Day of month (1-28), or zero to anchor to the start date
+     */
+    function setDueDay(uint256 agreementId, uint8 dueDay) external;
+
+    /**
+     * @notice Gets the day of month rent falls due
+     * @param agreementId ID of the agreement
+     * @return dueDay Day of month (zero when anchored to the start date)
+     */
+    function getDueDay(uint256 agreementId) external view returns (uint8 dueDay);
+
+    /**
+     * @notice Gets the next unpaid rent installments
+     * @param agreementId ID of the agreement
+     * @param count Maximum number of installments to return
+     * @return dueDates Due dates of the installments
+     * @return amounts Rent due for each installment
+     */
+    function getUpcomingDueDates(uint256 agreementId, uint256 count) external view returns (
+        uint256[] memory dueDates,
+        uint256[] memory amounts
+    );
+
+    /**
+     * @notice Files deductions from the deposit after the agreement has ended
+     * @dev Only callable by the landlord or a PROCESS_PAYMENT delegate, once, and within the filing
+     *      period after the tenant requests the deposit back
+     * @param agreementId ID of the agreement
+     * @param amount Amount to deduct from the deposit
+     * @param inspectionHash Inspection report hash from DocumentUtils.generateInspectionHash
+     */
+    function fileDepositDeductions(uint256 agreementId, uint256 amount, bytes32 inspectionHash) external;
+
+    /**
+     * @notice Challenges the filed deposit deductions
+     * @dev Only callable by the tenant within the challenge period
+     * @param agreementId ID of the agreement
+     * @param evidenceHash Hash of the tenant's evidence
+     */
+    function challengeDepositDeductions(uint256 agreementId, bytes32 evidenceHash) external;
+
+    /**
+     * @notice Resolves a challenge and settles the deposit
+     * @dev Only callable by a legal verifier
+     * @param agreementId ID of the agreement
+     * @param approvedAmount Deduction amount upheld, at most the filed amount
+     */
+    function resolveDepositChallenge(uint256 agreementId, uint256 approvedAmount) external;
+
+    /**
+     * @notice Asks for the deposit back after the agreement has ended
+     * @dev Only callable by the tenant; starts the landlord's filing period
+     * @param agreementId ID of the agreement
+     */
+    function requestDepositRelease(uint256 agreementId) external;
+
+    /**
+     * @notice Pays out the deposit once no deductions can be filed or challenged any more
+     * @dev Callable by anyone. Deductions go to the landlord and the remainder to the tenant
+     * @param agreementId ID of the agreement
+     */
+    function settleDeposit(uint256 agreementId) external;
+
+    /**
+     * @notice Gets the end-of-lease deposit claim of an agreement
+     * @param agreementId ID of the agreement
+     * @return deductionAmount Deductions filed by the landlord
+     * @return inspectionHash Hash of the inspection report
+     * @return filedAt Time the deductions were filed (0 if none)
+     * @return challenged Whether the tenant has an open challenge
+     * @return releaseRequestedAt Time the tenant requested the deposit (0 if not yet)
+     * @return settled Whether the deposit has been paid out
+     */
+    function getDepositClaim(uint256 agreementId) external view returns (
+        uint256 deductionAmount,
+        bytes32 inspectionHash,
+        uint256 filedAt,
+        bool challenged,
+        uint256 releaseRequestedAt,
+        bool settled
+    );
+
+    /**
+     * @notice Withdraws the caller's earnings in a token
+     * @param token ERC-20 token to withdraw (zero for ETH)
+     * @return amount Amount withdrawn
+     */
+    function withdrawEarnings(address token) external returns (uint256 amount);
+
+    /**
+     * @notice Gets the withdrawable earnings of an account
+     * @param account Landlord, broker or platform address
+     * @param token ERC-20 token (zero for ETH)
+     * @return amount Withdrawable earnings
+     */
+    function getEarnings(address account, address token) external view returns (uint256 amount);
+
+    /**
+     * @notice Forwards the landlord's share of each payment immediately instead of crediting it
+     * @dev Only callable by the landlord or a PROCESS_PAYMENT delegate
+     * @param agreementId ID of the agreement
+     * @param enabled Whether to forward earnings
+     */
+    function setAutoForward(uint256 agreementId, bool enabled) external;
+
+    /**
+     * @notice Attaches a broker fee to an agreement
+     * @dev Only callable by the landlord or a PROCESS_PAYMENT delegate while the agreement is
+     *      pending. The broker must hold the BROKER role
+     * @param agreementId ID of the agreement
+     * @param broker Address of the broker (zero to remove)
+     * @param feeBps Broker fee in basis points of each rent payment
+     */
+    function setAgreementBroker(uint256 agreementId, address broker, uint256 feeBps) external;
+
+    /**
+     * @notice Gets the broker fee of an agreement
+     * @param agreementId ID of the agreement
+     * @return broker Address of the broker (zero for none)
+     * @return feeBps Broker fee in basis points
+     */
+    function getAgreementBroker(uint256 agreementId) external view returns (address broker, uint256 feeBps);
+
+    /**
+     * @notice Authorizes keepers to collect rent on the tenant's behalf
+     * @dev Only callable by the tenant. Token agreements also need an ERC-20 allowance for this contract
+     * @param agreementId ID of the agreement
+     * @param cap Maximum amount collected per installment
+     */
+    function enableAutopay(uint256 agreementId, uint256 cap) external;
+
+    /**
+     * @notice Prefunds ETH that autopay collects rent from
+     * @dev Only callable by the tenant of an ETH agreement
+     * @param agreementId ID of the agreement
+     * @return balance New prefunded balance
+     */
+    function fundAutopay(uint256 agreementId) external payable returns (uint256 balance);
+
+    /**
+     * @notice Revokes autopay and returns any prefunded ETH
+     * @dev Only callable by the tenant
+     * @param agreementId ID of the agreement
+     */
+    function revokeAutopay(uint256 agreementId) external;
+
+    /**
+     * @notice Collects the next installment through autopay once it is due
+     * @dev Callable by anyone. Credit is drawn first and the rest is pulled from the
+     *      prefunded balance or the tenant's allowance, up to the tenant's cap
+     * @param agreementId ID of the agreement
+     * @return amount Amount collected from the tenant
+     */
+    function collectDueRent(uint256 agreementId) external returns (uint256 amount);
+
+    /**
+     * @notice Gets the autopay authorization of an agreement
+     * @param agreementId ID of the agreement
+     * @return enabled Whether autopay is enabled
+     * @return cap Maximum amount collected per installment
+     * @return balance Prefunded ETH balance
+     */
+    function getAutopay(uint256 agreementId) external view returns (bool enabled, uint256 cap, uint256 balance);
+
+    /**
+     * @notice Charges an early termination penalty to the party that gave notice
+     * @dev Only callable by RentalCore when a notice period ends. A tenant's penalty is taken from the
+     *      agreement's escrowed deposit first; the rest, and all of a landlord's penalty, stays outstanding
+     * @param agreementId ID of the agreement
+     * @param payer Party that gave notice
+     * @param amount Penalty amount
+     */
+    function chargeTerminationPenalty(uint256 agreementId, address payer, uint256 amount) external;
+
+    /**
+     * @notice Pays the outstanding part of a termination penalty to the other party
+     * @param agreementId ID of the agreement
+     * @return amount Amount paid
+     */
+    function payTerminationPenalty(uint256 agreementId) external payable returns (uint256 amount);
+
+    /**
+     * @notice Gets the termination penalty charged on an agreement
+     * @param agreementId ID of the agreement
+     * @return payer Party charged with the penalty
+     * @return amount Total penalty charged
+     * @return outstanding Part of the penalty still to be paid
+     */
+    function getTerminationPenalty(uint256 agreementId) external view returns (
+        address payer,
+        uint256 amount,
+        uint256 outstanding
+    );
+}
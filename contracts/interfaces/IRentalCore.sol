@@ -37,13 +37,89 @@ interface IRentalCore {
 
     /**
      * @notice Registers a new property in the system
+     * @dev Breaking ABI change: this replaces registerProperty(bytes32). The selector changed, so
+     *      clients and scripts built against the old interface must be updated to pass the floor area
      * @param dataHash Hash of the property details stored off-chain
+     * @param floorArea Usable floor area in square meters
      * @return propertyId Unique identifier of the registered property
      */
-    function registerProperty(bytes32 dataHash) external returns (uint256 propertyId);
+    function registerProperty(bytes32 dataHash, uint256 floorArea) external returns (uint256 propertyId);
+
+    /**
+     * @notice Updates the off-chain data hash of a property
+     * @param propertyId ID of the property
+     * @param newDataHash Hash of the updated property details
+     */
+    function updatePropertyData(uint256 propertyId, bytes32 newDataHash) external;
+
+    /**
+     * @notice Activates or deactivates a property
+     * @dev Deactivation is blocked while the property has an open agreement
+     * @param propertyId ID of the property
+     * @param isActive Whether the property should accept new agreements
+     */
+    function setPropertyActive(uint256 propertyId, bool isActive) external;
+
+    /**
+     * @notice Transfers a property to a new owner
+     * @dev Blocked while the property has an open agreement
+     * @param propertyId ID of the property
+     * @param newOwner Address of the new owner
+     */
+    function transferProperty(uint256 propertyId, address newOwner) external;
+
+    /**
+     * @notice Delegates a landlord permission over one property until an expiry time
+     * @dev Only callable by the property owner. The delegate must hold the PROPERTY_MANAGER or
+     *      BROKER role. The delegation lapses when the property changes hands
+     * @param propertyId ID of the property
+     * @param delegate Address acting for the owner
+     * @param permission CREATE_AGREEMENT, TERMINATE_AGREEMENT or PROCESS_PAYMENT
+     * @param expiresAt Time at which the delegation ends
+     */
+    function delegatePropertyPermission(
+        uint256 propertyId,
+        address delegate,
+        bytes32 permission,
+        uint256 expiresAt
+    ) external;
+
+    /**
+     * @notice Revokes a delegation before it expires
+     * @dev Only callable by the property owner
+     * @param propertyId ID of the property
+     * @param delegate Address acting for the owner
+     * @param permission Delegated permission to revoke
+     */
+    function revokePropertyDelegation(uint256 propertyId, address delegate, bytes32 permission) external;
+
+    /**
+     * @notice Retrieves a delegation over a property
+     * @param propertyId ID of the property
+     * @param delegate Address acting for the owner
+     * @param permission Delegated permission
+     * @return grantedBy Owner that granted the delegation (zero if none)
+     * @return expiresAt Time at which the delegation ends
+     * @return active Whether the delegation can currently be used
+     */
+    function getPropertyDelegation(uint256 propertyId, address delegate, bytes32 permission) external view returns (
+        address grantedBy,
+        uint256 expiresAt,
+        bool active
+    );
+
+    /**
+     * @notice Checks if an account may act for an agreement's landlord
+     * @param agreementId ID of the agreement
+     * @param account Address to check
+     * @param permission Permission the account needs
+     * @return allowed Whether the account is the landlord or holds an active delegation from them
+     */
+    function canActForLandlord(uint256 agreementId, address account, bytes32 permission) external view returns (bool allowed);
 
     /**
      * @notice Creates a new rental agreement
+     * @dev Callable by the property owner or a CREATE_AGREEMENT delegate; the owner is the landlord
      * @param propertyId ID of the property to rent
      * @param tenant Address of the tenant
      * @param terms Hash of the agreement terms
@@ -64,17 +140,113 @@ interface IRentalCore {
     ) external returns (uint256 agreementId);
 
     /**
-     * @notice Terminates an existing rental agreement
+     * @notice Accepts a pending rental agreement, activating it
+     * @dev Only callable by the tenant before the offer expires
+     * @param agreementId ID of the agreement to accept
+     */
+    function acceptAgreement(uint256 agreementId) external;
+
+    /**
+     * @notice Rejects a pending rental agreement
+     * @dev Only callable by the tenant
+     * @param agreementId ID of the agreement to reject
+     */
+    function rejectAgreement(uint256 agreementId) external;
+
+    /**
+     * @notice Marks an active agreement past its end date as expired
+     * @dev Callable by anyone. An agreement with a pending termination notice is finalized
+     *      through `finalizeTermination` instead
+     * @param agreementId ID of the agreement to expire
+     */
+    function expireAgreement(uint256 agreementId) external;
+
+    /**
+     * @notice Expires every active agreement in the list that is past its end date
+     * @dev Agreements that cannot be expired are skipped
+     * @param agreementIds IDs of the agreements to expire
+     * @return expiredCount Number of agreements expired
+     */
+    function expireAgreements(uint256[] calldata agreementIds) external returns (uint256 expiredCount);
+
+    /**
+     * @notice Gives notice to terminate an active agreement
+     * @dev The agreement stays active until the notice period ends, or until its end date if that
+     *      comes first. The party giving notice is charged an early termination penalty when the
+     *      termination takes effect. A TERMINATE_AGREEMENT delegate gives notice on the landlord's behalf
      * @param agreementId ID of the agreement to terminate
      */
     function terminateAgreement(uint256 agreementId) external;
 
+    /**
+     * @notice Terminates an agreement whose notice period has ended
+     * @dev Callable by anyone
+     * @param agreementId ID of the agreement to terminate
+     */
+    function finalizeTermination(uint256 agreementId) external;
+
+    /**
+     * @notice Records a party's consent to end an active agreement by mutual agreement
+     * @dev The agreement terminates without notice or penalty once both parties have consented.
+     *      Consent lapses after TERMINATION_CONSENT_VALIDITY and is cleared whenever the
+     *      agreement changes status
+     * @param agreementId ID of the agreement to terminate
+     */
+    function agreeMutualTermination(uint256 agreementId) external;
+
+    /**
+     * @notice Withdraws the caller's consent to a mutual termination
+     * @dev Only callable by a party whose consent has not lapsed
+     * @param agreementId ID of the agreement
+     */
+    function revokeTerminationConsent(uint256 agreementId) external;
+
+    /**
+     * @notice Retrieves the termination notice given on an agreement
+     * @param agreementId ID of the agreement
+     * @return givenBy Party that gave notice (zero if none)
+     * @return effectiveDate Time from which the termination can take effect
+     * @return penaltyAmount Early termination penalty charged to the party giving notice
+     */
+    function getTerminationNotice(uint256 agreementId) external view returns (
+        address givenBy,
+        uint256 effectiveDate,
+        uint256 penaltyAmount
+    );
+
+    /**
+     * @notice Proposes an amendment to an active agreement
+     * @dev The other party must confirm the amendment before it takes effect
+     * @param agreementId ID of the agreement to amend
+     * @param newRentAmount New monthly rent amount
+     * @param newEndDate New end date of the rental period
+     * @param newTermsHash Hash of the amended agreement terms
+     * @return amendmentHash Hash identifying the proposed amendment
+     */
+    function proposeAmendment(
+        uint256 agreementId,
+        uint256 newRentAmount,
+        uint256 newEndDate,
+        bytes32 newTermsHash
+    ) external returns (bytes32 amendmentHash);
+
+    /**
+     * @notice Confirms a pending amendment and applies it to the agreement
+     * @dev Only callable by the party that did not propose the amendment
+     * @param agreementId ID of the agreement
+     * @param amendmentHash Hash of the amendment being confirmed
+     */
+    function confirmAmendment(uint256 agreementId, bytes32 amendmentHash) external;
+
     /**
      * @notice Updates the status of an agreement
+     * @dev Only transitions allowed by the agreement state machine are accepted. Moving an
+     *      agreement into or out of Disputed is reserved for the registered DisputeManager
      * @param agreementId ID of the agreement to update
      * @param status New status to set
+     * @param reasonHash Hash of the document justifying the change
      */
-    function updateAgreementStatus(uint256 agreementId, uint8 status) external;
+    function updateAgreementStatus(uint256 agreementId, uint8 status, bytes32 reasonHash) external;
 
     /**
      * @notice Retrieves property details
@@ -113,4 +285,77 @@ interface IRentalCore {
         uint8 status,
         bytes32 termsHash
     );
+
+    /**
+     * @notice Retrieves the compliance parameters version an agreement was created under
+     * @param agreementId ID of the agreement
+     * @return version Compliance parameters version
+     */
+    function getAgreementParametersVersion(uint256 agreementId) external view returns (uint256 version);
+
+    /**
+     * @notice Retrieves the confirmed amendments of an agreement
+     * @param agreementId ID of the agreement
+     * @return amendmentHashes Hashes of the applied amendments, oldest first
+     */
+    function getAmendmentHistory(uint256 agreementId) external view returns (bytes32[] memory amendmentHashes);
+
+    /**
+     * @notice Retrieves the confirmed rent changes of an agreement
+     * @dev Installments due on or before a change's effective time are billed at the rent it replaced
+     * @param agreementId ID of the agreement
+     * @return effectiveFrom Times the rent changes took effect, oldest first
+     * @return previousRents Rent amounts in force before each change
+     */
+    function getRentHistory(uint256 agreementId)
+        external
+        view
+        returns (uint256[] memory effectiveFrom, uint256[] memory previousRents);
+
+    /**
+     * @notice Lists the properties owned by an address
+     * @param owner Address of the property owner
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return propertyIds Page of property IDs
+     * @return total Total number of properties owned
+     */
+    function getPropertiesByOwner(address owner, uint256 offset, uint256 limit) external view returns (
+        uint256[] memory propertyIds,
+        uint256 total
+    );
+
+    /**
+     * @notice Lists the agreements an address is party to
+     * @param user Address of the party
+     * @param role Role filter (0: Any, 1: Landlord, 2: Tenant)
+     * @param offset Index of the first matching entry to return
+     * @param limit Maximum number of entries to return
+     * @return agreementIds Page of agreement IDs
+     * @return total Total number of agreements matching the filter
+     */
+    function getAgreementsByUser(address user, uint8 role, uint256 offset, uint256 limit) external view returns (
+        uint256[] memory agreementIds,
+        uint256 total
+    );
+
+    /**
+     * @notice Lists the agreements created for a property
+     * @param propertyId ID of the property
+     * @param offset Index of the first entry to return
+     * @param limit Maximum number of entries to return
+     * @return agreementIds Page of agreement IDs, oldest first
+     * @return total Total number of agreements for the property
+     */
+    function getPropertyAgreementHistory(uint256 propertyId, uint256 offset, uint256 limit) external view returns (
+        uint256[] memory agreementIds,
+        uint256 total
+    );
+
+    /**
+     * @notice Gets the number of properties and agreements created so far
+     * @return propertyCount Total number of registered properties
+     * @return agreementCount Total number of created agreements
+     */
+    function getTotalCounts() external view returns (uint256 propertyCount, uint256 agreementCount);
 }
\ No newline at end of file
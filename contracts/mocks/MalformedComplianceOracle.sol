@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title MalformedComplianceOracle
+ * @notice Compliance oracle for tests whose getComplianceData returns too little data to decode
+ */
+contract MalformedComplianceOracle {
+    function getComplianceData(uint256, uint8) external pure returns (bool) {
+        return true;
+    }
+}
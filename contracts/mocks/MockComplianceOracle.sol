@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "../interfaces/IComplianceOracle.sol";
+
+/**
+ * @title MockComplianceOracle
+ * @notice Compliance oracle for tests that reports the same configurable result for every entity
+ */
+contract MockComplianceOracle is IComplianceOracle {
+    bool private _compliant;
+    uint256 private _updatedAt;
+    bytes32 private _dataHash;
+
+    constructor(bool compliant, bytes32 dataHash) {
+        _compliant = compliant;
+        _updatedAt = block.timestamp;
+        _dataHash = dataHash;
+    }
+
+    function setData(bool compliant, uint256 updatedAt) external {
+        _compliant = compliant;
+        _updatedAt = updatedAt;
+    }
+
+    function getComplianceData(uint256, uint8) external view override returns (bool, uint256, bytes32) {
+        return (_compliant, _updatedAt, _dataHash);
+    }
+}
@@ -14,6 +14,10 @@ library RentalUtils {
     uint256 public constant SECONDS_PER_DAY = 86400;
     uint256 public constant DAYS_PER_YEAR = 365;
     uint256 public constant DEFAULT_NOTICE_PERIOD_DAYS = 30;
+    uint8 public constant MAX_DUE_DAY = 28;
+
+    // Days between 0000-03-01 in the proleptic Gregorian calendar and 1970-01-01
+    uint256 private constant EPOCH_OFFSET_DAYS = 719468;
     
     /**
      * @notice Validates rental period according to Polish law
@@ -23,17 +27,41 @@ library RentalUtils {
      * @return reason Reason code if invalid (0 if valid)
      */
     function validateRentalPeriod(uint256 startDate, uint256 endDate) public pure returns (bool valid, uint8 reason) {
+        return validateRentalPeriodWithin(
+            startDate,
+            endDate,
+            MIN_RENTAL_PERIOD_DAYS,
+            MAX_RENTAL_PERIOD_YEARS * DAYS_PER_YEAR
+        );
+    }
+
+    /**
+     * @notice Validates a rental period against configurable duration bounds
+     * @dev Internal, so it is compiled into the calling contract instead of being called on the deployed library
+     * @param startDate Start date of the rental
+     * @param endDate End date of the rental
+     * @param minDays Minimum rental duration in days
+     * @param maxDays Maximum rental duration in days
+     * @return valid Whether the rental period is valid
+     * @return reason Reason code if invalid (0 if valid)
+     */
+    function validateRentalPeriodWithin(
+        uint256 startDate,
+        uint256 endDate,
+        uint256 minDays,
+        uint256 maxDays
+    ) internal pure returns (bool valid, uint8 reason) {
         if (startDate >= endDate) {
             return (false, 1); // End date must be after start date
         }
 
         uint256 durationDays = (endDate - startDate) / SECONDS_PER_DAY;
         
-        if (durationDays < MIN_RENTAL_PERIOD_DAYS) {
+        if (durationDays < minDays) {
             return (false, 2); // Duration too short
         }
 
-        if (durationDays > MAX_RENTAL_PERIOD_YEARS * DAYS_PER_YEAR) {
+        if (durationDays > maxDays) {
             return (false, 3); // Duration too long
         }
 
@@ -48,11 +76,27 @@ library RentalUtils {
      * @return reason Reason code if invalid (0 if valid)
      */
     function validateDeposit(uint256 rentAmount, uint256 depositAmount) public pure returns (bool valid, uint8 reason) {
+        return validateDepositWithin(rentAmount, depositAmount, MAX_DEPOSIT_MONTHS);
+    }
+
+    /**
+     * @notice Validates a deposit amount against a configurable cap in months of rent
+     * @param rentAmount Monthly rent amount
+     * @param depositAmount Security deposit amount
+     * @param maxMonths Maximum deposit in months of rent
+     * @return valid Whether the deposit amount is valid
+     * @return reason Reason code if invalid (0 if valid)
+     */
+    function validateDepositWithin(
+        uint256 rentAmount,
+        uint256 depositAmount,
+        uint256 maxMonths
+    ) internal pure returns (bool valid, uint8 reason) {
         if (depositAmount == 0) {
             return (false, 1); // Deposit required
         }
 
-        if (depositAmount > rentAmount * MAX_DEPOSIT_MONTHS) {
+        if (depositAmount > rentAmount * maxMonths) {
             return (false, 2); // Deposit exceeds maximum allowed
         }
 
@@ -88,8 +132,8 @@ library RentalUtils {
         // Polish statutory interest rate for late payments (current as of 2024)
         uint256 annualRate = 1185; // 11.85% represented as 1185
         
-        // Daily rate = Annual rate / 36500 (365 days * 100 for percentage)
-        uint256 dailyFee = (amount * annualRate * daysLate) / 36500;
+        // Daily rate = Annual rate / 3650000 (365 days * 10000 for basis points)
+        uint256 dailyFee = (amount * annualRate * daysLate) / 3650000;
         
         return dailyFee;
     }
@@ -102,6 +146,25 @@ library RentalUtils {
      * @return reason Reason code if invalid (0 if valid)
      */
     function validateRentAmount(uint256 rentAmount, uint256 propertySize) public pure returns (bool valid, uint8 reason) {
+        // Minimum rent per square meter (in wei)
+        uint256 minRentPerMeter = 10 ether; // Example threshold
+
+        return validateRentAmountWithin(rentAmount, propertySize, minRentPerMeter);
+    }
+
+    /**
+     * @notice Validates a rental price against a configurable minimum rent per square meter
+     * @param rentAmount Monthly rent amount
+     * @param propertySize Property size in square meters
+     * @param minRentPerMeter Minimum monthly rent per square meter
+     * @return valid Whether the rent amount is valid
+     * @return reason Reason code if invalid (0 if valid)
+     */
+    function validateRentAmountWithin(
+        uint256 rentAmount,
+        uint256 propertySize,
+        uint256 minRentPerMeter
+    ) internal pure returns (bool valid, uint8 reason) {
         if (rentAmount == 0) {
             return (false, 1); // Rent cannot be zero
         }
@@ -110,9 +173,6 @@ library RentalUtils {
             return (false, 2); // Invalid property size
         }
 
-        // Minimum rent per square meter (in wei)
-        uint256 minRentPerMeter = 10 ether; // Example threshold
-        
         if (rentAmount < minRentPerMeter * propertySize) {
             return (false, 3); // Rent too low for property size
         }
@@ -198,4 +258,134 @@ library RentalUtils {
         
         return true;
     }
+
+    /**
+     * @notice Calculates a boundary of a monthly billing schedule
+     * @dev With a due day of zero the schedule is anchored to the start date and boundary N falls
+     *      N calendar months after it, clamped to the month length. Otherwise boundaries fall at
+     *      midnight UTC on the due day, with boundary 0 being the last due day on or before the start date
+     * @param startDate Start date of the rental
+     * @param dueDay Day of month rent falls due (1-28), or zero to anchor to the start date
+     * @param index Boundary index
+     * @return boundary Timestamp of the boundary
+     */
+    function calculateBillingBoundary(
+        uint256 startDate,
+        uint8 dueDay,
+        uint256 index
+    ) public pure returns (uint256 boundary) {
+        require(dueDay <= MAX_DUE_DAY, "Invalid due day");
+
+        (uint256 year, uint256 month, uint256 day) = _daysToDate(startDate / SECONDS_PER_DAY);
+        uint256 monthIndex = year * 12 + month - 1;
+
+        if (dueDay == 0) {
+            monthIndex += index;
+            year = monthIndex / 12;
+            month = monthIndex % 12 + 1;
+            uint256 monthLength = _daysInMonth(year, month);
+            if (day > monthLength) {
+                day = monthLength;
+            }
+            return _daysFromDate(year, month, day) * SECONDS_PER_DAY + startDate % SECONDS_PER_DAY;
+        }
+
+        if (day < dueDay) {
+            monthIndex -= 1;
+        }
+        monthIndex += index;
+        return _daysFromDate(monthIndex / 12, monthIndex % 12 + 1, dueDay) * SECONDS_PER_DAY;
+    }
+
+    /**
+     * @notice Calculates the due date and amount of a monthly rent installment
+     * @dev Installments are paid in advance at the start of each billing period. Partial periods
+     *      at either end of the rental are pro-rated by time
+     * @param startDate Start date of the rental
+     * @param endDate End date of the rental
+     * @param rentAmount Monthly rent amount
+     * @param dueDay Day of month rent falls due (1-28), or zero to anchor to the start date
+     * @param installment Zero-based installment index
+     * @return dueDate Due date of the installment (0 if past the end of the rental)
+     * @return amount Rent due for the installment (0 if past the end of the rental)
+     */
+    function calculateInstallment(
+        uint256 startDate,
+        uint256 endDate,
+        uint256 rentAmount,
+        uint8 dueDay,
+        uint256 installment
+    ) public pure returns (uint256 dueDate, uint256 amount) {
+        uint256 periodStart = calculateBillingBoundary(startDate, dueDay, installment);
+        uint256 periodEnd = calculateBillingBoundary(startDate, dueDay, installment + 1);
+        uint256 periodLength = periodEnd - periodStart;
+
+        if (periodStart < startDate) {
+            periodStart = startDate;
+        }
+        if (periodEnd > endDate) {
+            periodEnd = endDate;
+        }
+        if (periodStart >= periodEnd) {
+            return (0, 0);
+        }
+
+        return (periodStart, (rentAmount * (periodEnd - periodStart)) / periodLength);
+    }
+
+    /**
+     * @notice Converts a calendar date to days since 1970-01-01
+     * @param year Calendar year
+     * @param month Calendar month (1-12)
+     * @param day Day of month
+     * @return Days since the Unix epoch
+     */
+    function _daysFromDate(uint256 year, uint256 month, uint256 day) private pure returns (uint256) {
+        if (month <= 2) {
+            year -= 1;
+        }
+        uint256 era = year / 400;
+        uint256 yearOfEra = year - era * 400;
+        uint256 dayOfYear = (153 * (month > 2 ? month - 3 : month + 9) + 2) / 5 + day - 1;
+        uint256 dayOfEra = yearOfEra * 365 + yearOfEra / 4 - yearOfEra / 100 + dayOfYear;
+
+        return era * 146097 + dayOfEra - EPOCH_OFFSET_DAYS;
+    }
+
+    /**
+     * @notice Converts days since 1970-01-01 to a calendar date
+     * @param daysSinceEpoch Days since the Unix epoch
+     * @return year Calendar year
+     * @return month Calendar month (1-12)
+     * @return day Day of month
+     */
+    function _daysToDate(uint256 daysSinceEpoch) private pure returns (uint256 year, uint256 month, uint256 day) {
+        uint256 z = daysSinceEpoch + EPOCH_OFFSET_DAYS;
+        uint256 era = z / 146097;
+        uint256 dayOfEra = z - era * 146097;
+        uint256 yearOfEra = (dayOfEra - dayOfEra / 1460 + dayOfEra / 36524 - dayOfEra / 146096) / 365;
+        uint256 dayOfYear = dayOfEra - (365 * yearOfEra + yearOfEra / 4 - yearOfEra / 100);
+        uint256 shiftedMonth = (5 * dayOfYear + 2) / 153;
+
+        day = dayOfYear - (153 * shiftedMonth + 2) / 5 + 1;
+        month = shiftedMonth < 10 ? shiftedMonth + 3 : shiftedMonth - 9;
+        year = yearOfEra + era * 400 + (month <= 2 ? 1 : 0);
+    }
+
+    /**
+     * @notice Gets the number of days in a calendar month
+     * @param year Calendar year
+     * @param month Calendar month (1-12)
+     * @return Number of days in the month
+     */
+    function _daysInMonth(uint256 year, uint256 month) private pure returns (uint256) {
+        if (month == 2) {
+            bool leapYear = (year % 4 == 0 && year % 100 != 0) || year % 400 == 0;
+            return leapYear ? 29 : 28;
+        }
+        if (month == 4 || month == 6 || month == 9 || month == 11) {
+            return 30;
+        }
+        return 31;
+    }
 }
\ No newline at end of file
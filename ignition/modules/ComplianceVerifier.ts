@@ -1,9 +1,9 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
-import { keccak256, toBytes } from "viem";
+import AccessControlModule from "./AccessControl";
 
-export default buildModule("ComplianceVerifierModule", async (m) => {
+export default buildModule("ComplianceVerifierModule", (m) => {
   // Get the AccessControlManager deployment
-  const { accessControlManager } = await m.useModule("AccessControl");
+  const { accessControlManager } = m.useModule(AccessControlModule);
 
   // Deploy ComplianceVerifier with temporary RentalCore address (will be updated later)
   const complianceVerifier = m.contract("ComplianceVerifier", [
@@ -13,13 +13,16 @@ export default buildModule("ComplianceVerifierModule", async (m) => {
     id: "deploy-compliance-verifier"
   });
 
-  // Set initial compliance parameters
-  const initialParamsHash = keccak256(
-    toBytes("Initial compliance parameters v1.0")
-  );
-
+  // Set initial compliance parameters, effective immediately
   m.call(complianceVerifier, "updateComplianceParameters", [
-    initialParamsHash
+    {
+      maxDepositMonths: 3,
+      minRentalDays: 30,
+      maxRentalDays: 3650,
+      noticePeriodDays: 30,
+      minRentPerSqm: 0 // No minimum until a market rate is configured
+    },
+    0
   ], {
     id: "set-initial-parameters",
     after: [complianceVerifier]
@@ -0,0 +1,34 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import AccessControlModule from "./AccessControl";
+import PaymentManagerModule from "./PaymentManager";
+import RentalCoreModule from "./RentalCore";
+
+export default buildModule("DisputeManagerModule", (m) => {
+  // Get the dependency deployments
+  const { accessControlManager } = m.useModule(AccessControlModule);
+  const { paymentManager } = m.useModule(PaymentManagerModule);
+  const { rentalCore, documentUtils } = m.useModule(RentalCoreModule);
+
+  // Deploy DisputeManager with all dependencies
+  const disputeManager = m.contract("DisputeManager", [
+    rentalCore,
+    paymentManager,
+    accessControlManager
+  ], {
+    id: "deploy-dispute-manager",
+    libraries: { DocumentUtils: documentUtils }
+  });
+
+  // Register DisputeManager as the only contract that moves agreements in and out of Disputed status
+  const registerDisputeManager = m.call(rentalCore, "setDisputeManager", [disputeManager], {
+    id: "register-dispute-manager"
+  });
+
+  // Allow DisputeManager alone to release escrowed deposits according to rulings
+  m.call(paymentManager, "setDisputeManager", [disputeManager], {
+    id: "register-payment-dispute-manager",
+    after: [registerDisputeManager]
+  });
+
+  return { disputeManager };
+});
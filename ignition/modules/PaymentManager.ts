@@ -1,16 +1,23 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 import { keccak256, toBytes } from "viem";
+import AccessControlModule from "./AccessControl";
 
-export default buildModule("PaymentManagerModule", async (m) => {
+export default buildModule("PaymentManagerModule", (m) => {
   // Get the AccessControlManager deployment
-  const { accessControlManager } = await m.useModule("AccessControl");
+  const { accessControlManager } = m.useModule(AccessControlModule);
+
+  // Deploy libraries linked into PaymentManager
+  const rentalUtils = m.library("RentalUtils", {
+    id: "deploy-rental-utils"
+  });
 
   // Deploy PaymentManager with temporary RentalCore address (will be updated later)
   const paymentManager = m.contract("PaymentManager", [
     m.getAddress("RENTAL_CORE_PLACEHOLDER"), // Temporary address, will be updated after RentalCore deployment
     accessControlManager
   ], {
-    id: "deploy-payment-manager"
+    id: "deploy-payment-manager",
+    libraries: { RentalUtils: rentalUtils }
   });
 
   // Grant PAYMENT_MANAGER role to the payment admin
@@ -24,5 +31,5 @@ export default buildModule("PaymentManagerModule", async (m) => {
     after: [paymentManager]
   });
 
-  return { paymentManager };
+  return { paymentManager, rentalUtils };
 });
\ No newline at end of file
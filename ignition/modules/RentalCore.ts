@@ -1,11 +1,19 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 import { keccak256, toBytes } from "viem";
+import AccessControlModule from "./AccessControl";
+import ComplianceVerifierModule from "./ComplianceVerifier";
+import PaymentManagerModule from "./PaymentManager";
 
-export default buildModule("RentalCoreModule", async (m) => {
+export default buildModule("RentalCoreModule", (m) => {
   // Get the dependency deployments
-  const { accessControlManager } = await m.useModule("AccessControl");
-  const { complianceVerifier } = await m.useModule("ComplianceVerifier");
-  const { paymentManager } = await m.useModule("PaymentManager");
+  const { accessControlManager } = m.useModule(AccessControlModule);
+  const { complianceVerifier } = m.useModule(ComplianceVerifierModule);
+  const { paymentManager, rentalUtils } = m.useModule(PaymentManagerModule);
+
+  // Deploy libraries linked into RentalCore
+  const documentUtils = m.library("DocumentUtils", {
+    id: "deploy-document-utils"
+  });
 
   // Deploy RentalCore with all dependencies
   const rentalCore = m.contract("RentalCore", [
@@ -13,7 +21,8 @@ export default buildModule("RentalCoreModule", async (m) => {
     complianceVerifier,
     accessControlManager
   ], {
-    id: "deploy-rental-core"
+    id: "deploy-rental-core",
+    libraries: { DocumentUtils: documentUtils, RentalUtils: rentalUtils }
   });
 
   // Update RentalCore address in ComplianceVerifier
@@ -60,5 +69,5 @@ export default buildModule("RentalCoreModule", async (m) => {
     after: ["grant-update-agreement-permission"]
   });
 
-  return { rentalCore };
+  return { rentalCore, documentUtils };
 });
\ No newline at end of file
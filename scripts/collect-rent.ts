@@ -0,0 +1,92 @@
+import hre from "hardhat";
+import { getAddress } from "viem";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+// Agreement status values as defined in RentalCore.AgreementStatus
+const ACTIVE_STATUS = 1;
+
+/**
+ * Keeper script: collects due rent for every active agreement with autopay enabled.
+ *
+ * Usage:
+ *   RENTAL_CORE_ADDRESS=<address> PAYMENT_MANAGER_ADDRESS=<address> \
+ *     npx hardhat run scripts/collect-rent.ts --network localhost
+ *
+ * Set DRY_RUN=true to only list the agreements that would be collected.
+ */
+async function main() {
+  const rentalCoreAddress = process.env.RENTAL_CORE_ADDRESS;
+  const paymentManagerAddress = process.env.PAYMENT_MANAGER_ADDRESS;
+  if (!rentalCoreAddress || !paymentManagerAddress) {
+    throw new Error("RENTAL_CORE_ADDRESS and PAYMENT_MANAGER_ADDRESS must be set");
+  }
+  const dryRun = process.env.DRY_RUN === "true";
+
+  const rentalCore = await hre.viem.getContractAt("RentalCore", getAddress(rentalCoreAddress));
+  const paymentManager = await hre.viem.getContractAt("PaymentManager", getAddress(paymentManagerAddress));
+  const publicClient = await hre.viem.getPublicClient();
+
+  const latestBlock = await publicClient.getBlock();
+  const now = latestBlock.timestamp;
+
+  const [, agreementCount] = (await rentalCore.read.getTotalCounts()) as readonly [bigint, bigint];
+  console.log(`Scanning ${agreementCount} agreements on ${hre.network.name}...`);
+
+  const dueIds: bigint[] = [];
+  for (let id = 1n; id <= agreementCount; id++) {
+    const details = (await rentalCore.read.getAgreementDetails([id])) as readonly unknown[];
+    const endDate = details[4] as bigint;
+    const status = details[7] as number;
+    if (status !== ACTIVE_STATUS || endDate < now) {
+      continue;
+    }
+
+    const [enabled] = (await paymentManager.read.getAutopay([id])) as readonly [boolean, bigint, bigint];
+    if (!enabled) {
+      continue;
+    }
+
+    const [dueDates] = (await paymentManager.read.getUpcomingDueDates([id, 1n])) as readonly [
+      readonly bigint[],
+      readonly bigint[]
+    ];
+    if (dueDates.length > 0 && dueDates[0] <= now) {
+      dueIds.push(id);
+    }
+  }
+
+  if (dueIds.length === 0) {
+    console.log("No rent due");
+    return;
+  }
+
+  console.log(`Rent due on agreements: ${dueIds.join(", ")}`);
+  if (dryRun) {
+    return;
+  }
+
+  let collected = 0;
+  for (const id of dueIds) {
+    try {
+      // Simulate first so a failing tenant (cap, balance, allowance) doesn't cost gas
+      await paymentManager.simulate.collectDueRent([id]);
+      const hash = await paymentManager.write.collectDueRent([id]);
+      await publicClient.waitForTransactionReceipt({ hash });
+      collected++;
+      console.log(`Collected rent for agreement ${id} (tx ${hash})`);
+    } catch (error) {
+      console.log(`Skipping agreement ${id}: ${(error as Error).message}`);
+    }
+  }
+
+  console.log(`Collected ${collected} of ${dueIds.length} due installments`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
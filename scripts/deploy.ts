@@ -25,6 +25,10 @@ async function main() {
     console.log("PaymentManager:", deployment.getAddress("PaymentManager"));
     console.log("RentalCore:", deployment.getAddress("RentalCore"));
 
+    // registerProperty gained a floor area argument, which changed its selector
+    console.log("\nNote: RentalCore.registerProperty(bytes32) was replaced by registerProperty(bytes32 dataHash, uint256 floorArea).");
+    console.log("Update any client or script that registers properties against the old ABI.");
+
     // For non-local networks, wait before verification
     if (network !== "localhost" && network !== "hardhat") {
       const verificationDelay = parseInt(process.env.VERIFICATION_DELAY || "60");
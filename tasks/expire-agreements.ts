@@ -0,0 +1,44 @@
+import { task, types } from "hardhat/config";
+
+// Agreement status values as defined in RentalCore.AgreementStatus
+const ACTIVE_STATUS = 1;
+
+task("expire-agreements", "Finds active agreements past their end date and expires them")
+  .addParam("rentalCore", "Address of the RentalCore contract")
+  .addOptionalParam("batchSize", "Number of agreements to expire per transaction", 50, types.int)
+  .addFlag("dryRun", "Only list stale agreements without sending transactions")
+  .setAction(async (args, hre) => {
+    const rentalCore = await hre.viem.getContractAt("RentalCore", args.rentalCore);
+    const publicClient = await hre.viem.getPublicClient();
+
+    const latestBlock = await publicClient.getBlock();
+    const [, agreementCount] = (await rentalCore.read.getTotalCounts()) as readonly [bigint, bigint];
+    console.log(`Scanning ${agreementCount} agreements on ${hre.network.name}...`);
+
+    const staleIds: bigint[] = [];
+    for (let id = 1n; id <= agreementCount; id++) {
+      const details = (await rentalCore.read.getAgreementDetails([id])) as readonly unknown[];
+      const endDate = details[4] as bigint;
+      const status = details[7] as number;
+      if (status === ACTIVE_STATUS && endDate < latestBlock.timestamp) {
+        staleIds.push(id);
+      }
+    }
+
+    if (staleIds.length === 0) {
+      console.log("No stale agreements found");
+      return;
+    }
+
+    console.log(`Found ${staleIds.length} stale agreements: ${staleIds.join(", ")}`);
+    if (args.dryRun) {
+      return;
+    }
+
+    for (let i = 0; i < staleIds.length; i += args.batchSize) {
+      const batch = staleIds.slice(i, i + args.batchSize);
+      const hash = await rentalCore.write.expireAgreements([batch]);
+      await publicClient.waitForTransactionReceipt({ hash });
+      console.log(`Expired agreements ${batch.join(", ")} (tx ${hash})`);
+    }
+  });
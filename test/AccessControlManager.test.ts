@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ContractTransactionResponse } from "ethers";
 import { AccessControlManager } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
@@ -66,8 +67,8 @@ describe("AccessControlManager", function () {
     it("Should set deployer as admin and system admin", async function () {
       const { accessManager, owner, roles } = await loadFixture(deployAccessControlFixture);
       
-      expect(await accessManager.hasRole(await accessManager.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
-      expect(await accessManager.hasRole(roles.SYSTEM_ADMIN, owner.address)).to.be.true;
+      expect(await accessManager["hasRole(bytes32,address)"](await accessManager.DEFAULT_ADMIN_ROLE(), owner.address)).to.be.true;
+      expect(await accessManager["hasRole(bytes32,address)"](roles.SYSTEM_ADMIN, owner.address)).to.be.true;
     });
 
     it("Should set up role hierarchies correctly", async function () {
@@ -89,18 +90,18 @@ describe("AccessControlManager", function () {
         .to.emit(accessManager, "RoleAssigned")
         .withArgs(landlord.address, roles.LANDLORD, owner.address);
 
-      expect(await accessManager.hasRole(roles.LANDLORD, landlord.address)).to.be.true;
+      expect(await accessManager["hasRole(bytes32,address)"](roles.LANDLORD, landlord.address)).to.be.true;
     });
 
     it("Should allow system admin to revoke roles", async function () {
       const { accessManager, owner, landlord, roles } = await loadFixture(deployAccessControlFixture);
 
       await accessManager.assignRole(landlord.address, roles.LANDLORD);
-      await expect(accessManager.revokeRole(landlord.address, roles.LANDLORD))
-        .to.emit(accessManager, "RoleRevoked")
+      await expect(accessManager["revokeRole(address,bytes32)"](landlord.address, roles.LANDLORD))
+        .to.emit(accessManager, "RoleRevoked(address,bytes32,address)")
         .withArgs(landlord.address, roles.LANDLORD, owner.address);
 
-      expect(await accessManager.hasRole(roles.LANDLORD, landlord.address)).to.be.false;
+      expect(await accessManager["hasRole(bytes32,address)"](roles.LANDLORD, landlord.address)).to.be.false;
     });
 
     it("Should reject role assignment from non-admin", async function () {
@@ -162,6 +163,39 @@ describe("AccessControlManager", function () {
 
       expect(await accessManager.hasPermission(tenant.address, permissions.PROCESS_PAYMENT)).to.be.false;
     });
+
+    it("Should keep explicit grants and denies until the override is cleared", async function () {
+      const { accessManager, tenant, roles, permissions } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.assignRole(tenant.address, roles.TENANT);
+      await accessManager.revokePermission(tenant.address, permissions.PROCESS_PAYMENT);
+      await accessManager.grantPermission(tenant.address, permissions.REGISTER_PROPERTY);
+
+      // Overrides survive role changes
+      await accessManager["revokeRole(address,bytes32)"](tenant.address, roles.TENANT);
+      await accessManager.assignRole(tenant.address, roles.TENANT);
+      expect(await accessManager.hasPermission(tenant.address, permissions.PROCESS_PAYMENT)).to.be.false;
+      expect(await accessManager.hasPermission(tenant.address, permissions.REGISTER_PROPERTY)).to.be.true;
+
+      await expect(accessManager.clearPermissionOverride(tenant.address, permissions.PROCESS_PAYMENT))
+        .to.emit(accessManager, "PermissionOverrideCleared")
+        .withArgs(tenant.address, permissions.PROCESS_PAYMENT);
+      await accessManager.clearPermissionOverride(tenant.address, permissions.REGISTER_PROPERTY);
+
+      expect(await accessManager.hasPermission(tenant.address, permissions.PROCESS_PAYMENT)).to.be.true;
+      expect(await accessManager.hasPermission(tenant.address, permissions.REGISTER_PROPERTY)).to.be.false;
+    });
+
+    it("Should reject permission changes from non-admins", async function () {
+      const { accessManager, landlord, tenant, roles, permissions } = await loadFixture(deployAccessControlFixture);
+
+      await expect(accessManager.connect(landlord).grantPermission(tenant.address, permissions.REGISTER_PROPERTY))
+        .to.be.revertedWith("Not authorized");
+      await expect(accessManager.connect(landlord).clearPermissionOverride(tenant.address, permissions.REGISTER_PROPERTY))
+        .to.be.revertedWith("Not authorized");
+      await expect(accessManager.connect(landlord).setRolePermissions(roles.TENANT, [permissions.REGISTER_PROPERTY]))
+        .to.be.revertedWith("Not authorized");
+    });
   });
 
   describe("Role-Specific Permissions", function () {
@@ -181,8 +215,9 @@ describe("AccessControlManager", function () {
 
       await accessManager.assignRole(broker.address, roles.BROKER);
 
-      expect(await accessManager.hasPermission(broker.address, permissions.REGISTER_PROPERTY)).to.be.true;
-      expect(await accessManager.hasPermission(broker.address, permissions.CREATE_AGREEMENT)).to.be.true;
+      // Brokers list properties and offer agreements only through a landlord's delegation
+      expect(await accessManager.hasPermission(broker.address, permissions.REGISTER_PROPERTY)).to.be.false;
+      expect(await accessManager.hasPermission(broker.address, permissions.CREATE_AGREEMENT)).to.be.false;
       expect(await accessManager.hasPermission(broker.address, permissions.ACCESS_PAYMENT_HISTORY)).to.be.true;
       expect(await accessManager.hasPermission(broker.address, permissions.UPDATE_SYSTEM)).to.be.false;
     });
@@ -192,8 +227,9 @@ describe("AccessControlManager", function () {
 
       await accessManager.assignRole(propertyManager.address, roles.PROPERTY_MANAGER);
 
-      expect(await accessManager.hasPermission(propertyManager.address, permissions.UPDATE_AGREEMENT)).to.be.true;
-      expect(await accessManager.hasPermission(propertyManager.address, permissions.PROCESS_PAYMENT)).to.be.true;
+      // Property managers act on agreements and payments only through a landlord's delegation
+      expect(await accessManager.hasPermission(propertyManager.address, permissions.UPDATE_AGREEMENT)).to.be.false;
+      expect(await accessManager.hasPermission(propertyManager.address, permissions.PROCESS_PAYMENT)).to.be.false;
       expect(await accessManager.hasPermission(propertyManager.address, permissions.ACCESS_PAYMENT_HISTORY)).to.be.true;
       expect(await accessManager.hasPermission(propertyManager.address, permissions.REGISTER_PROPERTY)).to.be.false;
     });
@@ -224,4 +260,170 @@ describe("AccessControlManager", function () {
       expect(accountPermissions).to.not.include(permissions.UPDATE_SYSTEM);
     });
   });
-});
\ No newline at end of file
+
+  describe("Role Permission Sets", function () {
+    it("Should apply changes to a role's permissions to existing holders", async function () {
+      const { accessManager, tenant, roles, permissions } = await loadFixture(deployAccessControlFixture);
+      await accessManager.assignRole(tenant.address, roles.TENANT);
+      const newPermissions = [permissions.PROCESS_PAYMENT, permissions.CREATE_AGREEMENT];
+
+      await expect(accessManager.setRolePermissions(roles.TENANT, newPermissions))
+        .to.emit(accessManager, "RolePermissionsUpdated")
+        .withArgs(roles.TENANT, newPermissions);
+
+      expect(await accessManager.getRolePermissions(roles.TENANT)).to.deep.equal(newPermissions);
+      expect(await accessManager.hasPermission(tenant.address, permissions.CREATE_AGREEMENT)).to.be.true;
+      expect(await accessManager.hasPermission(tenant.address, permissions.TERMINATE_AGREEMENT)).to.be.false;
+    });
+
+    it("Should ignore permissions listed twice", async function () {
+      const { accessManager, roles, permissions } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.setRolePermissions(
+        roles.LEGAL_VERIFIER,
+        [permissions.VERIFY_COMPLIANCE, permissions.VERIFY_COMPLIANCE]
+      );
+
+      expect(await accessManager.getRolePermissions(roles.LEGAL_VERIFIER)).to.deep.equal([permissions.VERIFY_COMPLIANCE]);
+    });
+
+    it("Should give permissions to custom roles", async function () {
+      const { accessManager, broker, permissions } = await loadFixture(deployAccessControlFixture);
+      const PAYMENT_MANAGER = ethers.keccak256(ethers.toUtf8Bytes("PAYMENT_MANAGER"));
+
+      await accessManager.setRolePermissions(PAYMENT_MANAGER, [permissions.PROCESS_PAYMENT]);
+      await accessManager.grantRole(PAYMENT_MANAGER, broker.address);
+
+      expect(await accessManager.hasPermission(broker.address, permissions.PROCESS_PAYMENT)).to.be.true;
+      expect(await accessManager.getRoles(broker.address)).to.deep.equal([PAYMENT_MANAGER]);
+      expect(await accessManager["hasRole(address,bytes32)"](broker.address, PAYMENT_MANAGER)).to.be.true;
+    });
+  });
+
+  describe("Overlapping Roles", function () {
+    it("Should keep permissions another role still grants when one role is revoked", async function () {
+      const { accessManager, landlord, roles, permissions } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.assignRole(landlord.address, roles.LANDLORD);
+      await accessManager.assignRole(landlord.address, roles.BROKER);
+      await accessManager["revokeRole(address,bytes32)"](landlord.address, roles.BROKER);
+
+      expect(await accessManager.hasPermission(landlord.address, permissions.REGISTER_PROPERTY)).to.be.true;
+      expect(await accessManager.hasPermission(landlord.address, permissions.CREATE_AGREEMENT)).to.be.true;
+      expect(await accessManager.hasPermission(landlord.address, permissions.TERMINATE_AGREEMENT)).to.be.true;
+    });
+
+    it("Should drop permissions no remaining role grants", async function () {
+      const { accessManager, landlord, roles, permissions } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.assignRole(landlord.address, roles.LANDLORD);
+      await accessManager.assignRole(landlord.address, roles.TENANT);
+      await accessManager["revokeRole(address,bytes32)"](landlord.address, roles.LANDLORD);
+
+      expect(await accessManager.hasPermission(landlord.address, permissions.REGISTER_PROPERTY)).to.be.false;
+      expect(await accessManager.hasPermission(landlord.address, permissions.PROCESS_PAYMENT)).to.be.true;
+      expect(await accessManager.getPermissions(landlord.address)).to.deep.equal([
+        permissions.PROCESS_PAYMENT,
+        permissions.ACCESS_PAYMENT_HISTORY,
+        permissions.TERMINATE_AGREEMENT
+      ]);
+    });
+
+    it("Should let a deny override every role granting the permission", async function () {
+      const { accessManager, landlord, roles, permissions } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.assignRole(landlord.address, roles.LANDLORD);
+      await accessManager.assignRole(landlord.address, roles.BROKER);
+      await accessManager.revokePermission(landlord.address, permissions.CREATE_AGREEMENT);
+
+      expect(await accessManager.hasPermission(landlord.address, permissions.CREATE_AGREEMENT)).to.be.false;
+      expect(await accessManager.getPermissions(landlord.address)).to.not.include(permissions.CREATE_AGREEMENT);
+    });
+  });
+
+  describe("Set Semantics", function () {
+    it("Should not duplicate permissions granted twice or also granted by a role", async function () {
+      const { accessManager, landlord, roles, permissions } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.assignRole(landlord.address, roles.LANDLORD);
+      await accessManager.grantPermission(landlord.address, permissions.REGISTER_PROPERTY);
+      await accessManager.grantPermission(landlord.address, permissions.REGISTER_PROPERTY);
+      await accessManager.grantPermission(landlord.address, permissions.UPDATE_AGREEMENT);
+
+      const accountPermissions = await accessManager.getPermissions(landlord.address);
+      expect(accountPermissions.filter((p) => p === permissions.REGISTER_PROPERTY)).to.have.length(1);
+      expect(accountPermissions).to.have.length(6);
+      expect(new Set(accountPermissions).size).to.equal(accountPermissions.length);
+    });
+
+    it("Should not duplicate roles assigned twice", async function () {
+      const { accessManager, landlord, roles } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.assignRole(landlord.address, roles.LANDLORD);
+      await accessManager.assignRole(landlord.address, roles.LANDLORD);
+      await accessManager.assignRole(landlord.address, roles.BROKER);
+
+      expect(await accessManager.getRoles(landlord.address)).to.deep.equal([roles.LANDLORD, roles.BROKER]);
+    });
+
+    it("Should enumerate the members of a role", async function () {
+      const { accessManager, landlord, tenant, broker, roles } = await loadFixture(deployAccessControlFixture);
+
+      await accessManager.assignRole(landlord.address, roles.LANDLORD);
+      await accessManager.assignRole(tenant.address, roles.LANDLORD);
+      await accessManager.assignRole(broker.address, roles.LANDLORD);
+      await accessManager["revokeRole(address,bytes32)"](landlord.address, roles.LANDLORD);
+
+      const members = [...await accessManager.getRoleMembers(roles.LANDLORD)];
+      expect(members).to.have.members([tenant.address, broker.address]);
+      expect(await accessManager.getRoleMemberCount(roles.LANDLORD)).to.equal(2);
+      expect(await accessManager.getRoles(landlord.address)).to.be.empty;
+    });
+  });
+
+  describe("Gas Benchmarks", function () {
+    async function gasUsed(tx: Promise<ContractTransactionResponse>) {
+      const receipt = await (await tx).wait();
+      return receipt!.gasUsed;
+    }
+
+    it("Should revoke a permission at a cost independent of how many the account holds", async function () {
+      const { accessManager, landlord, tenant, permissions } = await loadFixture(deployAccessControlFixture);
+      const allPermissions = Object.values(permissions);
+
+      await accessManager.grantPermission(landlord.address, permissions.REGISTER_PROPERTY);
+      await accessManager.grantPermission(landlord.address, permissions.UPDATE_SYSTEM);
+      for (const permission of allPermissions) {
+        await accessManager.grantPermission(tenant.address, permission);
+      }
+
+      const fewGas = await gasUsed(accessManager.revokePermission(landlord.address, permissions.UPDATE_SYSTEM));
+      const manyGas = await gasUsed(accessManager.revokePermission(tenant.address, permissions.UPDATE_SYSTEM));
+      expect(manyGas).to.be.closeTo(fewGas, 500n);
+    });
+
+    it("Should make repeated grants cheaper than the first", async function () {
+      const { accessManager, tenant, permissions } = await loadFixture(deployAccessControlFixture);
+
+      const firstGas = await gasUsed(accessManager.grantPermission(tenant.address, permissions.REGISTER_PROPERTY));
+      const repeatGas = await gasUsed(accessManager.grantPermission(tenant.address, permissions.REGISTER_PROPERTY));
+      expect(repeatGas).to.be.lessThan(firstGas - 20000n); // No new storage slots are written
+    });
+
+    it("Should assign and revoke roles at a cost independent of the role's size", async function () {
+      const { accessManager, landlord, roles } = await loadFixture(deployAccessControlFixture);
+      const signers = await ethers.getSigners();
+
+      await accessManager.assignRole(signers[10].address, roles.TENANT);
+      const secondGas = await gasUsed(accessManager.assignRole(landlord.address, roles.TENANT));
+      for (const signer of signers.slice(11, 18)) {
+        await accessManager.assignRole(signer.address, roles.TENANT);
+      }
+      const tenthGas = await gasUsed(accessManager.assignRole(signers[18].address, roles.TENANT));
+      expect(tenthGas).to.be.closeTo(secondGas, 500n);
+
+      const revokeGas = await gasUsed(accessManager["revokeRole(address,bytes32)"](landlord.address, roles.TENANT));
+      expect(revokeGas).to.be.lessThan(80000n);
+    });
+  });
+});
@@ -1,10 +1,22 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, takeSnapshot, time, SnapshotRestorer } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { ComplianceVerifier, RentalCore, AccessControlManager } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 describe("ComplianceVerifier", function () {
+  // Restore the chain clock so time moved here does not leak into other test files
+  let snapshot: SnapshotRestorer;
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
   // Test fixtures
   async function deployComplianceSystemFixture() {
     const [owner, admin, verifier, landlord, tenant] = await ethers.getSigners();
@@ -13,27 +25,65 @@ describe("ComplianceVerifier", function () {
     const AccessControlManager = await ethers.getContractFactory("AccessControlManager");
     const accessManager = await AccessControlManager.deploy();
 
-    // Deploy RentalCore (mock version for testing)
-    const RentalCore = await ethers.getContractFactory("RentalCore");
-    const rentalCore = await RentalCore.deploy(
-      ethers.ZeroAddress,
-      ethers.ZeroAddress,
-      await accessManager.getAddress()
-    );
+    // Deploy DocumentUtils library linked into RentalCore
+    const DocumentUtils = await ethers.getContractFactory("DocumentUtils");
+    const documentUtils = await DocumentUtils.deploy();
+
+    // Deploy RentalUtils library linked into PaymentManager and RentalCore
+    const RentalUtils = await ethers.getContractFactory("RentalUtils");
+    const rentalUtils = await RentalUtils.deploy();
+
+    // PaymentManager and ComplianceVerifier reference RentalCore, which is deployed right after them
+    const rentalCoreAddress = ethers.getCreateAddress({
+      from: owner.address,
+      nonce: (await owner.getNonce()) + 2
+    });
+
+    const PaymentManager = await ethers.getContractFactory("PaymentManager", {
+      libraries: { RentalUtils: await rentalUtils.getAddress() }
+    });
+    const paymentManager = await PaymentManager.deploy(rentalCoreAddress, await accessManager.getAddress());
 
     // Deploy ComplianceVerifier
     const ComplianceVerifier = await ethers.getContractFactory("ComplianceVerifier");
     const complianceVerifier = await ComplianceVerifier.deploy(
-      await rentalCore.getAddress(),
+      rentalCoreAddress,
+      await accessManager.getAddress()
+    );
+
+    const RentalCore = await ethers.getContractFactory("RentalCore", {
+      libraries: {
+        DocumentUtils: await documentUtils.getAddress(),
+        RentalUtils: await rentalUtils.getAddress()
+      }
+    });
+    const rentalCore = await RentalCore.deploy(
+      await paymentManager.getAddress(),
+      await complianceVerifier.getAddress(),
       await accessManager.getAddress()
     );
 
     // Setup roles
     await accessManager.grantRole(ethers.keccak256(ethers.toUtf8Bytes("SYSTEM_ADMIN")), admin.address);
 
+    // Register passing oracles for every default check type
+    const MockComplianceOracle = await ethers.getContractFactory("MockComplianceOracle");
+    const landRegistryOracle = await MockComplianceOracle.deploy(true, ethers.keccak256(ethers.toUtf8Bytes("KW_WA1M_00012345_6")));
+    const safetyCertificateOracle = await MockComplianceOracle.deploy(true, ethers.keccak256(ethers.toUtf8Bytes("gas_inspection")));
+    const identityOracle = await MockComplianceOracle.deploy(true, ethers.keccak256(ethers.toUtf8Bytes("kyc_record")));
+    await complianceVerifier.connect(admin).registerOracle(await complianceVerifier.LAND_REGISTRY_ORACLE(), await landRegistryOracle.getAddress());
+    await complianceVerifier.connect(admin).registerOracle(await complianceVerifier.SAFETY_CERTIFICATE_ORACLE(), await safetyCertificateOracle.getAddress());
+    await complianceVerifier.connect(admin).registerOracle(await complianceVerifier.IDENTITY_ORACLE(), await identityOracle.getAddress());
+
     // Set initial compliance parameters
-    const initialParams = ethers.keccak256(ethers.toUtf8Bytes("initial_parameters"));
-    await complianceVerifier.connect(admin).updateComplianceParameters(initialParams);
+    const initialParams = {
+      maxDepositMonths: 3n,
+      minRentalDays: 30n,
+      maxRentalDays: 3650n,
+      noticePeriodDays: 30n,
+      minRentPerSqm: ethers.parseEther("0.01")
+    };
+    await complianceVerifier.connect(admin).updateComplianceParameters(initialParams, 0);
 
     return {
       complianceVerifier,
@@ -44,7 +94,10 @@ describe("ComplianceVerifier", function () {
       verifier,
       landlord,
       tenant,
-      initialParams
+      initialParams,
+      landRegistryOracle,
+      safetyCertificateOracle,
+      identityOracle
     };
   }
 
@@ -98,24 +151,95 @@ describe("ComplianceVerifier", function () {
   });
 
   describe("Compliance Parameters", function () {
-    it("Should allow admin to update compliance parameters", async function () {
+    const newParams = {
+      maxDepositMonths: 2n,
+      minRentalDays: 90n,
+      maxRentalDays: 1825n,
+      noticePeriodDays: 60n,
+      minRentPerSqm: ethers.parseEther("0.02")
+    };
+
+    it("Should allow admin to publish a new parameters version", async function () {
       const { complianceVerifier, admin } = await loadFixture(deployComplianceSystemFixture);
-      
-      const newParams = ethers.keccak256(ethers.toUtf8Bytes("new_parameters"));
-      await expect(complianceVerifier.connect(admin).updateComplianceParameters(newParams))
+
+      const tx = complianceVerifier.connect(admin).updateComplianceParameters(newParams, 0);
+      await expect(tx)
         .to.emit(complianceVerifier, "ComplianceParametersUpdated")
-        .withArgs(newParams, await ethers.provider.getBlock('latest').then(b => b!.timestamp));
+        .withArgs(2, Object.values(newParams), anyValue);
+
+      const [version, parameters] = await complianceVerifier.getCurrentParameters();
+      expect(version).to.equal(2);
+      expect([...parameters]).to.deep.equal(Object.values(newParams));
+      expect(await complianceVerifier.getParametersVersionCount()).to.equal(2);
+    });
+
+    it("Should apply a scheduled version only from its effective date", async function () {
+      const { complianceVerifier, admin, initialParams } = await loadFixture(deployComplianceSystemFixture);
+      const effectiveFrom = await time.latest() + 86400 * 30;
+
+      await complianceVerifier.connect(admin).updateComplianceParameters(newParams, effectiveFrom);
 
-      const [parametersHash, ] = await complianceVerifier.getCurrentParameters();
-      expect(parametersHash).to.equal(newParams);
+      let [version, parameters] = await complianceVerifier.getCurrentParameters();
+      expect(version).to.equal(1);
+      expect([...parameters]).to.deep.equal(Object.values(initialParams));
+
+      await time.increaseTo(effectiveFrom);
+      [version, parameters] = await complianceVerifier.getCurrentParameters();
+      expect(version).to.equal(2);
+      expect([...parameters]).to.deep.equal(Object.values(newParams));
+    });
+
+    it("Should keep earlier versions readable", async function () {
+      const { complianceVerifier, admin, initialParams } = await loadFixture(deployComplianceSystemFixture);
+      const effectiveFrom = await time.latest() + 86400;
+
+      await complianceVerifier.connect(admin).updateComplianceParameters(newParams, effectiveFrom);
+
+      const [firstParams] = await complianceVerifier.getParameters(1);
+      expect([...firstParams]).to.deep.equal(Object.values(initialParams));
+      const [secondParams, secondEffectiveFrom] = await complianceVerifier.getParameters(2);
+      expect([...secondParams]).to.deep.equal(Object.values(newParams));
+      expect(secondEffectiveFrom).to.equal(effectiveFrom);
+
+      await expect(complianceVerifier.getParameters(3)).to.be.revertedWith("Version doesn't exist");
     });
 
     it("Should reject invalid compliance parameters", async function () {
       const { complianceVerifier, admin } = await loadFixture(deployComplianceSystemFixture);
 
+      for (const invalid of [
+        { ...newParams, maxDepositMonths: 0n },
+        { ...newParams, maxDepositMonths: 4n }, // above the statutory cap
+        { ...newParams, minRentalDays: 0n },
+        { ...newParams, maxRentalDays: 89n },
+        { ...newParams, noticePeriodDays: 0n }
+      ]) {
+        await expect(
+          complianceVerifier.connect(admin).updateComplianceParameters(invalid, 0)
+        ).to.be.revertedWith("Invalid parameters");
+      }
+    });
+
+    it("Should reject effective dates in the past or before the latest version", async function () {
+      const { complianceVerifier, admin } = await loadFixture(deployComplianceSystemFixture);
+      const now = await time.latest();
+
+      await expect(
+        complianceVerifier.connect(admin).updateComplianceParameters(newParams, now - 1)
+      ).to.be.revertedWith("Invalid effective date");
+
+      await complianceVerifier.connect(admin).updateComplianceParameters(newParams, now + 86400 * 30);
+      await expect(
+        complianceVerifier.connect(admin).updateComplianceParameters(newParams, now + 86400)
+      ).to.be.revertedWith("Invalid effective date");
+    });
+
+    it("Should reject parameter updates from non-admins", async function () {
+      const { complianceVerifier, verifier } = await loadFixture(deployComplianceSystemFixture);
+
       await expect(
-        complianceVerifier.connect(admin).updateComplianceParameters(ethers.ZeroHash)
-      ).to.be.revertedWith("Invalid parameters");
+        complianceVerifier.connect(verifier).updateComplianceParameters(newParams, 0)
+      ).to.be.revertedWith("Not admin");
     });
   });
 
@@ -142,47 +266,398 @@ describe("ComplianceVerifier", function () {
     });
   });
 
+  describe("Oracle Verification", function () {
+    it("Should only let RentalCore and compliance staff run checks", async function () {
+      const { complianceVerifier, accessManager, admin, verifier, landlord, tenant } = await loadFixture(deployComplianceSystemFixture);
+
+      await expect(complianceVerifier.connect(tenant).verifyTenantCompliance(tenant.address))
+        .to.be.revertedWith("Not authorized to verify");
+      await expect(complianceVerifier.connect(landlord).verifyLandlordCompliance(landlord.address))
+        .to.be.revertedWith("Not authorized to verify");
+      await expect(complianceVerifier.connect(landlord).verifyPropertyCompliance(1))
+        .to.be.revertedWith("Not authorized to verify");
+      await expect(complianceVerifier.connect(landlord).verifyAgreementCompliance(1))
+        .to.be.revertedWith("Not authorized to verify");
+
+      await accessManager.connect(admin).assignRole(verifier.address, ethers.keccak256(ethers.toUtf8Bytes("LEGAL_VERIFIER")));
+      await expect(complianceVerifier.connect(verifier).verifyTenantCompliance(tenant.address))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted");
+      await expect(complianceVerifier.connect(admin).verifyTenantCompliance(tenant.address))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted");
+    });
+
+    it("Should fail parties the identity oracle rejects", async function () {
+      const { complianceVerifier, identityOracle, tenant } = await loadFixture(deployComplianceSystemFixture);
+
+      await identityOracle.setData(false, await time.latest());
+
+      await expect(complianceVerifier.verifyTenantCompliance(tenant.address))
+        .to.emit(complianceVerifier, "ComplianceCheckFailed")
+        .withArgs(BigInt(tenant.address), 4, await complianceVerifier.IDENTITY_ORACLE());
+
+      const [passed] = await complianceVerifier.getComplianceStatus(BigInt(tenant.address), 4);
+      expect(passed).to.be.false;
+    });
+
+    it("Should fail checks on stale oracle data", async function () {
+      const { complianceVerifier, landlord } = await loadFixture(deployComplianceSystemFixture);
+
+      await time.increase(31 * 86400);
+
+      const [passed] = await complianceVerifier.verifyLandlordCompliance.staticCall(landlord.address);
+      expect(passed).to.be.false;
+    });
+
+    it("Should fail closed when a required oracle is missing", async function () {
+      const { complianceVerifier, admin, landlord } = await loadFixture(deployComplianceSystemFixture);
+      const backgroundCheck = ethers.keccak256(ethers.toUtf8Bytes("BACKGROUND_CHECK"));
+
+      await expect(complianceVerifier.connect(admin).setRequiredOracles(3, [await complianceVerifier.IDENTITY_ORACLE(), backgroundCheck]))
+        .to.emit(complianceVerifier, "RequiredOraclesUpdated");
+
+      await expect(complianceVerifier.verifyLandlordCompliance(landlord.address))
+        .to.emit(complianceVerifier, "ComplianceCheckFailed")
+        .withArgs(BigInt(landlord.address), 3, backgroundCheck);
+    });
+
+    it("Should fail closed when an oracle has no code", async function () {
+      const { complianceVerifier, admin, tenant } = await loadFixture(deployComplianceSystemFixture);
+      const [,,,,, externallyOwned] = await ethers.getSigners();
+      await complianceVerifier.connect(admin).registerOracle(await complianceVerifier.IDENTITY_ORACLE(), externallyOwned.address);
+
+      await expect(complianceVerifier.verifyTenantCompliance(tenant.address))
+        .to.emit(complianceVerifier, "ComplianceCheckFailed")
+        .withArgs(BigInt(tenant.address), 4, await complianceVerifier.IDENTITY_ORACLE());
+    });
+
+    it("Should fail closed when an oracle returns malformed data", async function () {
+      const { complianceVerifier, admin, tenant } = await loadFixture(deployComplianceSystemFixture);
+      const malformed = await (await ethers.getContractFactory("MalformedComplianceOracle")).deploy();
+      await complianceVerifier.connect(admin).registerOracle(await complianceVerifier.IDENTITY_ORACLE(), await malformed.getAddress());
+
+      await expect(complianceVerifier.verifyTenantCompliance(tenant.address))
+        .to.emit(complianceVerifier, "ComplianceCheckFailed")
+        .withArgs(BigInt(tenant.address), 4, await complianceVerifier.IDENTITY_ORACLE());
+      const [passed] = await complianceVerifier.getComplianceStatus(BigInt(tenant.address), 4);
+      expect(passed).to.be.false;
+    });
+
+    it("Should fold oracle data into the details hash", async function () {
+      const { complianceVerifier, admin, identityOracle, tenant } = await loadFixture(deployComplianceSystemFixture);
+      const replacement = await (await ethers.getContractFactory("MockComplianceOracle"))
+        .deploy(true, ethers.keccak256(ethers.toUtf8Bytes("other_kyc_record")));
+
+      const [, originalHash] = await complianceVerifier.verifyTenantCompliance.staticCall(tenant.address);
+      await complianceVerifier.connect(admin).registerOracle(await complianceVerifier.IDENTITY_ORACLE(), await replacement.getAddress());
+      const [passed, replacedHash] = await complianceVerifier.verifyTenantCompliance.staticCall(tenant.address);
+
+      expect(passed).to.be.true;
+      expect(replacedHash).to.not.equal(originalHash);
+      expect(await complianceVerifier.getOracle(await complianceVerifier.IDENTITY_ORACLE()))
+        .to.equal(await replacement.getAddress());
+      expect(await identityOracle.getAddress()).to.not.equal(await replacement.getAddress());
+    });
+
+    it("Should only let admins change required oracles", async function () {
+      const { complianceVerifier, admin, verifier } = await loadFixture(deployComplianceSystemFixture);
+
+      expect(await complianceVerifier.getRequiredOracles(2)).to.deep.equal([
+        await complianceVerifier.LAND_REGISTRY_ORACLE(),
+        await complianceVerifier.SAFETY_CERTIFICATE_ORACLE()
+      ]);
+      await expect(complianceVerifier.connect(verifier).setRequiredOracles(2, []))
+        .to.be.revertedWith("Not admin");
+      await expect(complianceVerifier.connect(admin).setRequiredOracles(1, []))
+        .to.be.revertedWith("Invalid entity type");
+    });
+  });
+
+  describe("Attestations", function () {
+    const reportHash = ethers.keccak256(ethers.toUtf8Bytes("legal_review_report"));
+    const attestationTypes = {
+      Attestation: [
+        { name: "entityId", type: "uint256" },
+        { name: "entityType", type: "uint8" },
+        { name: "passed", type: "bool" },
+        { name: "detailsHash", type: "bytes32" },
+        { name: "issuedAt", type: "uint256" },
+        { name: "expiresAt", type: "uint256" }
+      ]
+    };
+
+    async function attestationFixture() {
+      const base = await deployComplianceSystemFixture();
+      await base.complianceVerifier.connect(base.admin).authorizeVerifier(base.verifier.address);
+      return base;
+    }
+
+    async function signAttestation(
+      complianceVerifier: ComplianceVerifier,
+      signer: HardhatEthersSigner,
+      attestation: { entityId: bigint; entityType: number; passed: boolean; detailsHash: string; issuedAt: number; expiresAt: number }
+    ) {
+      const domain = {
+        name: "ComplianceVerifier",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: await complianceVerifier.getAddress()
+      };
+      return signer.signTypedData(domain, attestationTypes, attestation);
+    }
+
+    it("Should record attestations submitted by a verifier", async function () {
+      const { complianceVerifier, verifier } = await loadFixture(attestationFixture);
+      const issuedAt = await time.latest();
+      const expiresAt = issuedAt + 90 * 86400;
+
+      await expect(complianceVerifier.connect(verifier).submitAttestation(1, 1, true, reportHash, issuedAt, expiresAt))
+        .to.emit(complianceVerifier, "AttestationSubmitted")
+        .withArgs(1, 1, verifier.address, true, reportHash, expiresAt);
+
+      expect(await complianceVerifier.getAttestation(1, 1))
+        .to.deep.equal([true, reportHash, BigInt(issuedAt), BigInt(expiresAt), verifier.address]);
+    });
+
+    it("Should accept signed attestations relayed by anyone", async function () {
+      const { complianceVerifier, verifier, landlord } = await loadFixture(attestationFixture);
+      const issuedAt = await time.latest();
+      const attestation = { entityId: 7n, entityType: 1, passed: true, detailsHash: reportHash, issuedAt, expiresAt: issuedAt + 86400 };
+      const signature = await signAttestation(complianceVerifier, verifier, attestation);
+
+      await expect(complianceVerifier.connect(landlord).relayAttestation(
+        attestation.entityId,
+        attestation.entityType,
+        attestation.passed,
+        attestation.detailsHash,
+        attestation.issuedAt,
+        attestation.expiresAt,
+        signature
+      ))
+        .to.emit(complianceVerifier, "AttestationSubmitted")
+        .withArgs(7, 1, verifier.address, true, reportHash, attestation.expiresAt);
+    });
+
+    it("Should append attestations to the entity's history", async function () {
+      const { complianceVerifier, verifier, landlord } = await loadFixture(attestationFixture);
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(verifier).submitAttestation(7, 1, false, reportHash, issuedAt, issuedAt + 86400);
+
+      const attestation = { entityId: 7n, entityType: 1, passed: true, detailsHash: reportHash, issuedAt: issuedAt + 1, expiresAt: issuedAt + 86400 };
+      const signature = await signAttestation(complianceVerifier, verifier, attestation);
+      await expect(complianceVerifier.connect(landlord).relayAttestation(
+        attestation.entityId,
+        attestation.entityType,
+        attestation.passed,
+        attestation.detailsHash,
+        attestation.issuedAt,
+        attestation.expiresAt,
+        signature
+      ))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(7, 1, true, reportHash);
+
+      const [passed, , detailsHashes, verifiers, total] = await complianceVerifier.getComplianceHistory(7, 1, 0, 10);
+      expect(total).to.equal(2);
+      expect(passed).to.deep.equal([false, true]);
+      expect(detailsHashes).to.deep.equal([reportHash, reportHash]);
+      expect(verifiers).to.deep.equal([verifier.address, verifier.address]);
+
+      const [, , , , verifierTotal] = await complianceVerifier.getVerifierChecks(verifier.address, 0, 10);
+      expect(verifierTotal).to.equal(2);
+    });
+
+    it("Should reject attestations from unauthorized verifiers", async function () {
+      const { complianceVerifier, landlord } = await loadFixture(attestationFixture);
+      const issuedAt = await time.latest();
+      const attestation = { entityId: 1n, entityType: 1, passed: true, detailsHash: reportHash, issuedAt, expiresAt: issuedAt + 86400 };
+      const signature = await signAttestation(complianceVerifier, landlord, attestation);
+
+      await expect(complianceVerifier.connect(landlord).submitAttestation(1, 1, true, reportHash, issuedAt, issuedAt + 86400))
+        .to.be.revertedWith("Not authorized verifier");
+      await expect(complianceVerifier.relayAttestation(1, 1, true, reportHash, issuedAt, issuedAt + 86400, signature))
+        .to.be.revertedWith("Not authorized verifier");
+    });
+
+    it("Should reject tampered attestations", async function () {
+      const { complianceVerifier, verifier } = await loadFixture(attestationFixture);
+      const issuedAt = await time.latest();
+      const attestation = { entityId: 1n, entityType: 1, passed: false, detailsHash: reportHash, issuedAt, expiresAt: issuedAt + 86400 };
+      const signature = await signAttestation(complianceVerifier, verifier, attestation);
+
+      // Flipping the result recovers a different, unauthorized signer
+      await expect(complianceVerifier.relayAttestation(1, 1, true, reportHash, issuedAt, issuedAt + 86400, signature))
+        .to.be.revertedWith("Not authorized verifier");
+    });
+
+    it("Should reject expired and replayed attestations", async function () {
+      const { complianceVerifier, verifier } = await loadFixture(attestationFixture);
+      const issuedAt = await time.latest();
+      const oldAttestation = { entityId: 1n, entityType: 1, passed: true, detailsHash: reportHash, issuedAt, expiresAt: issuedAt + 30 * 86400 };
+      const oldSignature = await signAttestation(complianceVerifier, verifier, oldAttestation);
+
+      await complianceVerifier.connect(verifier).submitAttestation(1, 1, false, reportHash, issuedAt + 1, issuedAt + 30 * 86400);
+
+      await expect(complianceVerifier.relayAttestation(1, 1, true, reportHash, issuedAt, issuedAt + 30 * 86400, oldSignature))
+        .to.be.revertedWith("Stale attestation");
+      await expect(complianceVerifier.connect(verifier).submitAttestation(2, 1, true, reportHash, issuedAt, issuedAt))
+        .to.be.revertedWith("Attestation expired");
+      await expect(complianceVerifier.connect(verifier).submitAttestation(2, 5, true, reportHash, issuedAt, issuedAt + 86400))
+        .to.be.revertedWith("Invalid entity type");
+    });
+  });
+
   describe("Compliance Verification", function () {
-    it("Should verify contract compliance", async function () {
-      const { complianceVerifier, landlord, tenant } = await loadFixture(deployComplianceSystemFixture);
-      
-      const agreementId = 1n;
-      const [passed, detailsHash] = await complianceVerifier.verifyContractCompliance(agreementId);
+    // Agreement 1 is created on property 2 so agreement and property IDs differ
+    async function agreementFixture() {
+      const base = await deployComplianceSystemFixture();
+      const { rentalCore, accessManager, complianceVerifier, admin, verifier, landlord, tenant } = base;
+
+      await accessManager.grantPermission(landlord.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+      await complianceVerifier.connect(admin).authorizeVerifier(verifier.address);
+      await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("first_property")), 50);
+      await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("second_property")), 50);
+
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        2,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+
+      return { ...base, agreementId: 1n, propertyId: 2n };
+    }
+
+    it("Should verify agreement compliance", async function () {
+      const { complianceVerifier, verifier, agreementId } = await loadFixture(agreementFixture);
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(verifier).submitAttestation(
+        agreementId,
+        1,
+        true,
+        ethers.keccak256(ethers.toUtf8Bytes("legal_review_report")),
+        issuedAt,
+        issuedAt + 86400
+      );
+
+      const [passed, detailsHash] = await complianceVerifier.verifyAgreementCompliance.staticCall(agreementId);
 
       expect(passed).to.be.true;
       expect(detailsHash).to.not.equal(ethers.ZeroHash);
     });
 
+    it("Should attribute agreement checks to the attesting verifier", async function () {
+      const { complianceVerifier, admin, verifier, agreementId } = await loadFixture(agreementFixture);
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(verifier).submitAttestation(
+        agreementId,
+        1,
+        true,
+        ethers.keccak256(ethers.toUtf8Bytes("legal_review_report")),
+        issuedAt,
+        issuedAt + 86400
+      );
+
+      await complianceVerifier.connect(admin).verifyAgreementCompliance(agreementId);
+
+      const [passed, , , verifiers, total] = await complianceVerifier.getComplianceHistory(agreementId, 1, 0, 10);
+      expect(total).to.equal(2);
+      expect(passed).to.deep.equal([true, true]);
+      expect(verifiers).to.deep.equal([verifier.address, verifier.address]);
+      const [entityIds, entityTypes, , , verifierTotal] =
+        await complianceVerifier.getVerifierChecks(verifier.address, 0, 10);
+      expect(verifierTotal).to.equal(2);
+      expect(entityIds).to.deep.equal([agreementId, agreementId]);
+      expect(entityTypes).to.deep.equal([1n, 1n]);
+    });
+
+    it("Should not accept an attestation once its verifier is revoked", async function () {
+      const { complianceVerifier, admin, verifier, agreementId } = await loadFixture(agreementFixture);
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(verifier).submitAttestation(
+        agreementId,
+        1,
+        true,
+        ethers.keccak256(ethers.toUtf8Bytes("legal_review_report")),
+        issuedAt,
+        issuedAt + 86400
+      );
+
+      await complianceVerifier.connect(admin).revokeVerifier(verifier.address);
+
+      const [passed] = await complianceVerifier.verifyAgreementCompliance.staticCall(agreementId);
+      expect(passed).to.be.false;
+      await expect(complianceVerifier.verifyAgreementCompliance(agreementId))
+        .to.emit(complianceVerifier, "ComplianceCheckFailed")
+        .withArgs(agreementId, 1, await complianceVerifier.NO_VALID_ATTESTATION());
+    });
+
+    it("Should check the agreement's property and parties together", async function () {
+      const { complianceVerifier, landlord, tenant, agreementId, propertyId } = await loadFixture(agreementFixture);
+
+      await expect(complianceVerifier.verifyAgreementCompliance(agreementId))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(propertyId, 2, true, anyValue)
+        .and.to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(BigInt(landlord.address), 3, true, anyValue)
+        .and.to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(BigInt(tenant.address), 4, true, anyValue)
+        .and.to.emit(complianceVerifier, "ComplianceCheckFailed")
+        .withArgs(agreementId, 1, await complianceVerifier.NO_VALID_ATTESTATION());
+    });
+
+    it("Should keep agreement and property records apart", async function () {
+      const { complianceVerifier, agreementId } = await loadFixture(agreementFixture);
+
+      // Agreement 1 has no attestation and fails; property 1 passes its oracle checks
+      await complianceVerifier.verifyAgreementCompliance(agreementId);
+      await complianceVerifier.verifyPropertyCompliance(agreementId);
+
+      expect((await complianceVerifier.getComplianceStatus(agreementId, 1)).passed).to.be.false;
+      expect((await complianceVerifier.getComplianceStatus(agreementId, 2)).passed).to.be.true;
+    });
+
+    it("Should verify property compliance for registered properties only", async function () {
+      const { complianceVerifier, propertyId } = await loadFixture(agreementFixture);
+
+      await expect(complianceVerifier.verifyPropertyCompliance(propertyId))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(propertyId, 2, true, anyValue);
+      await expect(complianceVerifier.verifyPropertyCompliance(99))
+        .to.be.revertedWith("Property doesn't exist");
+    });
+
     it("Should verify landlord compliance", async function () {
       const { complianceVerifier, landlord } = await loadFixture(deployComplianceSystemFixture);
       
-      const [passed, detailsHash] = await complianceVerifier.verifyLandlordCompliance(landlord.address);
-
-      expect(passed).to.be.true;
-      expect(detailsHash).to.not.equal(ethers.ZeroHash);
+      await expect(complianceVerifier.verifyLandlordCompliance(landlord.address))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(BigInt(landlord.address), await complianceVerifier.LANDLORD_TYPE(), true, anyValue);
 
       const [statusPassed, , statusHash] = await complianceVerifier.getComplianceStatus(
         BigInt(landlord.address),
         await complianceVerifier.LANDLORD_TYPE()
       );
       expect(statusPassed).to.be.true;
-      expect(statusHash).to.equal(detailsHash);
+      expect(statusHash).to.not.equal(ethers.ZeroHash);
     });
 
     it("Should verify tenant compliance", async function () {
       const { complianceVerifier, tenant } = await loadFixture(deployComplianceSystemFixture);
       
-      const [passed, detailsHash] = await complianceVerifier.verifyTenantCompliance(tenant.address);
-
-      expect(passed).to.be.true;
-      expect(detailsHash).to.not.equal(ethers.ZeroHash);
+      await expect(complianceVerifier.verifyTenantCompliance(tenant.address))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(BigInt(tenant.address), await complianceVerifier.TENANT_TYPE(), true, anyValue);
 
       const [statusPassed, , statusHash] = await complianceVerifier.getComplianceStatus(
         BigInt(tenant.address),
         await complianceVerifier.TENANT_TYPE()
       );
       expect(statusPassed).to.be.true;
-      expect(statusHash).to.equal(detailsHash);
+      expect(statusHash).to.not.equal(ethers.ZeroHash);
     });
 
     it("Should reject compliance check with invalid entity type", async function () {
@@ -205,7 +680,7 @@ describe("ComplianceVerifier", function () {
       );
 
       await expect(
-        newVerifier.verifyContractCompliance(1)
+        newVerifier.verifyAgreementCompliance(1)
       ).to.be.revertedWith("Compliance parameters not set");
     });
   });
@@ -227,5 +702,88 @@ describe("ComplianceVerifier", function () {
       expect(timestamp).to.be.gt(0);
       expect(detailsHash).to.not.equal(ethers.ZeroHash);
     });
+
+    it("Should append every check to the entity's history", async function () {
+      const { complianceVerifier, identityOracle, landlord } = await loadFixture(deployComplianceSystemFixture);
+
+      await complianceVerifier.verifyLandlordCompliance(landlord.address);
+      await identityOracle.setData(false, await time.latest());
+      await complianceVerifier.verifyLandlordCompliance(landlord.address);
+
+      const [passed, timestamps, detailsHashes, verifiers, total] =
+        await complianceVerifier.getComplianceHistory(BigInt(landlord.address), 3, 0, 10);
+      expect(total).to.equal(2);
+      expect(passed).to.deep.equal([true, false]);
+      expect(timestamps[1]).to.be.gt(timestamps[0]);
+      expect(detailsHashes[0]).to.not.equal(ethers.ZeroHash);
+      expect(verifiers).to.deep.equal([ethers.ZeroAddress, ethers.ZeroAddress]);
+
+      const [latestPassed] = await complianceVerifier.getComplianceStatus(BigInt(landlord.address), 3);
+      expect(latestPassed).to.be.false;
+
+      const [pagePassed, , , , pageTotal] = await complianceVerifier.getComplianceHistory(BigInt(landlord.address), 3, 1, 10);
+      expect(pagePassed).to.deep.equal([false]);
+      expect(pageTotal).to.equal(2);
+    });
+
+    it("Should report checks older than the validity period as expired", async function () {
+      const { complianceVerifier, admin, tenant } = await loadFixture(deployComplianceSystemFixture);
+      const validityPeriod = 180 * 86400;
+
+      await expect(complianceVerifier.connect(admin).setValidityPeriod(4, validityPeriod))
+        .to.emit(complianceVerifier, "ValidityPeriodUpdated")
+        .withArgs(4, validityPeriod);
+      await complianceVerifier.verifyTenantCompliance(tenant.address);
+
+      let [passed, , , expired] = await complianceVerifier.getComplianceStatus(BigInt(tenant.address), 4);
+      expect(passed).to.be.true;
+      expect(expired).to.be.false;
+
+      await time.increase(validityPeriod + 1);
+      [passed, , , expired] = await complianceVerifier.getComplianceStatus(BigInt(tenant.address), 4);
+      expect(passed).to.be.false;
+      expect(expired).to.be.true;
+    });
+
+    it("Should only let admins set validity periods", async function () {
+      const { complianceVerifier, admin, verifier } = await loadFixture(deployComplianceSystemFixture);
+
+      await expect(complianceVerifier.connect(verifier).setValidityPeriod(4, 86400))
+        .to.be.revertedWith("Not admin");
+      await expect(complianceVerifier.connect(admin).setValidityPeriod(5, 86400))
+        .to.be.revertedWith("Invalid entity type");
+    });
+
+    it("Should list the attestations recorded for a verifier", async function () {
+      const { complianceVerifier, admin, verifier, landlord, tenant } = await loadFixture(deployComplianceSystemFixture);
+      const reportHash = ethers.keccak256(ethers.toUtf8Bytes("identity_report"));
+      await complianceVerifier.connect(admin).authorizeVerifier(verifier.address);
+
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(verifier).submitAttestation(BigInt(landlord.address), 3, true, reportHash, issuedAt, issuedAt + 86400);
+      await complianceVerifier.connect(verifier).submitAttestation(BigInt(tenant.address), 4, false, reportHash, issuedAt, issuedAt + 86400);
+
+      const [entityIds, entityTypes, passed, timestamps, total] =
+        await complianceVerifier.getVerifierChecks(verifier.address, 0, 10);
+      expect(total).to.equal(2);
+      expect(entityIds).to.deep.equal([BigInt(landlord.address), BigInt(tenant.address)]);
+      expect(entityTypes).to.deep.equal([3n, 4n]);
+      expect(passed).to.deep.equal([true, false]);
+      expect(timestamps[0]).to.be.gt(0);
+    });
+
+    it("Should not count oracle checks as verifier activity", async function () {
+      const { complianceVerifier, accessManager, admin, verifier, landlord, tenant } = await loadFixture(deployComplianceSystemFixture);
+      await complianceVerifier.connect(admin).authorizeVerifier(verifier.address);
+      await accessManager.connect(admin).assignRole(verifier.address, ethers.keccak256(ethers.toUtf8Bytes("LEGAL_VERIFIER")));
+
+      await complianceVerifier.connect(verifier).verifyLandlordCompliance(landlord.address);
+      await complianceVerifier.connect(verifier).verifyTenantCompliance(tenant.address);
+
+      const [, , , , total] = await complianceVerifier.getVerifierChecks(verifier.address, 0, 10);
+      expect(total).to.equal(0);
+      const [, , , verifiers] = await complianceVerifier.getComplianceHistory(BigInt(tenant.address), 4, 0, 10);
+      expect(verifiers).to.deep.equal([ethers.ZeroAddress]);
+    });
   });
 });
\ No newline at end of file
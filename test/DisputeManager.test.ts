@@ -0,0 +1,288 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, takeSnapshot, time, SnapshotRestorer } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { DisputeManager, RentalCore, PaymentManager, AccessControlManager } from "../typechain-types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("DisputeManager", function () {
+  // Restore the chain clock so time moved here does not leak into other test files
+  let snapshot: SnapshotRestorer;
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  const depositAmount = ethers.parseEther("2");
+  const evidenceHash = ethers.keccak256(ethers.toUtf8Bytes("water_damage_photos"));
+  const rulingHash = ethers.keccak256(ethers.toUtf8Bytes("arbitration_ruling"));
+
+  // Test fixtures
+  async function deployDisputeSystemFixture() {
+    const [owner, landlord, tenant, arbitrator, outsider] = await ethers.getSigners();
+
+    // Deploy AccessControlManager
+    const AccessControlManager = await ethers.getContractFactory("AccessControlManager");
+    const accessManager = await AccessControlManager.deploy();
+
+    // Deploy DocumentUtils library linked into RentalCore and DisputeManager
+    const DocumentUtils = await ethers.getContractFactory("DocumentUtils");
+    const documentUtils = await DocumentUtils.deploy();
+    const libraries = { DocumentUtils: await documentUtils.getAddress() };
+
+    // Deploy RentalUtils library linked into PaymentManager and RentalCore
+    const RentalUtils = await ethers.getContractFactory("RentalUtils");
+    const rentalUtils = await RentalUtils.deploy();
+
+    // PaymentManager and ComplianceVerifier reference RentalCore, which is deployed right after them
+    const rentalCoreAddress = ethers.getCreateAddress({
+      from: owner.address,
+      nonce: (await owner.getNonce()) + 2
+    });
+
+    const PaymentManager = await ethers.getContractFactory("PaymentManager", {
+      libraries: { RentalUtils: await rentalUtils.getAddress() }
+    });
+    const paymentManager = await PaymentManager.deploy(rentalCoreAddress, await accessManager.getAddress());
+
+    const ComplianceVerifier = await ethers.getContractFactory("ComplianceVerifier");
+    const complianceVerifier = await ComplianceVerifier.deploy(rentalCoreAddress, await accessManager.getAddress());
+
+    const RentalCore = await ethers.getContractFactory("RentalCore", {
+      libraries: { ...libraries, RentalUtils: await rentalUtils.getAddress() }
+    });
+    const rentalCore = await RentalCore.deploy(
+      await paymentManager.getAddress(),
+      await complianceVerifier.getAddress(),
+      await accessManager.getAddress()
+    );
+
+    // Deploy DisputeManager
+    const DisputeManager = await ethers.getContractFactory("DisputeManager", { libraries });
+    const disputeManager = await DisputeManager.deploy(
+      await rentalCore.getAddress(),
+      await paymentManager.getAddress(),
+      await accessManager.getAddress()
+    );
+
+    // Setup roles and permissions
+    await accessManager.grantPermission(landlord.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+    await rentalCore.setDisputeManager(await disputeManager.getAddress());
+    await paymentManager.setDisputeManager(await disputeManager.getAddress());
+    await accessManager.assignRole(arbitrator.address, await accessManager.LEGAL_VERIFIER());
+    await complianceVerifier.updateComplianceParameters(
+      {
+        maxDepositMonths: 3,
+        minRentalDays: 30,
+        maxRentalDays: 3650,
+        noticePeriodDays: 30,
+        minRentPerSqm: ethers.parseEther("0.01")
+      },
+      0
+    );
+
+    // Passing oracles for every default compliance check
+    const MockComplianceOracle = await ethers.getContractFactory("MockComplianceOracle");
+    for (const oracleType of [
+      await complianceVerifier.LAND_REGISTRY_ORACLE(),
+      await complianceVerifier.SAFETY_CERTIFICATE_ORACLE(),
+      await complianceVerifier.IDENTITY_ORACLE()
+    ]) {
+      const oracle = await MockComplianceOracle.deploy(true, oracleType);
+      await complianceVerifier.registerOracle(oracleType, await oracle.getAddress());
+    }
+
+    return {
+      disputeManager,
+      rentalCore,
+      paymentManager,
+      accessManager,
+      owner,
+      landlord,
+      tenant,
+      arbitrator,
+      outsider
+    };
+  }
+
+  // Helper function to create an active agreement with a paid deposit
+  async function createFundedAgreement(
+    rentalCore: RentalCore,
+    paymentManager: PaymentManager,
+    landlord: HardhatEthersSigner,
+    tenant: HardhatEthersSigner
+  ) {
+    await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("property_data")), 50);
+
+    const startDate = await time.latest() + 86400;
+    await rentalCore.connect(landlord).createAgreement(
+      1,
+      tenant.address,
+      ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+      startDate,
+      startDate + (86400 * 365),
+      ethers.parseEther("1"),
+      depositAmount
+    );
+    await rentalCore.connect(tenant).acceptAgreement(1);
+    await paymentManager.connect(tenant).processDeposit(1, { value: depositAmount });
+
+    return 1n;
+  }
+
+  async function openDisputeFixture() {
+    const base = await deployDisputeSystemFixture();
+    const agreementId = await createFundedAgreement(base.rentalCore, base.paymentManager, base.landlord, base.tenant);
+    await base.disputeManager.connect(base.tenant).openDispute(agreementId, 1, evidenceHash);
+    return { ...base, agreementId, disputeId: 1n };
+  }
+
+  describe("Deployment", function () {
+    it("Should deploy with correct dependencies", async function () {
+      const { disputeManager, rentalCore, paymentManager, accessManager } = await loadFixture(deployDisputeSystemFixture);
+
+      expect(await disputeManager.rentalCore()).to.equal(await rentalCore.getAddress());
+      expect(await disputeManager.paymentManager()).to.equal(await paymentManager.getAddress());
+      expect(await disputeManager.accessManager()).to.equal(await accessManager.getAddress());
+    });
+  });
+
+  describe("Opening Disputes", function () {
+    it("Should let a party open a dispute and mark the agreement disputed", async function () {
+      const { disputeManager, rentalCore, paymentManager, landlord, tenant } = await loadFixture(deployDisputeSystemFixture);
+      const agreementId = await createFundedAgreement(rentalCore, paymentManager, landlord, tenant);
+
+      await expect(disputeManager.connect(tenant).openDispute(agreementId, 1, evidenceHash))
+        .to.emit(disputeManager, "DisputeOpened")
+        .and.to.emit(disputeManager, "EvidenceSubmitted")
+        .withArgs(1, tenant.address, evidenceHash);
+
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(4); // Disputed
+      expect(await disputeManager.getOpenDispute(agreementId)).to.equal(1);
+
+      const dispute = await disputeManager.getDispute(1);
+      expect(dispute.agreementId).to.equal(agreementId);
+      expect(dispute.openedBy).to.equal(tenant.address);
+      expect(dispute.resolved).to.be.false;
+    });
+
+    it("Should reject disputes from non-parties", async function () {
+      const { disputeManager, rentalCore, paymentManager, landlord, tenant, outsider } = await loadFixture(deployDisputeSystemFixture);
+      const agreementId = await createFundedAgreement(rentalCore, paymentManager, landlord, tenant);
+
+      await expect(disputeManager.connect(outsider).openDispute(agreementId, 1, evidenceHash))
+        .to.be.revertedWith("Not agreement party");
+    });
+
+    it("Should allow only one open dispute per agreement", async function () {
+      const { disputeManager, landlord, agreementId } = await loadFixture(openDisputeFixture);
+
+      await expect(disputeManager.connect(landlord).openDispute(agreementId, 2, evidenceHash))
+        .to.be.revertedWith("Dispute already open");
+    });
+  });
+
+  describe("Evidence", function () {
+    it("Should record evidence from both parties", async function () {
+      const { disputeManager, landlord, tenant, disputeId } = await loadFixture(openDisputeFixture);
+      const landlordEvidence = ethers.keccak256(ethers.toUtf8Bytes("inspection_report"));
+
+      await expect(disputeManager.connect(landlord).submitEvidence(disputeId, landlordEvidence))
+        .to.emit(disputeManager, "EvidenceSubmitted")
+        .withArgs(disputeId, landlord.address, landlordEvidence);
+
+      const [submitters, hashes] = await disputeManager.getEvidence(disputeId);
+      expect(submitters).to.deep.equal([tenant.address, landlord.address]);
+      expect(hashes).to.deep.equal([evidenceHash, landlordEvidence]);
+    });
+
+    it("Should reject evidence from non-parties", async function () {
+      const { disputeManager, outsider, disputeId } = await loadFixture(openDisputeFixture);
+
+      await expect(disputeManager.connect(outsider).submitEvidence(disputeId, evidenceHash))
+        .to.be.revertedWith("Not agreement party");
+    });
+  });
+
+  describe("Rulings", function () {
+    it("Should split the deposit and terminate the agreement", async function () {
+      const { disputeManager, rentalCore, paymentManager, arbitrator, landlord, tenant, agreementId, disputeId } =
+        await loadFixture(openDisputeFixture);
+      const landlordAward = ethers.parseEther("0.5");
+      const tenantAward = ethers.parseEther("1.5");
+
+      const tx = disputeManager.connect(arbitrator).resolveDispute(disputeId, landlordAward, tenantAward, true, rulingHash);
+      await expect(tx)
+        .to.emit(disputeManager, "DisputeResolved")
+        .withArgs(disputeId, arbitrator.address, landlordAward, tenantAward, true, rulingHash);
+      await expect(tx).to.changeEtherBalances([landlord, tenant], [landlordAward, tenantAward]);
+
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(2); // Terminated
+      expect(await paymentManager.getDepositBalance(agreementId)).to.equal(0);
+      expect(await disputeManager.getOpenDispute(agreementId)).to.equal(0);
+    });
+
+    it("Should return the agreement to active and keep the remaining deposit escrowed", async function () {
+      const { disputeManager, rentalCore, paymentManager, arbitrator, agreementId, disputeId } =
+        await loadFixture(openDisputeFixture);
+      const landlordAward = ethers.parseEther("0.5");
+
+      await disputeManager.connect(arbitrator).resolveDispute(disputeId, landlordAward, 0, false, rulingHash);
+
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(1); // Active
+      expect(await paymentManager.getDepositBalance(agreementId)).to.equal(depositAmount - landlordAward);
+    });
+
+    it("Should reject rulings from non-arbitrators", async function () {
+      const { disputeManager, landlord, disputeId } = await loadFixture(openDisputeFixture);
+
+      await expect(disputeManager.connect(landlord).resolveDispute(disputeId, depositAmount, 0, true, rulingHash))
+        .to.be.revertedWith("Not legal verifier");
+    });
+
+    it("Should reject awards above the escrowed deposit", async function () {
+      const { disputeManager, arbitrator, disputeId } = await loadFixture(openDisputeFixture);
+
+      await expect(disputeManager.connect(arbitrator).resolveDispute(disputeId, depositAmount, 1, true, rulingHash))
+        .to.be.revertedWith("Awards exceed deposit");
+    });
+
+    it("Should not let a property manager clear a dispute", async function () {
+      const { disputeManager, rentalCore, accessManager, agreementId } = await loadFixture(openDisputeFixture);
+      const [, , , , , manager] = await ethers.getSigners();
+      await accessManager.assignRole(manager.address, await accessManager.PROPERTY_MANAGER());
+      await accessManager.grantPermission(manager.address, ethers.keccak256(ethers.toUtf8Bytes("UPDATE_AGREEMENT")));
+
+      await expect(rentalCore.connect(manager).updateAgreementStatus(agreementId, 1, rulingHash))
+        .to.be.revertedWith("Not dispute manager");
+      await expect(rentalCore.connect(manager).updateAgreementStatus(agreementId, 2, rulingHash))
+        .to.be.revertedWith("Not dispute manager");
+
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(4); // Disputed
+      expect(await disputeManager.getOpenDispute(agreementId)).to.equal(1);
+    });
+
+    it("Should not rule once another dispute manager is registered", async function () {
+      const { disputeManager, rentalCore, arbitrator, outsider, disputeId } = await loadFixture(openDisputeFixture);
+
+      await rentalCore.setDisputeManager(outsider.address);
+
+      await expect(disputeManager.connect(arbitrator).resolveDispute(disputeId, 0, 0, false, rulingHash))
+        .to.be.revertedWith("Not dispute manager");
+    });
+
+    it("Should not resolve a dispute twice", async function () {
+      const { disputeManager, arbitrator, tenant, disputeId } = await loadFixture(openDisputeFixture);
+
+      await disputeManager.connect(arbitrator).resolveDispute(disputeId, 0, 0, false, rulingHash);
+
+      await expect(disputeManager.connect(arbitrator).resolveDispute(disputeId, 0, 0, true, rulingHash))
+        .to.be.revertedWith("Dispute already resolved");
+      await expect(disputeManager.connect(tenant).submitEvidence(disputeId, evidenceHash))
+        .to.be.revertedWith("Dispute already resolved");
+    });
+  });
+});
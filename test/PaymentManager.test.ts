@@ -1,10 +1,22 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
-import { PaymentManager, RentalCore, AccessControlManager } from "../typechain-types";
+import { loadFixture, takeSnapshot, time, SnapshotRestorer } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { PaymentManager, RentalCore, AccessControlManager, MockERC20 } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 describe("PaymentManager", function () {
+  // Restore the chain clock so time moved here does not leak into other test files
+  let snapshot: SnapshotRestorer;
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
   // Test fixtures
   async function deployPaymentSystemFixture() {
     const [owner, landlord, tenant, admin] = await ethers.getSigners();
@@ -13,29 +25,81 @@ describe("PaymentManager", function () {
     const AccessControlManager = await ethers.getContractFactory("AccessControlManager");
     const accessManager = await AccessControlManager.deploy();
 
-    // Deploy RentalCore (mock version for testing)
-    const RentalCore = await ethers.getContractFactory("RentalCore");
-    const rentalCore = await RentalCore.deploy(
-      ethers.ZeroAddress, // We'll update this after PaymentManager deployment
-      ethers.ZeroAddress,
-      await accessManager.getAddress()
-    );
+    // Deploy DocumentUtils library linked into RentalCore
+    const DocumentUtils = await ethers.getContractFactory("DocumentUtils");
+    const documentUtils = await DocumentUtils.deploy();
+
+    // Deploy RentalUtils library linked into PaymentManager and RentalCore
+    const RentalUtils = await ethers.getContractFactory("RentalUtils");
+    const rentalUtils = await RentalUtils.deploy();
+
+    // PaymentManager and ComplianceVerifier reference RentalCore, which is deployed right after them
+    const rentalCoreAddress = ethers.getCreateAddress({
+      from: owner.address,
+      nonce: (await owner.getNonce()) + 2
+    });
 
     // Deploy PaymentManager
-    const PaymentManager = await ethers.getContractFactory("PaymentManager");
-    const paymentManager = await PaymentManager.deploy(
-      await rentalCore.getAddress(),
+    const PaymentManager = await ethers.getContractFactory("PaymentManager", {
+      libraries: { RentalUtils: await rentalUtils.getAddress() }
+    });
+    const paymentManager = await PaymentManager.deploy(rentalCoreAddress, await accessManager.getAddress());
+
+    const ComplianceVerifier = await ethers.getContractFactory("ComplianceVerifier");
+    const complianceVerifier = await ComplianceVerifier.deploy(rentalCoreAddress, await accessManager.getAddress());
+
+    // Deploy RentalCore
+    const RentalCore = await ethers.getContractFactory("RentalCore", {
+      libraries: {
+        DocumentUtils: await documentUtils.getAddress(),
+        RentalUtils: await rentalUtils.getAddress()
+      }
+    });
+    const rentalCore = await RentalCore.deploy(
+      await paymentManager.getAddress(),
+      await complianceVerifier.getAddress(),
       await accessManager.getAddress()
     );
 
+    // Deploy mock PLN stablecoin
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    const plnToken = await MockERC20.deploy("Polish Zloty Stablecoin", "PLNS", 18);
+
     // Setup roles and permissions
-    await accessManager.grantRole(ethers.keccak256(ethers.toUtf8Bytes("SYSTEM_ADMIN")), admin.address);
+    await accessManager.assignRole(admin.address, ethers.keccak256(ethers.toUtf8Bytes("SYSTEM_ADMIN")));
     await accessManager.grantRole(ethers.keccak256(ethers.toUtf8Bytes("PAYMENT_MANAGER")), admin.address);
 
+    // Passing oracles for every default compliance check
+    const MockComplianceOracle = await ethers.getContractFactory("MockComplianceOracle");
+    for (const oracleType of [
+      await complianceVerifier.LAND_REGISTRY_ORACLE(),
+      await complianceVerifier.SAFETY_CERTIFICATE_ORACLE(),
+      await complianceVerifier.IDENTITY_ORACLE()
+    ]) {
+      const oracle = await MockComplianceOracle.deploy(true, oracleType);
+      await complianceVerifier.connect(admin).registerOracle(oracleType, await oracle.getAddress());
+    }
+    await complianceVerifier.connect(admin).updateComplianceParameters(
+      {
+        maxDepositMonths: 3,
+        minRentalDays: 30,
+        maxRentalDays: 3650,
+        noticePeriodDays: 30,
+        minRentPerSqm: ethers.parseEther("0.01")
+      },
+      0
+    );
+
+    // Property 1 is owned by the tenant, who doubles as landlord in most tests
+    await accessManager.grantPermission(tenant.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+    await rentalCore.connect(tenant).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("property_data")), 50);
+
     return {
       paymentManager,
       rentalCore,
+      complianceVerifier,
       accessManager,
+      plnToken,
       owner,
       landlord,
       tenant,
@@ -64,6 +128,7 @@ describe("PaymentManager", function () {
       rentAmount,
       depositAmount
     );
+    await rentalCore.connect(tenant).acceptAgreement(1);
 
     return 1n; // First agreement ID
   }
@@ -79,7 +144,6 @@ describe("PaymentManager", function () {
     it("Should set correct constants", async function () {
       const { paymentManager } = await loadFixture(deployPaymentSystemFixture);
       
-      expect(await paymentManager.LATE_FEE_PERCENTAGE()).to.equal(10);
       expect(await paymentManager.GRACE_PERIOD_DAYS()).to.equal(5);
       expect(await paymentManager.SECONDS_PER_DAY()).to.equal(86400);
     });
@@ -98,9 +162,12 @@ describe("PaymentManager", function () {
         ethers.parseEther("2")
       );
 
+      const paymentTime = await time.latest() + 60;
+      await time.setNextBlockTimestamp(paymentTime);
+
       await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
         .to.emit(paymentManager, "RentPaymentProcessed")
-        .withArgs(agreementId, rentAmount, tenant.address, await time.latest())
+        .withArgs(agreementId, rentAmount, tenant.address, paymentTime)
         .and.to.emit(paymentManager, "PaymentConfirmed")
         .withArgs(agreementId, rentAmount, 0); // 0 = Rent payment type
     });
@@ -123,6 +190,572 @@ describe("PaymentManager", function () {
     });
   });
 
+  describe("Agreement Validity", function () {
+    it("Should accept arrears after the agreement has expired", async function () {
+      const { paymentManager, rentalCore, tenant } = await loadFixture(deployPaymentSystemFixture);
+      const rentAmount = ethers.parseEther("1");
+
+      const agreementId = await createActiveAgreement(
+        rentalCore,
+        tenant,
+        tenant,
+        rentAmount,
+        ethers.parseEther("2")
+      );
+      // Pay all but the last of the twelve installments
+      for (let i = 0; i < 11; i++) {
+        await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+      }
+
+      const agreement = await rentalCore.getAgreementDetails(agreementId);
+      await time.increaseTo(agreement.endDate + 1n);
+      await rentalCore.expireAgreement(agreementId);
+
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
+        .to.emit(paymentManager, "RentPaymentProcessed")
+        .and.to.emit(paymentManager, "LateFeeCharged");
+      const [, lateFees] = await paymentManager.calculateOutstandingRent(agreementId);
+      await expect(paymentManager.connect(tenant).payLateFees(agreementId, { value: lateFees }))
+        .to.emit(paymentManager, "LateFeesPaid");
+
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
+        .to.be.revertedWith("No installments remaining");
+      await expect(paymentManager.connect(tenant).prepayRent(agreementId, rentAmount, { value: rentAmount }))
+        .to.be.revertedWith("Agreement not active");
+    });
+
+    it("Should not take rent on agreements that are not active or expired", async function () {
+      const { paymentManager, rentalCore, tenant } = await loadFixture(deployPaymentSystemFixture);
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(tenant).createAgreement(
+        1,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+
+      await expect(paymentManager.connect(tenant).processRentPayment(1, { value: ethers.parseEther("1") }))
+        .to.be.revertedWith("Agreement not active");
+    });
+  });
+
+  describe("ERC-20 Payments", function () {
+    const rentAmount = ethers.parseEther("3500"); // 3500 PLN
+    const depositAmount = ethers.parseEther("7000");
+
+    // Helper function to create an active agreement settling in the given token
+    async function createTokenAgreement(
+      rentalCore: RentalCore,
+      paymentManager: PaymentManager,
+      tenant: HardhatEthersSigner,
+      token: MockERC20
+    ) {
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(tenant).createAgreement(
+        1,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        rentAmount,
+        depositAmount
+      );
+      await paymentManager.connect(tenant).setPaymentToken(1, await token.getAddress());
+      await rentalCore.connect(tenant).acceptAgreement(1);
+
+      await token.mint(tenant.address, rentAmount + depositAmount);
+      await token.connect(tenant).approve(await paymentManager.getAddress(), rentAmount + depositAmount);
+
+      return 1n;
+    }
+
+    async function tokenAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      await base.paymentManager.connect(base.admin).setSupportedToken(await base.plnToken.getAddress(), true);
+      const agreementId = await createTokenAgreement(base.rentalCore, base.paymentManager, base.tenant, base.plnToken);
+      return { ...base, agreementId };
+    }
+
+    it("Should collect rent in the agreement token", async function () {
+      const { paymentManager, plnToken, tenant, agreementId } = await loadFixture(tokenAgreementFixture);
+
+      expect(await paymentManager.getPaymentToken(agreementId)).to.equal(await plnToken.getAddress());
+
+      const tx = paymentManager.connect(tenant).processRentPayment(agreementId);
+      await expect(tx)
+        .to.emit(paymentManager, "RentPaymentProcessed")
+        .withArgs(agreementId, rentAmount, tenant.address, anyValue);
+      await expect(tx).to.changeTokenBalances(plnToken, [tenant, paymentManager], [-rentAmount, rentAmount]);
+    });
+
+    it("Should reject ETH sent to a token agreement", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(tokenAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
+        .to.be.revertedWith("ETH not accepted");
+    });
+
+    it("Should escrow and return token deposits", async function () {
+      const { paymentManager, rentalCore, plnToken, tenant, agreementId } = await loadFixture(tokenAgreementFixture);
+
+      await paymentManager.connect(tenant).processDeposit(agreementId);
+      expect(await paymentManager.getDepositBalance(agreementId)).to.equal(depositAmount);
+
+      const agreement = await rentalCore.getAgreementDetails(agreementId);
+      await time.increaseTo(agreement.endDate + 1n);
+      await rentalCore.expireAgreement(agreementId);
+      await paymentManager.connect(tenant).requestDepositRelease(agreementId);
+      await time.increase(86400 * 31);
+
+      await expect(paymentManager.settleDeposit(agreementId))
+        .to.changeTokenBalance(plnToken, tenant, depositAmount);
+    });
+
+    it("Should report the token in payment history", async function () {
+      const { paymentManager, plnToken, tenant, agreementId } = await loadFixture(tokenAgreementFixture);
+
+      await paymentManager.connect(tenant).processRentPayment(agreementId);
+
+      const [, amounts, types, tokens] = await paymentManager.getPaymentHistory(agreementId);
+      expect(amounts[0]).to.equal(rentAmount);
+      expect(types[0]).to.equal(0); // Rent payment
+      expect(tokens[0]).to.equal(await plnToken.getAddress());
+    });
+
+    it("Should collect due rent from the tenant's allowance through autopay", async function () {
+      const { paymentManager, rentalCore, plnToken, tenant, admin, agreementId } = await loadFixture(tokenAgreementFixture);
+
+      await paymentManager.connect(tenant).enableAutopay(agreementId, rentAmount);
+      await expect(paymentManager.connect(tenant).fundAutopay(agreementId, { value: 1 }))
+        .to.be.revertedWith("Token agreement");
+
+      const agreement = await rentalCore.getAgreementDetails(agreementId);
+      await time.increaseTo(agreement.startDate);
+
+      await expect(paymentManager.connect(admin).collectDueRent(agreementId))
+        .to.changeTokenBalances(plnToken, [tenant, paymentManager], [-rentAmount, rentAmount]);
+    });
+
+    it("Should reject unsupported tokens", async function () {
+      const { paymentManager, rentalCore, plnToken, tenant } = await loadFixture(deployPaymentSystemFixture);
+
+      await expect(createTokenAgreement(rentalCore, paymentManager, tenant, plnToken))
+        .to.be.revertedWith("Unsupported token");
+    });
+
+    it("Should only let the landlord set the token before activation", async function () {
+      const { paymentManager, rentalCore, plnToken, tenant, admin, agreementId } = await loadFixture(tokenAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).setPaymentToken(agreementId, ethers.ZeroAddress))
+        .to.be.revertedWith("Agreement not pending");
+      await expect(paymentManager.connect(admin).setPaymentToken(agreementId, await plnToken.getAddress()))
+        .to.be.revertedWith("Not landlord");
+    });
+
+    it("Should reject token management by unauthorized users", async function () {
+      const { paymentManager, plnToken, tenant } = await loadFixture(deployPaymentSystemFixture);
+
+      await expect(paymentManager.connect(tenant).setSupportedToken(await plnToken.getAddress(), true))
+        .to.be.revertedWith("Not authorized");
+    });
+  });
+
+  describe("Billing Schedule", function () {
+    const rentAmount = ethers.parseEther("1");
+
+    // Helper function to create an active agreement billed on the given day of month
+    async function createScheduledAgreement(
+      rentalCore: RentalCore,
+      paymentManager: PaymentManager,
+      tenant: HardhatEthersSigner,
+      dueDay: number
+    ) {
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(tenant).createAgreement(
+        1,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        rentAmount,
+        ethers.parseEther("2")
+      );
+      await paymentManager.connect(tenant).setDueDay(1, dueDay);
+      await rentalCore.connect(tenant).acceptAgreement(1);
+
+      return { agreementId: 1n, startDate: BigInt(startDate) };
+    }
+
+    async function scheduledAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      const { agreementId, startDate } = await createScheduledAgreement(base.rentalCore, base.paymentManager, base.tenant, 10);
+      return { ...base, agreementId, startDate };
+    }
+
+    it("Should bill full months from the start date by default", async function () {
+      const { paymentManager, rentalCore, tenant } = await loadFixture(deployPaymentSystemFixture);
+      const agreementId = await createActiveAgreement(rentalCore, tenant, tenant, rentAmount, ethers.parseEther("2"));
+      const agreement = await rentalCore.getAgreementDetails(agreementId);
+
+      const [dueDates, amounts] = await paymentManager.getUpcomingDueDates(agreementId, 3);
+      expect(dueDates[0]).to.equal(agreement.startDate);
+      expect(amounts).to.deep.equal([rentAmount, rentAmount, rentAmount]);
+    });
+
+    it("Should place due dates on the configured day", async function () {
+      const { paymentManager, agreementId, startDate } = await loadFixture(scheduledAgreementFixture);
+
+      expect(await paymentManager.getDueDay(agreementId)).to.equal(10);
+
+      const [dueDates, amounts] = await paymentManager.getUpcomingDueDates(agreementId, 3);
+      expect(dueDates[0]).to.equal(startDate);
+      for (const dueDate of dueDates.slice(1)) {
+        expect(new Date(Number(dueDate) * 1000).getUTCDate()).to.equal(10);
+        expect(dueDate % 86400n).to.equal(0);
+      }
+      expect(amounts[0]).to.be.lte(rentAmount); // Pro-rated first month
+      expect(amounts[1]).to.equal(rentAmount);
+    });
+
+    it("Should stop at the end of the agreement", async function () {
+      const { paymentManager, agreementId } = await loadFixture(scheduledAgreementFixture);
+
+      const [dueDates, amounts] = await paymentManager.getUpcomingDueDates(agreementId, 20);
+      expect(dueDates.length).to.equal(13); // 12 months plus the pro-rated tail
+      expect(amounts[12]).to.be.lt(rentAmount);
+    });
+
+    it("Should charge the pro-rated installment and track the outstanding balance", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(scheduledAgreementFixture);
+      const [dueDates, amounts] = await paymentManager.getUpcomingDueDates(agreementId, 2);
+
+      // Rent for the first month can be paid before the agreement starts
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: amounts[0] }))
+        .to.emit(paymentManager, "RentPaymentProcessed")
+        .withArgs(agreementId, amounts[0], tenant.address, anyValue);
+
+      await time.increaseTo(dueDates[1]);
+      const [outstanding] = await paymentManager.calculateOutstandingRent(agreementId);
+      expect(outstanding).to.equal(amounts[1]);
+
+      const [nextDueDates] = await paymentManager.getUpcomingDueDates(agreementId, 1);
+      expect(nextDueDates[0]).to.equal(dueDates[1]);
+    });
+
+    it("Should bill installments already due at the rent in force before an amendment", async function () {
+      const { paymentManager, rentalCore, accessManager, landlord, tenant } = await loadFixture(deployPaymentSystemFixture);
+      const newRent = ethers.parseEther("1.5");
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      await accessManager.grantPermission(landlord.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+      await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("property_data")), 50);
+      const [propertyId] = await rentalCore.getTotalCounts();
+
+      const startDate = await time.latest() + 86400;
+      const endDate = startDate + (86400 * 365);
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId, tenant.address, terms, startDate, endDate, rentAmount, rentAmount * 2n
+      );
+      const [, agreementId] = await rentalCore.getTotalCounts();
+      await rentalCore.connect(tenant).acceptAgreement(agreementId);
+
+      // Two installments fall due unpaid before the rent increase is confirmed
+      const [dueDates] = await paymentManager.getUpcomingDueDates(agreementId, 3);
+      await time.increaseTo(dueDates[1]);
+      await rentalCore.connect(landlord).proposeAmendment(agreementId, newRent, endDate, terms);
+      const [, , , , amendmentHash] = await rentalCore.getPendingAmendment(agreementId);
+      await rentalCore.connect(tenant).confirmAmendment(agreementId, amendmentHash);
+
+      const [, amounts] = await paymentManager.getUpcomingDueDates(agreementId, 3);
+      expect(amounts).to.deep.equal([rentAmount, rentAmount, newRent]);
+      const [outstanding] = await paymentManager.calculateOutstandingRent(agreementId);
+      expect(outstanding).to.equal(rentAmount * 2n);
+
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
+        .to.emit(paymentManager, "RentPaymentProcessed")
+        .withArgs(agreementId, rentAmount, tenant.address, anyValue);
+    });
+
+    it("Should only let the landlord set the due day before activation", async function () {
+      const { paymentManager, admin, tenant, agreementId } = await loadFixture(scheduledAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).setDueDay(agreementId, 15))
+        .to.be.revertedWith("Agreement not pending");
+      await expect(paymentManager.connect(admin).setDueDay(agreementId, 15))
+        .to.be.revertedWith("Not landlord");
+    });
+
+    it("Should let a delegated property manager configure billing", async function () {
+      const { paymentManager, rentalCore, accessManager, tenant } = await loadFixture(deployPaymentSystemFixture);
+      const [, , , , , manager] = await ethers.getSigners();
+      const processPayment = ethers.keccak256(ethers.toUtf8Bytes("PROCESS_PAYMENT"));
+      await accessManager.assignRole(manager.address, await accessManager.PROPERTY_MANAGER());
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(tenant).createAgreement(
+        1,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        rentAmount,
+        ethers.parseEther("2")
+      );
+
+      await expect(paymentManager.connect(manager).setDueDay(1, 15)).to.be.revertedWith("Not landlord");
+
+      await rentalCore.connect(tenant).delegatePropertyPermission(1, manager.address, processPayment, startDate);
+      await expect(paymentManager.connect(manager).setDueDay(1, 15))
+        .to.emit(paymentManager, "DueDaySet")
+        .withArgs(1, 15);
+    });
+
+    it("Should reject invalid due days", async function () {
+      const { paymentManager, rentalCore, tenant } = await loadFixture(deployPaymentSystemFixture);
+
+      await expect(createScheduledAgreement(rentalCore, paymentManager, tenant, 29))
+        .to.be.revertedWith("Invalid due day");
+    });
+  });
+
+  describe("Overpayments and Credit", function () {
+    const rentAmount = ethers.parseEther("1");
+    const depositAmount = ethers.parseEther("2");
+
+    async function startedAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      const agreementId = await createActiveAgreement(base.rentalCore, base.tenant, base.tenant, rentAmount, depositAmount);
+      const agreement = await base.rentalCore.getAgreementDetails(agreementId);
+      await time.increaseTo(agreement.startDate);
+      return { ...base, agreementId };
+    }
+
+    it("Should credit rent overpayments by default", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount * 3n }))
+        .to.emit(paymentManager, "CreditUpdated")
+        .withArgs(agreementId, rentAmount * 2n)
+        .and.to.emit(paymentManager, "RentPaymentProcessed")
+        .withArgs(agreementId, rentAmount, tenant.address, anyValue);
+
+      const [credit, outstanding] = await paymentManager.getBalanceSummary(agreementId);
+      expect(credit).to.equal(rentAmount * 2n);
+      expect(outstanding).to.equal(0);
+
+      const [, amounts] = await paymentManager.getPaymentHistory(agreementId);
+      expect(amounts[0]).to.equal(rentAmount);
+    });
+
+    it("Should draw later rent from credit", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+
+      await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount * 3n });
+      await time.increase(30 * 86400);
+
+      const tx = paymentManager.connect(tenant).processRentPayment(agreementId);
+      await expect(tx)
+        .to.emit(paymentManager, "CreditUpdated")
+        .withArgs(agreementId, rentAmount);
+      await expect(tx).to.changeEtherBalance(paymentManager, 0);
+
+      const [credit] = await paymentManager.getBalanceSummary(agreementId);
+      expect(credit).to.equal(rentAmount);
+    });
+
+    it("Should refund overpayments when the tenant opts in", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).setOverpaymentRefund(agreementId, true))
+        .to.emit(paymentManager, "OverpaymentRefundSet")
+        .withArgs(agreementId, true);
+      expect(await paymentManager.refundsOverpayments(agreementId)).to.be.true;
+
+      const tx = paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount * 2n });
+      await expect(tx)
+        .to.emit(paymentManager, "OverpaymentRefunded")
+        .withArgs(agreementId, tenant.address, rentAmount);
+      await expect(tx).to.changeEtherBalances([tenant, paymentManager], [-rentAmount, rentAmount]);
+
+      const [credit] = await paymentManager.getBalanceSummary(agreementId);
+      expect(credit).to.equal(0);
+    });
+
+    it("Should not credit deposit overpayments", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).processDeposit(agreementId, { value: depositAmount + rentAmount }))
+        .to.be.revertedWith("Incorrect deposit amount");
+      await expect(paymentManager.connect(tenant).processDeposit(agreementId, { value: depositAmount - 1n }))
+        .to.be.revertedWith("Incorrect deposit amount");
+
+      const [credit] = await paymentManager.getBalanceSummary(agreementId);
+      expect(credit).to.equal(0);
+    });
+
+    it("Should accept explicit prepayments", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).prepayRent(agreementId, rentAmount * 3n, { value: rentAmount * 3n }))
+        .to.emit(paymentManager, "CreditUpdated")
+        .withArgs(agreementId, rentAmount * 3n);
+
+      await expect(paymentManager.connect(tenant).prepayRent(agreementId, rentAmount, { value: rentAmount * 2n }))
+        .to.be.revertedWith("Incorrect ETH amount");
+    });
+
+    it("Should cap prepayments at the rent still owed for the term", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+      await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+
+      const [, amounts] = await paymentManager.getUpcomingDueDates(agreementId, 24);
+      const remaining = amounts.reduce((sum, amount) => sum + amount, 0n);
+      await expect(paymentManager.connect(tenant).prepayRent(agreementId, remaining + 1n, { value: remaining + 1n }))
+        .to.be.revertedWith("Exceeds remaining rent");
+
+      await paymentManager.connect(tenant).prepayRent(agreementId, remaining - rentAmount, { value: remaining - rentAmount });
+      await expect(paymentManager.connect(tenant).prepayRent(agreementId, rentAmount + 1n, { value: rentAmount + 1n }))
+        .to.be.revertedWith("Exceeds remaining rent");
+      await paymentManager.connect(tenant).prepayRent(agreementId, rentAmount, { value: rentAmount });
+    });
+
+    it("Should refund overpayments beyond the rent still owed for the term", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+      const [, amounts] = await paymentManager.getUpcomingDueDates(agreementId, 24);
+      const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+
+      const tx = paymentManager.connect(tenant).processRentPayment(agreementId, { value: total + rentAmount });
+      await expect(tx)
+        .to.emit(paymentManager, "OverpaymentRefunded")
+        .withArgs(agreementId, tenant.address, rentAmount);
+      await expect(tx).to.changeEtherBalance(tenant, -total);
+
+      const [credit] = await paymentManager.getBalanceSummary(agreementId);
+      expect(credit).to.equal(total - amounts[0]);
+    });
+
+    it("Should let the tenant withdraw leftover credit once the agreement has ended", async function () {
+      const { paymentManager, rentalCore, admin, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+      await paymentManager.connect(tenant).prepayRent(agreementId, rentAmount * 2n, { value: rentAmount * 2n });
+
+      await expect(paymentManager.connect(tenant).withdrawCredit(agreementId))
+        .to.be.revertedWith("Agreement not ended");
+
+      const { endDate } = await rentalCore.getAgreementDetails(agreementId);
+      await time.increaseTo(endDate + 1n);
+      await rentalCore.expireAgreement(agreementId);
+
+      await expect(paymentManager.connect(admin).withdrawCredit(agreementId))
+        .to.be.revertedWith("Not tenant");
+      const tx = paymentManager.connect(tenant).withdrawCredit(agreementId);
+      await expect(tx)
+        .to.emit(paymentManager, "CreditWithdrawn")
+        .withArgs(agreementId, tenant.address, rentAmount * 2n)
+        .and.to.emit(paymentManager, "CreditUpdated")
+        .withArgs(agreementId, 0);
+      await expect(tx).to.changeEtherBalances([tenant, paymentManager], [rentAmount * 2n, -rentAmount * 2n]);
+
+      expect(await paymentManager.getWithdrawableBalance(ethers.ZeroAddress)).to.equal(0);
+      await expect(paymentManager.connect(tenant).withdrawCredit(agreementId))
+        .to.be.revertedWith("No credit");
+    });
+
+    it("Should emit when the tenant goes back to crediting overpayments", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(startedAgreementFixture);
+      await paymentManager.connect(tenant).setOverpaymentRefund(agreementId, true);
+
+      await expect(paymentManager.connect(tenant).setOverpaymentRefund(agreementId, false))
+        .to.emit(paymentManager, "OverpaymentRefundSet")
+        .withArgs(agreementId, false);
+      expect(await paymentManager.refundsOverpayments(agreementId)).to.be.false;
+    });
+
+    it("Should only let the tenant choose refunds", async function () {
+      const { paymentManager, admin, agreementId } = await loadFixture(startedAgreementFixture);
+
+      await expect(paymentManager.connect(admin).setOverpaymentRefund(agreementId, true))
+        .to.be.revertedWith("Not tenant");
+    });
+  });
+
+  describe("Autopay", function () {
+    const rentAmount = ethers.parseEther("1");
+
+    async function autopayAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      const agreementId = await createActiveAgreement(base.rentalCore, base.tenant, base.tenant, rentAmount, rentAmount * 2n);
+      const agreement = await base.rentalCore.getAgreementDetails(agreementId);
+      const keeper = (await ethers.getSigners())[4];
+
+      await base.paymentManager.connect(base.tenant).fundAutopay(agreementId, { value: rentAmount * 2n });
+      await base.paymentManager.connect(base.tenant).enableAutopay(agreementId, rentAmount);
+
+      return { ...base, agreementId, keeper, startDate: agreement.startDate };
+    }
+
+    it("Should collect due rent from the prefunded balance", async function () {
+      const { paymentManager, tenant, keeper, agreementId, startDate } = await loadFixture(autopayAgreementFixture);
+
+      await expect(paymentManager.connect(keeper).collectDueRent(agreementId))
+        .to.be.revertedWith("Rent not due");
+
+      await time.increaseTo(startDate);
+      await expect(paymentManager.connect(keeper).collectDueRent(agreementId))
+        .to.emit(paymentManager, "AutopayCollected")
+        .withArgs(agreementId, keeper.address, rentAmount)
+        .and.to.emit(paymentManager, "RentPaymentProcessed")
+        .withArgs(agreementId, rentAmount, tenant.address, anyValue);
+
+      expect(await paymentManager.getAutopay(agreementId)).to.deep.equal([true, rentAmount, rentAmount]);
+      await expect(paymentManager.connect(keeper).collectDueRent(agreementId))
+        .to.be.revertedWith("Rent not due");
+    });
+
+    it("Should respect the tenant's cap and balance", async function () {
+      const { paymentManager, tenant, keeper, agreementId, startDate } = await loadFixture(autopayAgreementFixture);
+      await time.increaseTo(startDate);
+
+      await paymentManager.connect(tenant).enableAutopay(agreementId, rentAmount - 1n);
+      await expect(paymentManager.connect(keeper).collectDueRent(agreementId))
+        .to.be.revertedWith("Exceeds autopay cap");
+
+      await paymentManager.connect(tenant).enableAutopay(agreementId, rentAmount);
+      await paymentManager.connect(keeper).collectDueRent(agreementId);
+      await time.increase(31 * 86400);
+      await paymentManager.connect(keeper).collectDueRent(agreementId);
+      await time.increase(31 * 86400);
+
+      await expect(paymentManager.connect(keeper).collectDueRent(agreementId))
+        .to.be.revertedWith("Insufficient autopay balance");
+    });
+
+    it("Should stop collecting and refund the balance once revoked", async function () {
+      const { paymentManager, tenant, keeper, agreementId, startDate } = await loadFixture(autopayAgreementFixture);
+
+      const tx = paymentManager.connect(tenant).revokeAutopay(agreementId);
+      await expect(tx)
+        .to.emit(paymentManager, "AutopayRevoked")
+        .withArgs(agreementId, rentAmount * 2n);
+      await expect(tx).to.changeEtherBalances([tenant, paymentManager], [rentAmount * 2n, -(rentAmount * 2n)]);
+
+      await time.increaseTo(startDate);
+      await expect(paymentManager.connect(keeper).collectDueRent(agreementId))
+        .to.be.revertedWith("Autopay not enabled");
+    });
+
+    it("Should only let the tenant manage autopay", async function () {
+      const { paymentManager, keeper, agreementId } = await loadFixture(autopayAgreementFixture);
+
+      await expect(paymentManager.connect(keeper).enableAutopay(agreementId, rentAmount))
+        .to.be.revertedWith("Not tenant");
+      await expect(paymentManager.connect(keeper).fundAutopay(agreementId, { value: rentAmount }))
+        .to.be.revertedWith("Not tenant");
+      await expect(paymentManager.connect(keeper).revokeAutopay(agreementId))
+        .to.be.revertedWith("Not tenant");
+    });
+  });
+
   describe("Deposit Management", function () {
     it("Should process security deposit", async function () {
       const { paymentManager, rentalCore, tenant } = await loadFixture(deployPaymentSystemFixture);
@@ -145,9 +778,35 @@ describe("PaymentManager", function () {
       expect(await paymentManager.getDepositBalance(agreementId)).to.equal(depositAmount);
     });
 
-    it("Should release deposit to recipient", async function () {
+    it("Should only let the dispute manager release deposits", async function () {
       const { paymentManager, rentalCore, tenant, admin } = await loadFixture(deployPaymentSystemFixture);
       const depositAmount = ethers.parseEther("2");
+      const agreementId = await createActiveAgreement(rentalCore, tenant, tenant, ethers.parseEther("1"), depositAmount);
+      await paymentManager.connect(tenant).processDeposit(agreementId, { value: depositAmount });
+
+      // Payment managers and system admins cannot move escrowed deposits
+      await expect(paymentManager.connect(admin).releaseDeposit(agreementId, depositAmount, tenant.address))
+        .to.be.revertedWith("Not dispute manager");
+    });
+
+    it("Should only let the system admin register the dispute manager", async function () {
+      const { paymentManager, tenant, admin } = await loadFixture(deployPaymentSystemFixture);
+
+      await expect(paymentManager.connect(tenant).setDisputeManager(tenant.address))
+        .to.be.revertedWith("Not system admin");
+      await expect(paymentManager.connect(admin).setDisputeManager(ethers.ZeroAddress))
+        .to.be.revertedWith("Invalid dispute manager");
+      await expect(paymentManager.connect(admin).setDisputeManager(admin.address))
+        .to.emit(paymentManager, "DisputeManagerSet")
+        .withArgs(admin.address);
+      expect(await paymentManager.disputeManager()).to.equal(admin.address);
+    });
+
+    it("Should keep the deposit locked while the agreement is active", async function () {
+      const { paymentManager, rentalCore, tenant, admin } = await loadFixture(deployPaymentSystemFixture);
+      // An account stands in for the DisputeManager contract
+      await paymentManager.connect(admin).setDisputeManager(admin.address);
+      const depositAmount = ethers.parseEther("2");
       
       const agreementId = await createActiveAgreement(
         rentalCore,
@@ -160,54 +819,563 @@ describe("PaymentManager", function () {
       await paymentManager.connect(tenant).processDeposit(agreementId, { value: depositAmount });
 
       await expect(paymentManager.connect(admin).releaseDeposit(agreementId, depositAmount, tenant.address))
-        .to.emit(paymentManager, "DepositReleased")
-        .withArgs(agreementId, depositAmount, tenant.address)
-        .and.to.changeEtherBalance(tenant, depositAmount);
+        .to.be.revertedWith("Deposit locked");
     });
-  });
 
-  describe("Late Fees", function () {
-    it("Should calculate late fees after grace period", async function () {
+    it("Should reject a second deposit while one is held", async function () {
       const { paymentManager, rentalCore, tenant } = await loadFixture(deployPaymentSystemFixture);
       const rentAmount = ethers.parseEther("1");
-      
-      const agreementId = await createActiveAgreement(
-        rentalCore,
-        tenant,
-        tenant,
+
+      const agreementId = await createActiveAgreement(rentalCore, tenant, tenant, rentAmount, rentAmount * 2n);
+      await paymentManager.connect(tenant).processDeposit(agreementId, { value: rentAmount * 2n });
+
+      await expect(paymentManager.connect(tenant).processDeposit(agreementId, { value: rentAmount * 2n }))
+        .to.be.revertedWith("Deposit already held");
+      expect(await paymentManager.getDepositBalance(agreementId)).to.equal(rentAmount * 2n);
+    });
+  });
+
+  describe("Deposit Escrow", function () {
+    const rentAmount = ethers.parseEther("1");
+    const depositAmount = ethers.parseEther("2");
+    const deduction = ethers.parseEther("0.5");
+    const challengePeriod = 14 * 86400;
+    const filingPeriod = 30 * 86400;
+
+    async function endedAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      const { rentalCore, paymentManager, accessManager, landlord, tenant } = base;
+      const arbitrator = (await ethers.getSigners())[4];
+
+      await accessManager.grantPermission(landlord.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+      await accessManager.assignRole(arbitrator.address, await accessManager.LEGAL_VERIFIER());
+
+      await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("property_data")), 50);
+      const [propertyId] = await rentalCore.getTotalCounts();
+
+      const startDate = await time.latest() + 86400;
+      const endDate = startDate + (86400 * 60);
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        endDate,
         rentAmount,
-        ethers.parseEther("2")
+        depositAmount
       );
+      const [, agreementId] = await rentalCore.getTotalCounts();
+      await rentalCore.connect(tenant).acceptAgreement(agreementId);
+      await paymentManager.connect(tenant).processDeposit(agreementId, { value: depositAmount });
 
-      // Process initial rent payment
-      await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+      await time.increaseTo(endDate + 1);
+      await rentalCore.expireAgreement(agreementId);
+
+      // Inspection report hashed the same way as DocumentUtils.generateInspectionHash
+      const inspectionHash = ethers.solidityPackedKeccak256(
+        ["uint256", "address", "uint256", "uint8", "bytes32", "bytes32"],
+        [propertyId, landlord.address, endDate, 2, ethers.keccak256(ethers.toUtf8Bytes("scratched_floor")), ethers.keccak256("0x")]
+      );
+
+      return { ...base, arbitrator, agreementId, inspectionHash };
+    }
+
+    it("Should pay deductions to the landlord and the rest to the tenant", async function () {
+      const { paymentManager, landlord, tenant, agreementId, inspectionHash } = await loadFixture(endedAgreementFixture);
+
+      await expect(paymentManager.connect(landlord).fileDepositDeductions(agreementId, deduction, inspectionHash))
+        .to.emit(paymentManager, "DepositDeductionsFiled")
+        .withArgs(agreementId, deduction, inspectionHash);
+
+      await expect(paymentManager.settleDeposit(agreementId)).to.be.revertedWith("Challenge period active");
+
+      await time.increase(challengePeriod + 1);
+      const tx = paymentManager.settleDeposit(agreementId);
+      await expect(tx)
+        .to.emit(paymentManager, "DepositSettled")
+        .withArgs(agreementId, deduction, depositAmount - deduction);
+      await expect(tx).to.changeEtherBalances([landlord, tenant], [deduction, depositAmount - deduction]);
+
+      expect(await paymentManager.getDepositBalance(agreementId)).to.equal(0);
+      expect((await paymentManager.getDepositClaim(agreementId)).settled).to.be.true;
+    });
+
+    it("Should let a legal verifier resolve a challenge", async function () {
+      const { paymentManager, landlord, tenant, arbitrator, agreementId, inspectionHash } =
+        await loadFixture(endedAgreementFixture);
+      const evidenceHash = ethers.keccak256(ethers.toUtf8Bytes("move_in_photos"));
+
+      await paymentManager.connect(landlord).fileDepositDeductions(agreementId, deduction, inspectionHash);
+      await expect(paymentManager.connect(tenant).challengeDepositDeductions(agreementId, evidenceHash))
+        .to.emit(paymentManager, "DepositDeductionsChallenged")
+        .withArgs(agreementId, evidenceHash);
+
+      await time.increase(challengePeriod + 1);
+      await expect(paymentManager.settleDeposit(agreementId)).to.be.revertedWith("Deductions challenged");
+      await expect(paymentManager.connect(landlord).resolveDepositChallenge(agreementId, 0))
+        .to.be.revertedWith("Not legal verifier");
+
+      const approved = deduction / 2n;
+      const tx = paymentManager.connect(arbitrator).resolveDepositChallenge(agreementId, approved);
+      await expect(tx)
+        .to.emit(paymentManager, "DepositChallengeResolved")
+        .withArgs(agreementId, approved, arbitrator.address);
+      await expect(tx).to.changeEtherBalances([landlord, tenant], [approved, depositAmount - approved]);
+    });
+
+    it("Should return the full deposit when the landlord files nothing", async function () {
+      const { paymentManager, landlord, tenant, agreementId, inspectionHash } = await loadFixture(endedAgreementFixture);
+
+      await expect(paymentManager.settleDeposit(agreementId)).to.be.revertedWith("Release not requested");
+
+      await paymentManager.connect(tenant).requestDepositRelease(agreementId);
+      await expect(paymentManager.settleDeposit(agreementId)).to.be.revertedWith("Filing period active");
+
+      await time.increase(filingPeriod + 1);
+      await expect(paymentManager.connect(landlord).fileDepositDeductions(agreementId, deduction, inspectionHash))
+        .to.be.revertedWith("Filing period over");
+      await expect(paymentManager.settleDeposit(agreementId))
+        .to.changeEtherBalance(tenant, depositAmount);
+    });
+
+    it("Should reject challenges after the challenge period", async function () {
+      const { paymentManager, landlord, tenant, agreementId, inspectionHash } = await loadFixture(endedAgreementFixture);
+
+      await paymentManager.connect(landlord).fileDepositDeductions(agreementId, deduction, inspectionHash);
+      await time.increase(challengePeriod + 1);
+
+      await expect(paymentManager.connect(tenant).challengeDepositDeductions(agreementId, inspectionHash))
+        .to.be.revertedWith("Challenge period over");
+    });
+
+    it("Should only accept deductions from the landlord after the agreement ends", async function () {
+      const { paymentManager, tenant, agreementId, inspectionHash } = await loadFixture(endedAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).fileDepositDeductions(agreementId, deduction, inspectionHash))
+        .to.be.revertedWith("Not landlord");
+    });
+
+    it("Should reject deductions above the deposit", async function () {
+      const { paymentManager, landlord, agreementId, inspectionHash } = await loadFixture(endedAgreementFixture);
+
+      await expect(paymentManager.connect(landlord).fileDepositDeductions(agreementId, depositAmount + 1n, inspectionHash))
+        .to.be.revertedWith("Insufficient deposit balance");
+    });
+  });
+
+  describe("Late Fees", function () {
+    const rentAmount = ethers.parseEther("1000");
 
-      // Move time forward past grace period
-      await time.increase(86400 * 6); // 6 days
+    // Statutory interest: 11.85% a year, charged per day late
+    function statutoryFee(amount: bigint, daysLate: bigint) {
+      return (amount * 1185n * daysLate) / 3650000n;
+    }
+
+    async function overdueAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      const agreementId = await createActiveAgreement(base.rentalCore, base.tenant, base.tenant, rentAmount, rentAmount * 2n);
+      const agreement = await base.rentalCore.getAgreementDetails(agreementId);
+      return { ...base, agreementId, startDate: agreement.startDate };
+    }
+
+    it("Should calculate late fees after grace period", async function () {
+      const { paymentManager, agreementId, startDate } = await loadFixture(overdueAgreementFixture);
+
+      // First installment falls due on the start date
+      await time.increaseTo(startDate + 86400n * 10n);
 
       const [, lateFees] = await paymentManager.calculateOutstandingRent(agreementId);
-      expect(lateFees).to.equal(rentAmount * 10n / 100n); // 10% late fee
+      expect(lateFees).to.equal(statutoryFee(rentAmount, 10n));
     });
 
     it("Should not charge late fees within grace period", async function () {
-      const { paymentManager, rentalCore, tenant } = await loadFixture(deployPaymentSystemFixture);
-      const rentAmount = ethers.parseEther("1");
-      
-      const agreementId = await createActiveAgreement(
-        rentalCore,
-        tenant,
-        tenant,
-        rentAmount,
-        ethers.parseEther("2")
+      const { paymentManager, agreementId, startDate } = await loadFixture(overdueAgreementFixture);
+
+      await time.increaseTo(startDate + 86400n * 4n);
+
+      const [, lateFees] = await paymentManager.calculateOutstandingRent(agreementId);
+      expect(lateFees).to.equal(0);
+    });
+
+    it("Should accrue fees per overdue installment", async function () {
+      const { paymentManager, agreementId, startDate } = await loadFixture(overdueAgreementFixture);
+      const [dueDates] = await paymentManager.getUpcomingDueDates(agreementId, 2);
+
+      // Both installments are past the grace period, each accruing from its own due date
+      const now = dueDates[1] + 86400n * 10n;
+      await time.increaseTo(now);
+
+      const [, lateFees] = await paymentManager.calculateOutstandingRent(agreementId);
+      expect(lateFees).to.equal(
+        statutoryFee(rentAmount, (now - startDate) / 86400n) + statutoryFee(rentAmount, 10n)
       );
+    });
 
-      await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+    it("Should keep accruing fees on an assessed installment until it is paid", async function () {
+      const { paymentManager, admin, agreementId, startDate } = await loadFixture(overdueAgreementFixture);
+
+      await time.setNextBlockTimestamp(startDate + 86400n * 10n);
+      await expect(paymentManager.connect(admin).handleLateFees(agreementId))
+        .to.emit(paymentManager, "LateFeeCharged")
+        .withArgs(agreementId, statutoryFee(rentAmount, 10n));
+
+      // A second assessment charges only the interest accrued since the first
+      await time.setNextBlockTimestamp(startDate + 86400n * 20n);
+      await expect(paymentManager.connect(admin).handleLateFees(agreementId))
+        .to.emit(paymentManager, "LateFeeCharged")
+        .withArgs(agreementId, statutoryFee(rentAmount, 20n) - statutoryFee(rentAmount, 10n));
+
+      const [, lateFees] = await paymentManager.calculateOutstandingRent(agreementId);
+      expect(lateFees).to.equal(statutoryFee(rentAmount, 20n));
+
+      await expect(paymentManager.connect(admin).handleLateFees(agreementId))
+        .not.to.emit(paymentManager, "LateFeeCharged");
+    });
+
+    it("Should charge the fee accrued since the last assessment when the installment is paid", async function () {
+      const { paymentManager, admin, tenant, agreementId, startDate } = await loadFixture(overdueAgreementFixture);
+      await time.setNextBlockTimestamp(startDate + 86400n * 10n);
+      await paymentManager.connect(admin).handleLateFees(agreementId);
+
+      await time.setNextBlockTimestamp(startDate + 86400n * 15n);
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
+        .to.emit(paymentManager, "LateFeeCharged")
+        .withArgs(agreementId, statutoryFee(rentAmount, 15n) - statutoryFee(rentAmount, 10n));
+
+      // Interest stops once the installment is paid
+      await time.increase(86400 * 10);
+      const [, lateFees] = await paymentManager.calculateOutstandingRent(agreementId);
+      expect(lateFees).to.equal(statutoryFee(rentAmount, 15n));
+    });
+
+    it("Should charge the late fee when a late installment is paid", async function () {
+      const { paymentManager, tenant, agreementId, startDate } = await loadFixture(overdueAgreementFixture);
+      await time.increaseTo(startDate + 86400n * 10n);
+
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
+        .to.emit(paymentManager, "LateFeeCharged")
+        .withArgs(agreementId, statutoryFee(rentAmount, 10n));
+    });
+
+    it("Should not charge late fees on installments covered by prepaid credit", async function () {
+      const { paymentManager, admin, tenant, agreementId } = await loadFixture(overdueAgreementFixture);
+      await paymentManager.connect(tenant).prepayRent(agreementId, rentAmount * 2n, { value: rentAmount * 2n });
+      const [dueDates] = await paymentManager.getUpcomingDueDates(agreementId, 2);
 
-      // Move time forward within grace period
-      await time.increase(86400 * 4); // 4 days
+      await time.increaseTo(dueDates[1] + 86400n * 10n);
 
       const [, lateFees] = await paymentManager.calculateOutstandingRent(agreementId);
       expect(lateFees).to.equal(0);
+      await expect(paymentManager.connect(admin).handleLateFees(agreementId))
+        .not.to.emit(paymentManager, "LateFeeCharged");
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId))
+        .to.emit(paymentManager, "RentPaymentProcessed")
+        .and.not.to.emit(paymentManager, "LateFeeCharged");
+    });
+
+    it("Should not take credit while rent is overdue", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(overdueAgreementFixture);
+      const [dueDates] = await paymentManager.getUpcomingDueDates(agreementId, 2);
+      await time.increaseTo(dueDates[1] + 86400n * 10n);
+
+      await expect(paymentManager.connect(tenant).prepayRent(agreementId, rentAmount, { value: rentAmount }))
+        .to.be.revertedWith("Rent overdue");
+
+      // The second installment is overdue too, so the excess cannot credit it
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount * 2n }))
+        .to.emit(paymentManager, "OverpaymentRefunded")
+        .withArgs(agreementId, tenant.address, rentAmount);
+      const [credit] = await paymentManager.getBalanceSummary(agreementId);
+      expect(credit).to.equal(0);
+    });
+
+    it("Should accept late fee payments", async function () {
+      const { paymentManager, tenant, agreementId, startDate } = await loadFixture(overdueAgreementFixture);
+      await time.increaseTo(startDate + 86400n * 10n);
+      await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+      const fee = statutoryFee(rentAmount, 10n);
+
+      await expect(paymentManager.connect(tenant).payLateFees(agreementId, { value: fee }))
+        .to.emit(paymentManager, "LateFeesPaid")
+        .withArgs(agreementId, fee, tenant.address)
+        .and.to.emit(paymentManager, "PaymentConfirmed")
+        .withArgs(agreementId, fee, 2); // 2 = Late fee payment type
+
+      const [, amounts, types] = await paymentManager.getPaymentHistory(agreementId);
+      expect(amounts[1]).to.equal(fee);
+      expect(types[1]).to.equal(2);
+
+      await expect(paymentManager.connect(tenant).payLateFees(agreementId, { value: fee }))
+        .to.be.revertedWith("No late fees due");
+    });
+
+    it("Should reject late fee handling by unauthorized users", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(overdueAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).handleLateFees(agreementId))
+        .to.be.revertedWith("Not authorized");
+    });
+  });
+
+  describe("Landlord Earnings", function () {
+    const rentAmount = ethers.parseEther("1");
+    const platformFeeBps = 100n; // 1%
+    const brokerFeeBps = 500n; // 5%
+
+    async function brokeredAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      const { rentalCore, paymentManager, accessManager, landlord, tenant, admin } = base;
+      const [, , , , broker, platform] = await ethers.getSigners();
+
+      await accessManager.grantPermission(landlord.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+      await accessManager.assignRole(broker.address, await accessManager.BROKER());
+      await paymentManager.connect(admin).setPlatformFee(platform.address, platformFeeBps);
+
+      await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("property_data")), 50);
+      const [propertyId] = await rentalCore.getTotalCounts();
+
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        rentAmount,
+        rentAmount * 2n
+      );
+      const [, agreementId] = await rentalCore.getTotalCounts();
+      await paymentManager.connect(landlord).setAgreementBroker(agreementId, broker.address, brokerFeeBps);
+      await rentalCore.connect(tenant).acceptAgreement(agreementId);
+      await time.increaseTo(startDate);
+
+      return { ...base, broker, platform, agreementId };
+    }
+
+    it("Should split rent between landlord, broker and platform", async function () {
+      const { paymentManager, landlord, tenant, broker, platform, agreementId } = await loadFixture(brokeredAgreementFixture);
+      const platformFee = (rentAmount * platformFeeBps) / 10000n;
+      const brokerFee = (rentAmount * brokerFeeBps) / 10000n;
+      const landlordShare = rentAmount - platformFee - brokerFee;
+
+      await expect(paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount }))
+        .to.emit(paymentManager, "EarningsAccrued")
+        .withArgs(agreementId, platform.address, ethers.ZeroAddress, platformFee)
+        .and.to.emit(paymentManager, "EarningsAccrued")
+        .withArgs(agreementId, broker.address, ethers.ZeroAddress, brokerFee)
+        .and.to.emit(paymentManager, "EarningsAccrued")
+        .withArgs(agreementId, landlord.address, ethers.ZeroAddress, landlordShare);
+
+      expect(await paymentManager.getEarnings(landlord.address, ethers.ZeroAddress)).to.equal(landlordShare);
+      expect(await paymentManager.getEarnings(broker.address, ethers.ZeroAddress)).to.equal(brokerFee);
+      expect(await paymentManager.getEarnings(platform.address, ethers.ZeroAddress)).to.equal(platformFee);
+      expect(await paymentManager.getWithdrawableBalance(ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("Should let each party withdraw its earnings", async function () {
+      const { paymentManager, landlord, tenant, broker, agreementId } = await loadFixture(brokeredAgreementFixture);
+      const brokerFee = (rentAmount * brokerFeeBps) / 10000n;
+
+      await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+      const landlordShare = await paymentManager.getEarnings(landlord.address, ethers.ZeroAddress);
+
+      const tx = paymentManager.connect(landlord).withdrawEarnings(ethers.ZeroAddress);
+      await expect(tx)
+        .to.emit(paymentManager, "EarningsWithdrawn")
+        .withArgs(landlord.address, ethers.ZeroAddress, landlordShare);
+      await expect(tx).to.changeEtherBalances([landlord, paymentManager], [landlordShare, -landlordShare]);
+
+      await expect(paymentManager.connect(broker).withdrawEarnings(ethers.ZeroAddress))
+        .to.changeEtherBalance(broker, brokerFee);
+      await expect(paymentManager.connect(landlord).withdrawEarnings(ethers.ZeroAddress))
+        .to.be.revertedWith("No earnings");
+    });
+
+    it("Should forward the landlord share when auto-forward is enabled", async function () {
+      const { paymentManager, landlord, tenant, agreementId } = await loadFixture(brokeredAgreementFixture);
+      const landlordShare = rentAmount - (rentAmount * (platformFeeBps + brokerFeeBps)) / 10000n;
+
+      await expect(paymentManager.connect(landlord).setAutoForward(agreementId, true))
+        .to.emit(paymentManager, "AutoForwardSet")
+        .withArgs(agreementId, true);
+
+      const tx = paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+      await expect(tx)
+        .to.emit(paymentManager, "EarningsWithdrawn")
+        .withArgs(landlord.address, ethers.ZeroAddress, landlordShare);
+      await expect(tx).to.changeEtherBalance(landlord, landlordShare);
+
+      expect(await paymentManager.getEarnings(landlord.address, ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("Should only attach registered brokers while the agreement is pending", async function () {
+      const { paymentManager, tenant, landlord, broker, agreementId } = await loadFixture(brokeredAgreementFixture);
+
+      expect(await paymentManager.getAgreementBroker(agreementId)).to.deep.equal([broker.address, brokerFeeBps]);
+      await expect(paymentManager.connect(landlord).setAgreementBroker(agreementId, broker.address, brokerFeeBps))
+        .to.be.revertedWith("Agreement not pending");
+      await expect(paymentManager.connect(tenant).setAutoForward(agreementId, true))
+        .to.be.revertedWith("Not landlord");
+    });
+
+    it("Should let a delegated property manager attach a broker", async function () {
+      const { paymentManager, rentalCore, accessManager, landlord, tenant, broker } = await loadFixture(brokeredAgreementFixture);
+      const [, , , , , , manager] = await ethers.getSigners();
+      await accessManager.assignRole(manager.address, await accessManager.PROPERTY_MANAGER());
+      const [propertyId] = await rentalCore.getTotalCounts();
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        rentAmount,
+        rentAmount * 2n
+      );
+      const [, agreementId] = await rentalCore.getTotalCounts();
+
+      await expect(paymentManager.connect(manager).setAgreementBroker(agreementId, broker.address, brokerFeeBps))
+        .to.be.revertedWith("Not landlord");
+
+      await rentalCore.connect(landlord).delegatePropertyPermission(
+        propertyId,
+        manager.address,
+        ethers.keccak256(ethers.toUtf8Bytes("PROCESS_PAYMENT")),
+        startDate
+      );
+      await expect(paymentManager.connect(manager).setAgreementBroker(agreementId, broker.address, brokerFeeBps))
+        .to.emit(paymentManager, "AgreementBrokerSet")
+        .withArgs(agreementId, broker.address, brokerFeeBps);
+    });
+
+    it("Should reject unregistered brokers and excessive fees", async function () {
+      const { paymentManager, rentalCore, landlord, tenant, admin, broker } = await loadFixture(brokeredAgreementFixture);
+      const [propertyId] = await rentalCore.getTotalCounts();
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        rentAmount,
+        rentAmount * 2n
+      );
+      const [, agreementId] = await rentalCore.getTotalCounts();
+
+      await expect(paymentManager.connect(landlord).setAgreementBroker(agreementId, tenant.address, brokerFeeBps))
+        .to.be.revertedWith("Not a broker");
+      await expect(paymentManager.connect(landlord).setAgreementBroker(agreementId, broker.address, 1001))
+        .to.be.revertedWith("Invalid broker fee");
+      await expect(paymentManager.connect(admin).setPlatformFee(admin.address, 501))
+        .to.be.revertedWith("Invalid platform fee");
+      await expect(paymentManager.connect(landlord).setPlatformFee(landlord.address, 100))
+        .to.be.revertedWith("Not system admin");
+    });
+  });
+
+  describe("Termination Penalties", function () {
+    const rentAmount = ethers.parseEther("1");
+    const penaltyAmount = rentAmount * 2n; // Two months of rent with more than six months left
+
+    async function activeAgreementFixture() {
+      const base = await deployPaymentSystemFixture();
+      const { rentalCore, paymentManager, complianceVerifier, accessManager, landlord, tenant, admin } = base;
+
+      await accessManager.grantPermission(landlord.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+      await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("property_data")), 50);
+      const [propertyId] = await rentalCore.getTotalCounts();
+
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        rentAmount,
+        rentAmount
+      );
+      const [, agreementId] = await rentalCore.getTotalCounts();
+      await rentalCore.connect(tenant).acceptAgreement(agreementId);
+      await paymentManager.connect(tenant).processDeposit(agreementId, { value: rentAmount });
+      await time.increaseTo(startDate);
+
+      // Notice requires a current legal review of the agreement
+      await complianceVerifier.connect(admin).authorizeVerifier(admin.address);
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(admin).submitAttestation(
+        agreementId,
+        1, // Agreement
+        true,
+        ethers.keccak256(ethers.toUtf8Bytes("termination_review")),
+        issuedAt,
+        issuedAt + 86400 * 30
+      );
+
+      return { ...base, agreementId };
+    }
+
+    async function terminate(rentalCore: RentalCore, party: HardhatEthersSigner, agreementId: bigint) {
+      await rentalCore.connect(party).terminateAgreement(agreementId);
+      const [, effectiveDate] = await rentalCore.getTerminationNotice(agreementId);
+      await time.increaseTo(effectiveDate);
+      return rentalCore.finalizeTermination(agreementId);
+    }
+
+    it("Should take a tenant's penalty from the deposit and collect the rest", async function () {
+      const { rentalCore, paymentManager, landlord, tenant, agreementId } = await loadFixture(activeAgreementFixture);
+
+      await expect(terminate(rentalCore, tenant, agreementId))
+        .to.emit(paymentManager, "TerminationPenaltyCharged")
+        .withArgs(agreementId, tenant.address, penaltyAmount, rentAmount);
+
+      expect(await paymentManager.getDepositBalance(agreementId)).to.equal(0);
+      expect(await paymentManager.getEarnings(landlord.address, ethers.ZeroAddress)).to.equal(rentAmount);
+      expect(await paymentManager.getTerminationPenalty(agreementId))
+        .to.deep.equal([tenant.address, penaltyAmount, penaltyAmount - rentAmount]);
+
+      const payment = ethers.parseEther("1.5");
+      const tx = paymentManager.connect(tenant).payTerminationPenalty(agreementId, { value: payment });
+      await expect(tx)
+        .to.emit(paymentManager, "TerminationPenaltyPaid")
+        .withArgs(agreementId, tenant.address, penaltyAmount - rentAmount);
+      await expect(tx).to.changeEtherBalance(tenant, -(penaltyAmount - rentAmount));
+
+      expect(await paymentManager.getEarnings(landlord.address, ethers.ZeroAddress)).to.equal(penaltyAmount);
+      expect((await paymentManager.getTerminationPenalty(agreementId)).outstanding).to.equal(0);
+      await expect(paymentManager.connect(tenant).payTerminationPenalty(agreementId, { value: rentAmount }))
+        .to.be.revertedWith("No penalty due");
+    });
+
+    it("Should leave a landlord's penalty outstanding and credit the tenant once paid", async function () {
+      const { rentalCore, paymentManager, landlord, tenant, agreementId } = await loadFixture(activeAgreementFixture);
+      await paymentManager.connect(tenant).processRentPayment(agreementId, { value: rentAmount });
+
+      // Earnings are pooled across the landlord's agreements, so they are never taken
+      await expect(terminate(rentalCore, landlord, agreementId))
+        .to.emit(paymentManager, "TerminationPenaltyCharged")
+        .withArgs(agreementId, landlord.address, penaltyAmount, 0);
+      expect(await paymentManager.getEarnings(landlord.address, ethers.ZeroAddress)).to.equal(rentAmount);
+      expect(await paymentManager.getTerminationPenalty(agreementId))
+        .to.deep.equal([landlord.address, penaltyAmount, penaltyAmount]);
+
+      await expect(paymentManager.connect(landlord).payTerminationPenalty(agreementId, { value: penaltyAmount }))
+        .to.emit(paymentManager, "TerminationPenaltyPaid")
+        .withArgs(agreementId, landlord.address, penaltyAmount);
+
+      expect(await paymentManager.getEarnings(tenant.address, ethers.ZeroAddress)).to.equal(penaltyAmount);
+      expect(await paymentManager.getDepositBalance(agreementId)).to.equal(rentAmount);
+    });
+
+    it("Should only let RentalCore charge penalties", async function () {
+      const { paymentManager, tenant, agreementId } = await loadFixture(activeAgreementFixture);
+
+      await expect(paymentManager.connect(tenant).chargeTerminationPenalty(agreementId, tenant.address, penaltyAmount))
+        .to.be.revertedWith("Not rental core");
+      await expect(paymentManager.connect(tenant).payTerminationPenalty(agreementId, { value: penaltyAmount }))
+        .to.be.revertedWith("No penalty due");
     });
   });
 
@@ -239,31 +1407,145 @@ describe("PaymentManager", function () {
   });
 
   describe("Emergency Controls", function () {
-    it("Should allow emergency withdrawal by admin", async function () {
-      const { paymentManager, rentalCore, tenant, admin } = await loadFixture(deployPaymentSystemFixture);
+    const timelock = 2 * 86400;
+
+    // Funds sent straight to the contract are not owed to anyone
+    async function strayFundsFixture() {
+      const base = await deployPaymentSystemFixture();
+      const strayAmount = ethers.parseEther("1");
+      await base.owner.sendTransaction({ to: await base.paymentManager.getAddress(), value: strayAmount });
+      return { ...base, strayAmount };
+    }
+
+    it("Should withdraw stray funds after approvals and the timelock", async function () {
+      const { paymentManager, owner, admin, strayAmount } = await loadFixture(strayFundsFixture);
+
+      await expect(paymentManager.connect(admin).proposeEmergencyWithdrawal(ethers.ZeroAddress, strayAmount, admin.address))
+        .to.emit(paymentManager, "EmergencyWithdrawalProposed")
+        .withArgs(1, admin.address, ethers.ZeroAddress, strayAmount, admin.address, anyValue);
+
+      await expect(paymentManager.connect(admin).executeEmergencyWithdrawal(1))
+        .to.be.revertedWith("Not enough approvals");
+
+      await expect(paymentManager.connect(owner).approveEmergencyWithdrawal(1))
+        .to.emit(paymentManager, "EmergencyWithdrawalApproved")
+        .withArgs(1, owner.address, 2);
+
+      await expect(paymentManager.connect(admin).executeEmergencyWithdrawal(1))
+        .to.be.revertedWith("Timelock active");
+
+      await time.increase(timelock);
+      const tx = paymentManager.connect(admin).executeEmergencyWithdrawal(1);
+      await expect(tx)
+        .to.emit(paymentManager, "EmergencyWithdrawalExecuted")
+        .withArgs(1, admin.address, ethers.ZeroAddress, strayAmount, admin.address);
+      await expect(tx).to.changeEtherBalance(admin, strayAmount);
+    });
+
+    it("Should not withdraw funds owed as deposits or rent", async function () {
+      const { paymentManager, rentalCore, owner, tenant, admin, strayAmount } = await loadFixture(strayFundsFixture);
       const amount = ethers.parseEther("1");
-      
-      const agreementId = await createActiveAgreement(
-        rentalCore,
-        tenant,
-        tenant,
-        amount,
-        amount
-      );
 
-      // Add some funds to contract
+      const agreementId = await createActiveAgreement(rentalCore, tenant, tenant, amount, amount);
       await paymentManager.connect(tenant).processRentPayment(agreementId, { value: amount });
+      await paymentManager.connect(tenant).processDeposit(agreementId, { value: amount });
+
+      expect(await paymentManager.getWithdrawableBalance(ethers.ZeroAddress)).to.equal(strayAmount);
+
+      await paymentManager.connect(admin).proposeEmergencyWithdrawal(ethers.ZeroAddress, strayAmount + 1n, admin.address);
+      await paymentManager.connect(owner).approveEmergencyWithdrawal(1);
+      await time.increase(timelock);
+
+      await expect(paymentManager.connect(admin).executeEmergencyWithdrawal(1))
+        .to.be.revertedWith("Exceeds withdrawable balance");
+    });
+
+    it("Should let any admin cancel a proposal", async function () {
+      const { paymentManager, owner, admin, strayAmount } = await loadFixture(strayFundsFixture);
+
+      await paymentManager.connect(admin).proposeEmergencyWithdrawal(ethers.ZeroAddress, strayAmount, admin.address);
+      await expect(paymentManager.connect(owner).cancelEmergencyWithdrawal(1))
+        .to.emit(paymentManager, "EmergencyWithdrawalCancelled")
+        .withArgs(1, owner.address);
+
+      await expect(paymentManager.connect(owner).approveEmergencyWithdrawal(1))
+        .to.be.revertedWith("Proposal closed");
+    });
+
+    it("Should count each admin approval once", async function () {
+      const { paymentManager, admin, strayAmount } = await loadFixture(strayFundsFixture);
+
+      await paymentManager.connect(admin).proposeEmergencyWithdrawal(ethers.ZeroAddress, strayAmount, admin.address);
+
+      await expect(paymentManager.connect(admin).approveEmergencyWithdrawal(1))
+        .to.be.revertedWith("Already approved");
+    });
+
+    it("Should keep the approval threshold between one and the admin count", async function () {
+      const { paymentManager, tenant, admin } = await loadFixture(deployPaymentSystemFixture);
+      expect(await paymentManager.emergencyApprovalsRequired()).to.equal(2);
+
+      await expect(paymentManager.connect(admin).setEmergencyApprovalsRequired(0))
+        .to.be.revertedWith("Invalid approval threshold");
+      // The fixture has two system admins
+      await expect(paymentManager.connect(admin).setEmergencyApprovalsRequired(3))
+        .to.be.revertedWith("Invalid approval threshold");
+      await expect(paymentManager.connect(tenant).setEmergencyApprovalsRequired(1))
+        .to.be.revertedWith("Not system admin");
+
+      await expect(paymentManager.connect(admin).setEmergencyApprovalsRequired(1))
+        .to.emit(paymentManager, "EmergencyApprovalsRequiredUpdated")
+        .withArgs(1);
+    });
+
+    it("Should execute once the configured number of admins approved", async function () {
+      const { paymentManager, accessManager, owner, admin, strayAmount } = await loadFixture(strayFundsFixture);
+      const [,,,, thirdAdmin] = await ethers.getSigners();
+      await accessManager.connect(owner).assignRole(thirdAdmin.address, ethers.keccak256(ethers.toUtf8Bytes("SYSTEM_ADMIN")));
+      await paymentManager.connect(admin).setEmergencyApprovalsRequired(3);
+
+      await paymentManager.connect(admin).proposeEmergencyWithdrawal(ethers.ZeroAddress, strayAmount, admin.address);
+      await paymentManager.connect(owner).approveEmergencyWithdrawal(1);
+      await time.increase(timelock);
+      await expect(paymentManager.connect(admin).executeEmergencyWithdrawal(1))
+        .to.be.revertedWith("Not enough approvals");
+
+      await paymentManager.connect(thirdAdmin).approveEmergencyWithdrawal(1);
+      await expect(paymentManager.connect(admin).executeEmergencyWithdrawal(1))
+        .to.emit(paymentManager, "EmergencyWithdrawalExecuted");
+    });
+
+    it("Should execute with a single approval when the threshold is one", async function () {
+      const { paymentManager, admin, strayAmount } = await loadFixture(strayFundsFixture);
+      await paymentManager.connect(admin).setEmergencyApprovalsRequired(1);
+
+      await paymentManager.connect(admin).proposeEmergencyWithdrawal(ethers.ZeroAddress, strayAmount, admin.address);
+      await time.increase(timelock);
+      await expect(paymentManager.connect(admin).executeEmergencyWithdrawal(1))
+        .to.emit(paymentManager, "EmergencyWithdrawalExecuted");
+    });
+
+    it("Should accept approval from every remaining admin after admins are removed", async function () {
+      const { paymentManager, accessManager, owner, admin, strayAmount } = await loadFixture(strayFundsFixture);
+      const [,,,, thirdAdmin] = await ethers.getSigners();
+      await accessManager.connect(owner).assignRole(thirdAdmin.address, ethers.keccak256(ethers.toUtf8Bytes("SYSTEM_ADMIN")));
+      await paymentManager.connect(admin).setEmergencyApprovalsRequired(3);
+
+      await paymentManager.connect(admin).proposeEmergencyWithdrawal(ethers.ZeroAddress, strayAmount, admin.address);
+      await paymentManager.connect(owner).approveEmergencyWithdrawal(1);
+      await accessManager.connect(owner)["revokeRole(address,bytes32)"](thirdAdmin.address, ethers.keccak256(ethers.toUtf8Bytes("SYSTEM_ADMIN")));
+      await time.increase(timelock);
 
-      await expect(paymentManager.connect(admin).emergencyWithdraw(admin.address))
-        .to.changeEtherBalance(admin, amount);
+      await expect(paymentManager.connect(admin).executeEmergencyWithdrawal(1))
+        .to.emit(paymentManager, "EmergencyWithdrawalExecuted");
     });
 
     it("Should reject unauthorized emergency withdrawal", async function () {
       const { paymentManager, tenant } = await loadFixture(deployPaymentSystemFixture);
 
       await expect(
-        paymentManager.connect(tenant).emergencyWithdraw(tenant.address)
-      ).to.be.revertedWith("Not authorized");
+        paymentManager.connect(tenant).proposeEmergencyWithdrawal(ethers.ZeroAddress, 1, tenant.address)
+      ).to.be.revertedWith("Not system admin");
     });
   });
-});
\ No newline at end of file
+});
@@ -1,10 +1,24 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, takeSnapshot, time, SnapshotRestorer } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
 import { RentalCore, PaymentManager, ComplianceVerifier, AccessControlManager } from "../typechain-types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 describe("RentalCore", function () {
+  // Restore the chain clock so time moved here does not leak into other test files
+  let snapshot: SnapshotRestorer;
+
+  before(async function () {
+    snapshot = await takeSnapshot();
+  });
+
+  after(async function () {
+    await snapshot.restore();
+  });
+
+  const floorArea = 50; // square meters
+
   // Test fixtures
   async function deployRentalSystemFixture() {
     const [owner, landlord, tenant, admin] = await ethers.getSigners();
@@ -13,16 +27,37 @@ describe("RentalCore", function () {
     const AccessControlManager = await ethers.getContractFactory("AccessControlManager");
     const accessManager = await AccessControlManager.deploy();
 
+    // Deploy RentalUtils library linked into PaymentManager and RentalCore
+    const RentalUtils = await ethers.getContractFactory("RentalUtils");
+    const rentalUtils = await RentalUtils.deploy();
+
+    // PaymentManager and ComplianceVerifier reference RentalCore, which is deployed after them and DocumentUtils
+    const rentalCoreAddress = ethers.getCreateAddress({
+      from: owner.address,
+      nonce: (await owner.getNonce()) + 3
+    });
+
     // Deploy PaymentManager
-    const PaymentManager = await ethers.getContractFactory("PaymentManager");
-    const paymentManager = await PaymentManager.deploy();
+    const PaymentManager = await ethers.getContractFactory("PaymentManager", {
+      libraries: { RentalUtils: await rentalUtils.getAddress() }
+    });
+    const paymentManager = await PaymentManager.deploy(rentalCoreAddress, await accessManager.getAddress());
 
     // Deploy ComplianceVerifier
     const ComplianceVerifier = await ethers.getContractFactory("ComplianceVerifier");
-    const complianceVerifier = await ComplianceVerifier.deploy();
+    const complianceVerifier = await ComplianceVerifier.deploy(rentalCoreAddress, await accessManager.getAddress());
+
+    // Deploy DocumentUtils library linked into RentalCore
+    const DocumentUtils = await ethers.getContractFactory("DocumentUtils");
+    const documentUtils = await DocumentUtils.deploy();
 
     // Deploy RentalCore
-    const RentalCore = await ethers.getContractFactory("RentalCore");
+    const RentalCore = await ethers.getContractFactory("RentalCore", {
+      libraries: {
+        DocumentUtils: await documentUtils.getAddress(),
+        RentalUtils: await rentalUtils.getAddress()
+      }
+    });
     const rentalCore = await RentalCore.deploy(
       await paymentManager.getAddress(),
       await complianceVerifier.getAddress(),
@@ -33,11 +68,38 @@ describe("RentalCore", function () {
     await accessManager.grantRole(ethers.keccak256(ethers.toUtf8Bytes("SYSTEM_ADMIN")), admin.address);
     await accessManager.grantPermission(landlord.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
 
+    // Passing oracles for every default check type, and the admin as legal verifier
+    const MockComplianceOracle = await ethers.getContractFactory("MockComplianceOracle");
+    const oracles = [];
+    for (const oracleType of [
+      await complianceVerifier.LAND_REGISTRY_ORACLE(),
+      await complianceVerifier.SAFETY_CERTIFICATE_ORACLE(),
+      await complianceVerifier.IDENTITY_ORACLE()
+    ]) {
+      const oracle = await MockComplianceOracle.deploy(true, oracleType);
+      await complianceVerifier.connect(admin).registerOracle(oracleType, await oracle.getAddress());
+      oracles.push(oracle);
+    }
+    await complianceVerifier.connect(admin).updateComplianceParameters(
+      {
+        maxDepositMonths: 3,
+        minRentalDays: 30,
+        maxRentalDays: 3650,
+        noticePeriodDays: 7, // Statutory minimum, so the notice tiers apply
+        minRentPerSqm: ethers.parseEther("0.01")
+      },
+      0
+    );
+    await complianceVerifier.connect(admin).authorizeVerifier(admin.address);
+
     return {
       rentalCore,
       paymentManager,
       complianceVerifier,
       accessManager,
+      documentUtils,
+      rentalUtils,
+      oracles,
       owner,
       landlord,
       tenant,
@@ -45,6 +107,13 @@ describe("RentalCore", function () {
     };
   }
 
+  async function setupPropertyFixture() {
+    const base = await deployRentalSystemFixture();
+    const dataHash = ethers.keccak256(ethers.toUtf8Bytes("property_data"));
+    await base.rentalCore.connect(base.landlord).registerProperty(dataHash, floorArea);
+    return { ...base, propertyId: 1n, dataHash };
+  }
+
   // Test groups
   describe("Deployment", function () {
     it("Should deploy with correct dependencies", async function () {
@@ -56,7 +125,13 @@ describe("RentalCore", function () {
     });
 
     it("Should revert deployment with zero addresses", async function () {
-      const RentalCore = await ethers.getContractFactory("RentalCore");
+      const { documentUtils, rentalUtils } = await loadFixture(deployRentalSystemFixture);
+      const RentalCore = await ethers.getContractFactory("RentalCore", {
+        libraries: {
+          DocumentUtils: await documentUtils.getAddress(),
+          RentalUtils: await rentalUtils.getAddress()
+        }
+      });
       const zeroAddress = "0x0000000000000000000000000000000000000000";
 
       await expect(RentalCore.deploy(zeroAddress, zeroAddress, zeroAddress))
@@ -69,7 +144,7 @@ describe("RentalCore", function () {
       const { rentalCore, landlord } = await loadFixture(deployRentalSystemFixture);
       const dataHash = ethers.keccak256(ethers.toUtf8Bytes("property_data"));
 
-      await expect(rentalCore.connect(landlord).registerProperty(dataHash))
+      await expect(rentalCore.connect(landlord).registerProperty(dataHash, floorArea))
         .to.emit(rentalCore, "PropertyRegistered")
         .withArgs(1, landlord.address, dataHash);
 
@@ -77,13 +152,14 @@ describe("RentalCore", function () {
       expect(owner).to.equal(landlord.address);
       expect(storedHash).to.equal(dataHash);
       expect(isActive).to.be.true;
+      expect(await rentalCore.getPropertyFloorArea(1)).to.equal(floorArea);
     });
 
     it("Should revert when unauthorized user tries to register property", async function () {
       const { rentalCore, tenant } = await loadFixture(deployRentalSystemFixture);
       const dataHash = ethers.keccak256(ethers.toUtf8Bytes("property_data"));
 
-      await expect(rentalCore.connect(tenant).registerProperty(dataHash))
+      await expect(rentalCore.connect(tenant).registerProperty(dataHash, floorArea))
         .to.be.revertedWith("No permission");
     });
 
@@ -91,24 +167,99 @@ describe("RentalCore", function () {
       const { rentalCore, landlord } = await loadFixture(deployRentalSystemFixture);
       const zeroHash = ethers.ZeroHash;
 
-      await expect(rentalCore.connect(landlord).registerProperty(zeroHash))
+      await expect(rentalCore.connect(landlord).registerProperty(zeroHash, floorArea))
         .to.be.revertedWith("Invalid property data");
     });
   });
 
-  describe("Agreement Creation", function () {
-    async function setupPropertyFixture() {
-      const base = await deployRentalSystemFixture();
-      const dataHash = ethers.keccak256(ethers.toUtf8Bytes("property_data"));
-      await base.rentalCore.connect(base.landlord).registerProperty(dataHash);
-      return { ...base, propertyId: 1n, dataHash };
-    }
+  describe("Property Management", function () {
+    const TRANSFER_OWNERSHIP = ethers.keccak256(ethers.toUtf8Bytes("TRANSFER_OWNERSHIP"));
+
+    it("Should allow owner to update property data", async function () {
+      const { rentalCore, landlord, propertyId } = await loadFixture(setupPropertyFixture);
+      const newHash = ethers.keccak256(ethers.toUtf8Bytes("renovated_property_data"));
+
+      await expect(rentalCore.connect(landlord).updatePropertyData(propertyId, newHash))
+        .to.emit(rentalCore, "PropertyUpdated")
+        .withArgs(propertyId, newHash);
+
+      const [, storedHash] = await rentalCore.getPropertyDetails(propertyId);
+      expect(storedHash).to.equal(newHash);
+    });
+
+    it("Should revert when non-owner updates property data", async function () {
+      const { rentalCore, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+      const newHash = ethers.keccak256(ethers.toUtf8Bytes("renovated_property_data"));
+
+      await expect(rentalCore.connect(tenant).updatePropertyData(propertyId, newHash))
+        .to.be.revertedWith("Not property owner");
+    });
+
+    it("Should allow owner to deactivate and reactivate property", async function () {
+      const { rentalCore, landlord, propertyId } = await loadFixture(setupPropertyFixture);
 
+      await expect(rentalCore.connect(landlord).setPropertyActive(propertyId, false))
+        .to.emit(rentalCore, "PropertyStatusChanged")
+        .withArgs(propertyId, false);
+      expect((await rentalCore.getPropertyDetails(propertyId)).isActive).to.be.false;
+
+      await expect(rentalCore.connect(landlord).setPropertyActive(propertyId, true))
+        .to.emit(rentalCore, "PropertyStatusChanged")
+        .withArgs(propertyId, true);
+    });
+
+    it("Should transfer property to new owner", async function () {
+      const { rentalCore, accessManager, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+      await accessManager.grantPermission(landlord.address, TRANSFER_OWNERSHIP);
+
+      await expect(rentalCore.connect(landlord).transferProperty(propertyId, tenant.address))
+        .to.emit(rentalCore, "PropertyTransferred")
+        .withArgs(propertyId, landlord.address, tenant.address);
+
+      const [owner] = await rentalCore.getPropertyDetails(propertyId);
+      expect(owner).to.equal(tenant.address);
+
+      const newHash = ethers.keccak256(ethers.toUtf8Bytes("renovated_property_data"));
+      await expect(rentalCore.connect(landlord).updatePropertyData(propertyId, newHash))
+        .to.be.revertedWith("Not property owner");
+    });
+
+    it("Should revert transfer without permission", async function () {
+      const { rentalCore, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+
+      await expect(rentalCore.connect(landlord).transferProperty(propertyId, tenant.address))
+        .to.be.revertedWith("No permission");
+    });
+
+    it("Should block deactivation and transfer while an agreement is active", async function () {
+      const { rentalCore, accessManager, landlord, tenant, admin, propertyId } = await loadFixture(setupPropertyFixture);
+      await accessManager.grantPermission(landlord.address, TRANSFER_OWNERSHIP);
+
+      const startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+      await rentalCore.connect(tenant).acceptAgreement(1);
+
+      await expect(rentalCore.connect(landlord).setPropertyActive(propertyId, false))
+        .to.be.revertedWith("Property has open agreement");
+      await expect(rentalCore.connect(landlord).transferProperty(propertyId, admin.address))
+        .to.be.revertedWith("Property has open agreement");
+    });
+  });
+
+  describe("Agreement Creation", function () {
     it("Should create rental agreement with valid parameters", async function () {
       const { rentalCore, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
       
       const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
-      const startDate = Math.floor(Date.now() / 1000) + 86400; // tomorrow
+      const startDate = (await time.latest()) + 86400; // tomorrow
       const endDate = startDate + (86400 * 365); // 1 year
       const rentAmount = ethers.parseEther("1");
       const depositAmount = ethers.parseEther("2");
@@ -140,7 +291,7 @@ describe("RentalCore", function () {
       const { rentalCore, tenant, propertyId } = await loadFixture(setupPropertyFixture);
       
       const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
-      const startDate = Math.floor(Date.now() / 1000) + 86400;
+      const startDate = (await time.latest()) + 86400;
       const endDate = startDate + (86400 * 365);
 
       await expect(rentalCore.connect(tenant).createAgreement(
@@ -153,48 +304,192 @@ describe("RentalCore", function () {
         ethers.parseEther("2")
       )).to.be.revertedWith("Not property owner");
     });
+
+    it("Should record the compliance parameters version in effect", async function () {
+      const { rentalCore, complianceVerifier, admin, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      const effectiveFrom = await time.latest() + 86400 * 7;
+      await complianceVerifier.connect(admin).updateComplianceParameters(
+        { maxDepositMonths: 2, minRentalDays: 90, maxRentalDays: 1825, noticePeriodDays: 60, minRentPerSqm: ethers.parseEther("0.01") },
+        effectiveFrom
+      );
+
+      let startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId, tenant.address, terms, startDate, startDate + 86400 * 60, ethers.parseEther("1"), ethers.parseEther("3")
+      );
+      expect(await rentalCore.getAgreementParametersVersion(1)).to.equal(1);
+
+      await time.increaseTo(effectiveFrom);
+      startDate = await time.latest() + 86400;
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId, tenant.address, terms, startDate, startDate + 86400 * 365, ethers.parseEther("1"), ethers.parseEther("2")
+      );
+      expect(await rentalCore.getAgreementParametersVersion(2)).to.equal(2);
+    });
+
+    it("Should reject deposits above the compliance parameters", async function () {
+      const { rentalCore, complianceVerifier, admin, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      await complianceVerifier.connect(admin).updateComplianceParameters(
+        { maxDepositMonths: 2, minRentalDays: 30, maxRentalDays: 3650, noticePeriodDays: 30, minRentPerSqm: ethers.parseEther("0.01") },
+        0
+      );
+      const startDate = await time.latest() + 86400;
+
+      await expect(rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        terms,
+        startDate,
+        startDate + 86400 * 365,
+        ethers.parseEther("1"),
+        ethers.parseEther("3")
+      )).to.be.revertedWithCustomError(rentalCore, "InvalidDeposit")
+        .withArgs(2);
+    });
+  });
+
+  describe("Agreement Term Validation", function () {
+    const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+    const rentAmount = ethers.parseEther("1");
+    const depositAmount = ethers.parseEther("2");
+
+    async function createWith(
+      rentalCore: RentalCore,
+      landlord: HardhatEthersSigner,
+      tenant: HardhatEthersSigner,
+      propertyId: bigint,
+      overrides: { durationDays?: number; rent?: bigint; deposit?: bigint }
+    ) {
+      const startDate = await time.latest() + 86400;
+      return rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        terms,
+        startDate,
+        startDate + 86400 * (overrides.durationDays ?? 365),
+        overrides.rent ?? rentAmount,
+        overrides.deposit ?? depositAmount
+      );
+    }
+
+    const rejections = [
+      { name: "an end date before the start date", overrides: { durationDays: 0 }, error: "InvalidRentalPeriod", reason: 1 },
+      { name: "a lease shorter than the minimum", overrides: { durationDays: 1 }, error: "InvalidRentalPeriod", reason: 2 },
+      { name: "a lease longer than the maximum", overrides: { durationDays: 3651 }, error: "InvalidRentalPeriod", reason: 3 },
+      { name: "zero rent", overrides: { rent: 0n }, error: "InvalidRentAmount", reason: 1 },
+      // 50 m² at 0.01 ETH per m² requires at least 0.5 ETH
+      { name: "rent below the minimum for the floor area", overrides: { rent: ethers.parseEther("0.4") }, error: "InvalidRentAmount", reason: 3 },
+      { name: "zero deposit", overrides: { deposit: 0n }, error: "InvalidDeposit", reason: 1 },
+      { name: "a 12-month deposit", overrides: { deposit: rentAmount * 12n }, error: "InvalidDeposit", reason: 2 }
+    ];
+
+    for (const { name, overrides, error, reason } of rejections) {
+      it(`Should reject ${name}`, async function () {
+        const { rentalCore, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+
+        await expect(createWith(rentalCore, landlord, tenant, propertyId, overrides))
+          .to.be.revertedWithCustomError(rentalCore, error)
+          .withArgs(reason);
+      });
+    }
+
+    it("Should accept a deposit of exactly the maximum months of rent", async function () {
+      const { rentalCore, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+
+      await expect(createWith(rentalCore, landlord, tenant, propertyId, { durationDays: 30, deposit: rentAmount * 3n }))
+        .to.emit(rentalCore, "AgreementCreated");
+    });
+
+    it("Should require a floor area when registering a property", async function () {
+      const { rentalCore, landlord } = await loadFixture(deployRentalSystemFixture);
+
+      await expect(rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("property_data")), 0))
+        .to.be.revertedWith("Invalid floor area");
+    });
   });
 
   describe("Agreement Termination", function () {
-    async function setupAgreementFixture() {
-      const base = await setupPropertyFixture();
-      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
-      const startDate = Math.floor(Date.now() / 1000) + 86400;
+    const rentAmount = ethers.parseEther("1");
+
+    // Refreshes the oracle data and posts a fresh legal review, both required to give notice
+    async function reviewAgreement(
+      base: Awaited<ReturnType<typeof deployRentalSystemFixture>>,
+      agreementId: bigint
+    ) {
+      const now = await time.latest();
+      for (const oracle of base.oracles) {
+        await oracle.setData(true, now);
+      }
+      await base.complianceVerifier.connect(base.admin).submitAttestation(
+        agreementId,
+        1, // Agreement
+        true,
+        ethers.keccak256(ethers.toUtf8Bytes("termination_review")),
+        now,
+        now + 86400 * 30
+      );
+    }
+
+    async function createActiveAgreement(base: Awaited<ReturnType<typeof setupPropertyFixture>>) {
+      const startDate = await time.latest() + 86400;
       const endDate = startDate + (86400 * 365);
-      
+
       await base.rentalCore.connect(base.landlord).createAgreement(
         base.propertyId,
         base.tenant.address,
-        terms,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
         startDate,
         endDate,
-        ethers.parseEther("1"),
+        rentAmount,
         ethers.parseEther("2")
       );
+      const [, agreementCount] = await base.rentalCore.getTotalCounts();
+      await base.rentalCore.connect(base.tenant).acceptAgreement(agreementCount);
+
+      return { agreementId: agreementCount, startDate, endDate };
+    }
+
+    async function setupAgreementFixture() {
+      const base = await setupPropertyFixture();
+      const agreement = await createActiveAgreement(base);
 
-      // Set agreement to active
-      await base.rentalCore.connect(base.admin).updateAgreementStatus(1, 1); // Active status
+      await time.increaseTo(agreement.startDate);
+      await reviewAgreement(base, agreement.agreementId);
 
-      return { ...base, agreementId: 1n };
+      return { ...base, ...agreement };
     }
 
-    it("Should allow landlord to terminate active agreement", async function () {
+    async function noticeGivenFixture() {
+      const base = await setupAgreementFixture();
+      await base.rentalCore.connect(base.landlord).terminateAgreement(base.agreementId);
+      const [, effectiveDate, penaltyAmount] = await base.rentalCore.getTerminationNotice(base.agreementId);
+      return { ...base, effectiveDate, penaltyAmount };
+    }
+
+    it("Should let the landlord give notice while the agreement stays active", async function () {
       const { rentalCore, landlord, agreementId } = await loadFixture(setupAgreementFixture);
 
-      await expect(rentalCore.connect(landlord).terminateAgreement(agreementId))
-        .to.emit(rentalCore, "AgreementStatusUpdated")
-        .withArgs(agreementId, 2); // Terminated status
+      const tx = rentalCore.connect(landlord).terminateAgreement(agreementId);
+      await expect(tx)
+        .to.emit(rentalCore, "TerminationNoticeGiven")
+        .withArgs(agreementId, landlord.address, anyValue, rentAmount * 2n);
 
-      const agreement = await rentalCore.getAgreementDetails(agreementId);
-      expect(agreement.status).to.equal(2); // Terminated
+      // Less than 3 months rented: 7 days notice; more than 6 months left: 2 months of rent
+      const [givenBy, effectiveDate, penaltyAmount] = await rentalCore.getTerminationNotice(agreementId);
+      expect(givenBy).to.equal(landlord.address);
+      expect(effectiveDate).to.equal(BigInt(await time.latest()) + 7n * 86400n);
+      expect(penaltyAmount).to.equal(rentAmount * 2n);
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(1); // Active
     });
 
-    it("Should allow tenant to terminate active agreement", async function () {
+    it("Should let the tenant give notice", async function () {
       const { rentalCore, tenant, agreementId } = await loadFixture(setupAgreementFixture);
 
       await expect(rentalCore.connect(tenant).terminateAgreement(agreementId))
-        .to.emit(rentalCore, "AgreementStatusUpdated")
-        .withArgs(agreementId, 2); // Terminated status
+        .to.emit(rentalCore, "TerminationNoticeGiven")
+        .withArgs(agreementId, tenant.address, anyValue, rentAmount * 2n);
     });
 
     it("Should revert when non-party tries to terminate agreement", async function () {
@@ -203,15 +498,1019 @@ describe("RentalCore", function () {
       await expect(rentalCore.connect(owner).terminateAgreement(agreementId))
         .to.be.revertedWith("Not agreement party");
     });
+
+    it("Should revert termination without a valid attestation", async function () {
+      const { rentalCore, complianceVerifier, admin, landlord, agreementId } = await loadFixture(setupAgreementFixture);
+      const issuedAt = await time.latest() + 1;
+
+      await complianceVerifier.connect(admin).submitAttestation(
+        agreementId,
+        1,
+        false,
+        ethers.keccak256(ethers.toUtf8Bytes("unlawful_clause")),
+        issuedAt,
+        issuedAt + 86400
+      );
+
+      await expect(rentalCore.connect(landlord).terminateAgreement(agreementId))
+        .to.be.revertedWith("Failed compliance check");
+    });
+
+    it("Should reject a second notice", async function () {
+      const { rentalCore, tenant, agreementId } = await loadFixture(noticeGivenFixture);
+
+      await expect(rentalCore.connect(tenant).terminateAgreement(agreementId))
+        .to.be.revertedWith("Notice already given");
+    });
+
+    it("Should not accept notice before the rental period starts", async function () {
+      const base = await loadFixture(setupPropertyFixture);
+      const { agreementId } = await createActiveAgreement(base);
+
+      await expect(base.rentalCore.connect(base.tenant).terminateAgreement(agreementId))
+        .to.be.revertedWith("Termination not allowed");
+    });
+
+    it("Should terminate once the notice period ends and charge the penalty", async function () {
+      const { rentalCore, paymentManager, owner, landlord, agreementId, effectiveDate, penaltyAmount } =
+        await loadFixture(noticeGivenFixture);
+
+      await expect(rentalCore.connect(owner).finalizeTermination(agreementId))
+        .to.be.revertedWith("Notice period not over");
+
+      await time.increaseTo(effectiveDate);
+      const tx = rentalCore.connect(owner).finalizeTermination(agreementId);
+      await expect(tx)
+        .to.emit(rentalCore, "AgreementTerminated")
+        .withArgs(agreementId, penaltyAmount)
+        .and.to.emit(rentalCore, "AgreementStatusUpdated")
+        .withArgs(agreementId, 2); // Terminated status
+      await expect(tx)
+        .to.emit(paymentManager, "TerminationPenaltyCharged")
+        .withArgs(agreementId, landlord.address, penaltyAmount, 0);
+
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(2);
+      expect(await paymentManager.getTerminationPenalty(agreementId))
+        .to.deep.equal([landlord.address, penaltyAmount, penaltyAmount]);
+    });
+
+    it("Should not finalize without notice", async function () {
+      const { rentalCore, agreementId } = await loadFixture(setupAgreementFixture);
+
+      await expect(rentalCore.finalizeTermination(agreementId))
+        .to.be.revertedWith("No termination notice");
+    });
+
+    it("Should give longer notice and no penalty late in the lease", async function () {
+      const base = await loadFixture(setupAgreementFixture);
+      const { rentalCore, paymentManager, tenant, agreementId, endDate } = base;
+      await time.increaseTo(endDate - 86400 * 60);
+      await reviewAgreement(base, agreementId);
+
+      await rentalCore.connect(tenant).terminateAgreement(agreementId);
+      const [, effectiveDate, penaltyAmount] = await rentalCore.getTerminationNotice(agreementId);
+      expect(effectiveDate).to.equal(BigInt(await time.latest()) + 30n * 86400n);
+      expect(penaltyAmount).to.equal(0);
+
+      await time.increaseTo(effectiveDate);
+      await expect(rentalCore.finalizeTermination(agreementId))
+        .to.emit(rentalCore, "AgreementTerminated")
+        .withArgs(agreementId, 0)
+        .and.not.to.emit(paymentManager, "TerminationPenaltyCharged");
+    });
+
+    it("Should lengthen the notice period to the agreement's compliance parameters", async function () {
+      const base = await loadFixture(setupPropertyFixture);
+      await base.complianceVerifier.connect(base.admin).updateComplianceParameters(
+        {
+          maxDepositMonths: 3,
+          minRentalDays: 30,
+          maxRentalDays: 3650,
+          noticePeriodDays: 60,
+          minRentPerSqm: ethers.parseEther("0.01")
+        },
+        0
+      );
+      const { agreementId, startDate } = await createActiveAgreement(base);
+      await time.increaseTo(startDate + 86400 * 200);
+      await reviewAgreement(base, agreementId);
+
+      await base.rentalCore.connect(base.tenant).terminateAgreement(agreementId);
+
+      const [, effectiveDate] = await base.rentalCore.getTerminationNotice(agreementId);
+      expect(effectiveDate).to.equal(BigInt(await time.latest()) + 60n * 86400n);
+    });
+
+    it("Should not shorten the statutory notice period below its minimum", async function () {
+      const base = await loadFixture(setupPropertyFixture);
+      await base.complianceVerifier.connect(base.admin).updateComplianceParameters(
+        {
+          maxDepositMonths: 3,
+          minRentalDays: 30,
+          maxRentalDays: 3650,
+          noticePeriodDays: 10,
+          minRentPerSqm: ethers.parseEther("0.01")
+        },
+        0
+      );
+      const { agreementId, startDate } = await createActiveAgreement(base);
+      await time.increaseTo(startDate + 86400 * 200);
+      await reviewAgreement(base, agreementId);
+
+      await base.rentalCore.connect(base.tenant).terminateAgreement(agreementId);
+
+      const [, effectiveDate] = await base.rentalCore.getTerminationNotice(agreementId);
+      expect(effectiveDate).to.equal(BigInt(await time.latest()) + 30n * 86400n);
+    });
+
+    it("Should not expire an agreement with a pending termination notice", async function () {
+      const base = await loadFixture(setupAgreementFixture);
+      const { rentalCore, tenant, agreementId, endDate } = base;
+      await time.increaseTo(endDate - 86400 * 10);
+      await reviewAgreement(base, agreementId);
+      await rentalCore.connect(tenant).terminateAgreement(agreementId);
+      await time.increaseTo(endDate + 1);
+
+      await expect(rentalCore.expireAgreement(agreementId))
+        .to.be.revertedWith("Termination notice pending");
+      await rentalCore.expireAgreements([agreementId]);
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(1); // Active
+
+      // The notice was capped at the end date, so it can be finalized right away
+      await expect(rentalCore.finalizeTermination(agreementId))
+        .to.emit(rentalCore, "AgreementTerminated")
+        .withArgs(agreementId, 0);
+    });
+
+    it("Should terminate immediately and without penalty by mutual agreement", async function () {
+      const { rentalCore, paymentManager, landlord, tenant, agreementId } = await loadFixture(noticeGivenFixture);
+
+      await expect(rentalCore.connect(landlord).agreeMutualTermination(agreementId))
+        .to.emit(rentalCore, "MutualTerminationAgreed")
+        .withArgs(agreementId, landlord.address);
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(1); // Active
+
+      await expect(rentalCore.connect(tenant).agreeMutualTermination(agreementId))
+        .to.emit(rentalCore, "AgreementTerminated")
+        .withArgs(agreementId, 0);
+
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(2); // Terminated
+      await expect(rentalCore.finalizeTermination(agreementId)).to.be.revertedWith("Agreement not active");
+      expect((await paymentManager.getTerminationPenalty(agreementId)).amount).to.equal(0);
+    });
+
+    it("Should reject mutual termination consent from non-parties", async function () {
+      const { rentalCore, owner, agreementId } = await loadFixture(setupAgreementFixture);
+
+      await expect(rentalCore.connect(owner).agreeMutualTermination(agreementId))
+        .to.be.revertedWith("Not agreement party");
+    });
+
+    it("Should let a party revoke its mutual termination consent", async function () {
+      const { rentalCore, landlord, tenant, agreementId } = await loadFixture(setupAgreementFixture);
+      await expect(rentalCore.connect(landlord).revokeTerminationConsent(agreementId))
+        .to.be.revertedWith("No termination consent");
+
+      await rentalCore.connect(landlord).agreeMutualTermination(agreementId);
+      await expect(rentalCore.connect(landlord).revokeTerminationConsent(agreementId))
+        .to.emit(rentalCore, "TerminationConsentRevoked")
+        .withArgs(agreementId, landlord.address);
+
+      await rentalCore.connect(tenant).agreeMutualTermination(agreementId);
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(1); // Active
+    });
+
+    it("Should let mutual termination consent lapse", async function () {
+      const { rentalCore, landlord, tenant, agreementId } = await loadFixture(setupAgreementFixture);
+      await rentalCore.connect(landlord).agreeMutualTermination(agreementId);
+
+      await time.increase(await rentalCore.TERMINATION_CONSENT_VALIDITY());
+      await rentalCore.connect(tenant).agreeMutualTermination(agreementId);
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(1); // Active
+      await expect(rentalCore.connect(landlord).revokeTerminationConsent(agreementId))
+        .to.be.revertedWith("No termination consent");
+    });
+
+    it("Should clear mutual termination consent when the agreement changes status", async function () {
+      const { rentalCore, owner, landlord, tenant, agreementId } = await loadFixture(setupAgreementFixture);
+      const [, , , , , , disputeManager] = await ethers.getSigners();
+      await rentalCore.connect(owner).setDisputeManager(disputeManager.address);
+      const reason = ethers.keccak256(ethers.toUtf8Bytes("dispute_filed"));
+
+      await rentalCore.connect(landlord).agreeMutualTermination(agreementId);
+      await rentalCore.connect(disputeManager).updateAgreementStatus(agreementId, 4, reason); // Disputed
+      await rentalCore.connect(disputeManager).updateAgreementStatus(agreementId, 1, reason); // Active
+
+      await rentalCore.connect(tenant).agreeMutualTermination(agreementId);
+      expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(1); // Active
+    });
+
+    it("Should not let notice run past the agreement's end date", async function () {
+      const base = await loadFixture(setupAgreementFixture);
+      const { rentalCore, tenant, agreementId, endDate } = base;
+      await time.increaseTo(endDate - 86400 * 10);
+      await reviewAgreement(base, agreementId);
+
+      await expect(rentalCore.connect(tenant).terminateAgreement(agreementId))
+        .to.emit(rentalCore, "TerminationNoticeGiven")
+        .withArgs(agreementId, tenant.address, endDate, 0);
+    });
+  });
+
+  describe("Compliance Checks", function () {
+    // Agreement 1 is created on property 2, so a check against the wrong kind of ID hits a different entity
+    async function secondPropertyAgreementFixture() {
+      const base = await setupPropertyFixture();
+      await base.rentalCore.connect(base.landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("second_property")), floorArea);
+      const startDate = await time.latest() + 86400;
+
+      const createTx = base.rentalCore.connect(base.landlord).createAgreement(
+        2,
+        base.tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+      await (await createTx).wait();
+
+      return { ...base, createTx, startDate, agreementId: 1n, agreementPropertyId: 2n };
+    }
+
+    it("Should check the property and parties when creating an agreement", async function () {
+      const { complianceVerifier, landlord, tenant, createTx, agreementPropertyId } =
+        await loadFixture(secondPropertyAgreementFixture);
+
+      await expect(createTx)
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(agreementPropertyId, 2, true, anyValue)
+        .and.to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(BigInt(landlord.address), 3, true, anyValue)
+        .and.to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(BigInt(tenant.address), 4, true, anyValue);
+
+      // Nothing is recorded against property 1 or under the agreement type
+      expect((await complianceVerifier.getComplianceStatus(1, 2)).lastCheckTime).to.equal(0);
+      expect((await complianceVerifier.getComplianceStatus(agreementPropertyId, 1)).lastCheckTime).to.equal(0);
+    });
+
+    it("Should check the agreement itself when terminating", async function () {
+      const { rentalCore, complianceVerifier, admin, tenant, startDate, agreementId, agreementPropertyId } =
+        await loadFixture(secondPropertyAgreementFixture);
+      await rentalCore.connect(tenant).acceptAgreement(agreementId);
+      await time.increaseTo(startDate);
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(admin).submitAttestation(
+        agreementId,
+        1,
+        true,
+        ethers.keccak256(ethers.toUtf8Bytes("termination_review")),
+        issuedAt,
+        issuedAt + 86400
+      );
+
+      await expect(rentalCore.connect(tenant).terminateAgreement(agreementId))
+        .to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(agreementId, 1, true, anyValue)
+        .and.to.emit(complianceVerifier, "ComplianceCheckCompleted")
+        .withArgs(agreementPropertyId, 2, true, anyValue);
+
+      const [passed] = await complianceVerifier.getComplianceStatus(agreementId, 1);
+      expect(passed).to.be.true;
+      expect((await complianceVerifier.getComplianceStatus(1, 2)).lastCheckTime).to.equal(0);
+    });
+
+    it("Should reject agreements on properties that fail compliance", async function () {
+      const { rentalCore, complianceVerifier, admin, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+      const failingRegistry = await (await ethers.getContractFactory("MockComplianceOracle"))
+        .deploy(false, ethers.keccak256(ethers.toUtf8Bytes("encumbered_title")));
+      await complianceVerifier.connect(admin).registerOracle(
+        await complianceVerifier.LAND_REGISTRY_ORACLE(),
+        await failingRegistry.getAddress()
+      );
+      const startDate = await time.latest() + 86400;
+
+      await expect(rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      )).to.be.revertedWith("Failed compliance check");
+    });
+  });
+
+  describe("Agreement Acceptance", function () {
+    async function setupPendingAgreementFixture() {
+      const base = await setupPropertyFixture();
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      const startDate = await time.latest() + (86400 * 30); // starts in 30 days
+      const endDate = startDate + (86400 * 365);
+
+      await base.rentalCore.connect(base.landlord).createAgreement(
+        base.propertyId,
+        base.tenant.address,
+        terms,
+        startDate,
+        endDate,
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+
+      return { ...base, agreementId: 1n, startDate };
+    }
+
+    it("Should set offer expiry on creation", async function () {
+      const { rentalCore, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      const validity = await rentalCore.OFFER_VALIDITY_PERIOD();
+      const createdAt = BigInt(await time.latest());
+      expect(await rentalCore.getOfferExpiry(agreementId)).to.equal(createdAt + validity);
+    });
+
+    it("Should cap offer expiry at the start date", async function () {
+      const { rentalCore, landlord, tenant, propertyId } = await loadFixture(setupPropertyFixture);
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      const startDate = await time.latest() + 86400; // tomorrow
+
+      await rentalCore.connect(landlord).createAgreement(
+        propertyId,
+        tenant.address,
+        terms,
+        startDate,
+        startDate + (86400 * 365),
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+
+      expect(await rentalCore.getOfferExpiry(1)).to.equal(startDate);
+    });
+
+    it("Should allow tenant to accept pending agreement", async function () {
+      const { rentalCore, tenant, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(tenant).acceptAgreement(agreementId))
+        .to.emit(rentalCore, "AgreementAccepted")
+        .withArgs(agreementId, tenant.address)
+        .and.to.emit(rentalCore, "AgreementStatusUpdated")
+        .withArgs(agreementId, 1); // Active status
+
+      const agreement = await rentalCore.getAgreementDetails(agreementId);
+      expect(agreement.status).to.equal(1); // Active
+    });
+
+    it("Should allow tenant to reject pending agreement", async function () {
+      const { rentalCore, tenant, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(tenant).rejectAgreement(agreementId))
+        .to.emit(rentalCore, "AgreementRejected")
+        .withArgs(agreementId, tenant.address)
+        .and.to.emit(rentalCore, "AgreementStatusUpdated")
+        .withArgs(agreementId, 2); // Terminated status
+    });
+
+    it("Should revert when non-tenant tries to accept or reject", async function () {
+      const { rentalCore, landlord, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(landlord).acceptAgreement(agreementId))
+        .to.be.revertedWith("Not agreement tenant");
+      await expect(rentalCore.connect(landlord).rejectAgreement(agreementId))
+        .to.be.revertedWith("Not agreement tenant");
+    });
+
+    it("Should revert when accepting an agreement that is not pending", async function () {
+      const { rentalCore, tenant, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await rentalCore.connect(tenant).acceptAgreement(agreementId);
+
+      await expect(rentalCore.connect(tenant).acceptAgreement(agreementId))
+        .to.be.revertedWith("Agreement not pending");
+      await expect(rentalCore.connect(tenant).rejectAgreement(agreementId))
+        .to.be.revertedWith("Agreement not pending");
+    });
+
+    it("Should revert when accepting after the offer expired", async function () {
+      const { rentalCore, tenant, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await time.increaseTo(await rentalCore.getOfferExpiry(agreementId) + 1n);
+
+      await expect(rentalCore.connect(tenant).acceptAgreement(agreementId))
+        .to.be.revertedWith("Offer expired");
+    });
+
+    it("Should allow anyone to expire an unanswered offer", async function () {
+      const { rentalCore, owner, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(owner).expireOffer(agreementId))
+        .to.be.revertedWith("Offer still valid");
+
+      await time.increaseTo(await rentalCore.getOfferExpiry(agreementId) + 1n);
+
+      await expect(rentalCore.connect(owner).expireOffer(agreementId))
+        .to.emit(rentalCore, "AgreementOfferExpired")
+        .withArgs(agreementId)
+        .and.to.emit(rentalCore, "AgreementStatusUpdated")
+        .withArgs(agreementId, 3); // Expired status
+    });
+  });
+
+  describe("Agreement Status Transitions", function () {
+    const STATUS = { Pending: 0, Active: 1, Terminated: 2, Expired: 3, Disputed: 4 };
+    const STATUS_NAMES = Object.keys(STATUS) as (keyof typeof STATUS)[];
+    const ALLOWED: Record<number, number[]> = {
+      [STATUS.Pending]: [STATUS.Active, STATUS.Terminated, STATUS.Expired],
+      [STATUS.Active]: [STATUS.Disputed, STATUS.Terminated, STATUS.Expired],
+      [STATUS.Disputed]: [STATUS.Active, STATUS.Terminated],
+      [STATUS.Terminated]: [],
+      [STATUS.Expired]: []
+    };
+    // Admin-driven path from Pending to each starting status
+    const PATH_TO: Record<number, number[]> = {
+      [STATUS.Pending]: [],
+      [STATUS.Active]: [STATUS.Active],
+      [STATUS.Disputed]: [STATUS.Active, STATUS.Disputed],
+      [STATUS.Terminated]: [STATUS.Terminated],
+      [STATUS.Expired]: [STATUS.Expired]
+    };
+    const reason = ethers.keccak256(ethers.toUtf8Bytes("status_change_reason"));
+
+    async function setupPendingAgreementFixture() {
+      const base = await setupPropertyFixture();
+      const startDate = await time.latest() + 86400;
+
+      await base.rentalCore.connect(base.landlord).createAgreement(
+        base.propertyId,
+        base.tenant.address,
+        ethers.keccak256(ethers.toUtf8Bytes("agreement_terms")),
+        startDate,
+        startDate + (86400 * 365),
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+
+      // An account stands in for the DisputeManager contract
+      const [, , , , , , disputeManager] = await ethers.getSigners();
+      await base.rentalCore.connect(base.owner).setDisputeManager(disputeManager.address);
+
+      return { ...base, agreementId: 1n, disputeManager };
+    }
+
+    // Transitions into or out of Disputed come from the dispute manager, all others from the owner
+    const callerFor = (from: number, to: number) =>
+      from === STATUS.Disputed || to === STATUS.Disputed ? "disputeManager" : "owner";
+
+    for (const from of STATUS_NAMES) {
+      for (const to of STATUS_NAMES) {
+        const allowed = ALLOWED[STATUS[from]].includes(STATUS[to]);
+
+        it(`Should ${allowed ? "allow" : "reject"} ${from} -> ${to}`, async function () {
+          const fixture = await loadFixture(setupPendingAgreementFixture);
+          const { rentalCore, agreementId } = fixture;
+          let current = STATUS.Pending;
+          for (const step of PATH_TO[STATUS[from]]) {
+            await rentalCore.connect(fixture[callerFor(current, step)]).updateAgreementStatus(agreementId, step, reason);
+            current = step;
+          }
+
+          const caller = fixture[callerFor(STATUS[from], STATUS[to])];
+          const tx = rentalCore.connect(caller).updateAgreementStatus(agreementId, STATUS[to], reason);
+          if (allowed) {
+            await expect(tx)
+              .to.emit(rentalCore, "AgreementStatusTransition")
+              .withArgs(agreementId, STATUS[from], STATUS[to], reason, caller.address);
+            expect((await rentalCore.getAgreementDetails(agreementId)).status).to.equal(STATUS[to]);
+          } else {
+            await expect(tx)
+              .to.be.revertedWithCustomError(rentalCore, "InvalidStatusTransition")
+              .withArgs(STATUS[from], STATUS[to]);
+          }
+        });
+      }
+    }
+
+    it("Should require a reason hash", async function () {
+      const { rentalCore, owner, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(owner).updateAgreementStatus(agreementId, STATUS.Active, ethers.ZeroHash))
+        .to.be.revertedWithCustomError(rentalCore, "MissingReasonHash");
+    });
+
+    it("Should reject unknown statuses", async function () {
+      const { rentalCore, owner, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(owner).updateAgreementStatus(agreementId, 5, reason))
+        .to.be.revertedWithCustomError(rentalCore, "InvalidStatus")
+        .withArgs(5);
+    });
+
+    it("Should reject callers without UPDATE_AGREEMENT permission", async function () {
+      const { rentalCore, tenant, agreementId } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(tenant).updateAgreementStatus(agreementId, STATUS.Active, reason))
+        .to.be.revertedWith("No permission");
+    });
+
+    it("Should reserve Disputed transitions for the dispute manager", async function () {
+      const { rentalCore, owner, disputeManager, agreementId } = await loadFixture(setupPendingAgreementFixture);
+      await rentalCore.connect(owner).updateAgreementStatus(agreementId, STATUS.Active, reason);
+
+      await expect(rentalCore.connect(owner).updateAgreementStatus(agreementId, STATUS.Disputed, reason))
+        .to.be.revertedWith("Not dispute manager");
+
+      await rentalCore.connect(disputeManager).updateAgreementStatus(agreementId, STATUS.Disputed, reason);
+      await expect(rentalCore.connect(owner).updateAgreementStatus(agreementId, STATUS.Active, reason))
+        .to.be.revertedWith("Not dispute manager");
+      await expect(rentalCore.connect(owner).updateAgreementStatus(agreementId, STATUS.Terminated, reason))
+        .to.be.revertedWith("Not dispute manager");
+    });
+
+    it("Should only let the system admin register the dispute manager", async function () {
+      const { rentalCore, owner, tenant } = await loadFixture(setupPendingAgreementFixture);
+
+      await expect(rentalCore.connect(tenant).setDisputeManager(tenant.address))
+        .to.be.revertedWith("Not system admin");
+      await expect(rentalCore.connect(owner).setDisputeManager(ethers.ZeroAddress))
+        .to.be.revertedWith("Invalid dispute manager");
+      await expect(rentalCore.connect(owner).setDisputeManager(tenant.address))
+        .to.emit(rentalCore, "DisputeManagerSet")
+        .withArgs(tenant.address);
+      expect(await rentalCore.disputeManager()).to.equal(tenant.address);
+    });
+  });
+
+  describe("Agreement Expiry", function () {
+    async function setupActiveAgreementsFixture() {
+      const base = await setupPropertyFixture();
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      const startDate = await time.latest() + 86400;
+      const shortEndDate = startDate + (86400 * 60);
+      const longEndDate = startDate + (86400 * 365);
+
+      for (const endDate of [shortEndDate, longEndDate]) {
+        await base.rentalCore.connect(base.landlord).createAgreement(
+          base.propertyId,
+          base.tenant.address,
+          terms,
+          startDate,
+          endDate,
+          ethers.parseEther("1"),
+          ethers.parseEther("2")
+        );
+      }
+      await base.rentalCore.connect(base.tenant).acceptAgreement(1);
+      await base.rentalCore.connect(base.tenant).acceptAgreement(2);
+
+      return { ...base, shortEndDate, longEndDate };
+    }
+
+    it("Should allow anyone to expire an agreement past its end date", async function () {
+      const { rentalCore, owner, shortEndDate } = await loadFixture(setupActiveAgreementsFixture);
+
+      await time.increaseTo(shortEndDate + 1);
+
+      await expect(rentalCore.connect(owner).expireAgreement(1))
+        .to.emit(rentalCore, "AgreementExpired")
+        .withArgs(1, shortEndDate)
+        .and.to.emit(rentalCore, "AgreementStatusUpdated")
+        .withArgs(1, 3); // Expired status
+    });
+
+    it("Should not expire an agreement before its end date", async function () {
+      const { rentalCore, owner, shortEndDate } = await loadFixture(setupActiveAgreementsFixture);
+
+      // The expiry transaction is mined exactly at the end date
+      await time.setNextBlockTimestamp(shortEndDate);
+
+      await expect(rentalCore.connect(owner).expireAgreement(1))
+        .to.be.revertedWith("Agreement not expirable");
+    });
+
+    it("Should expire only stale agreements in a batch", async function () {
+      const { rentalCore, owner, shortEndDate } = await loadFixture(setupActiveAgreementsFixture);
+
+      await time.increaseTo(shortEndDate + 1);
+
+      expect(await rentalCore.connect(owner).expireAgreements.staticCall([1, 2, 99])).to.equal(1);
+      await rentalCore.connect(owner).expireAgreements([1, 2, 99]);
+
+      expect((await rentalCore.getAgreementDetails(1)).status).to.equal(3); // Expired
+      expect((await rentalCore.getAgreementDetails(2)).status).to.equal(1); // Active
+    });
+  });
+
+  describe("Agreement Amendments", function () {
+    async function setupActiveAgreementFixture() {
+      const base = await setupPropertyFixture();
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      const startDate = await time.latest() + 86400;
+      const endDate = startDate + (86400 * 365);
+      const rentAmount = ethers.parseEther("1");
+
+      await base.rentalCore.connect(base.landlord).createAgreement(
+        base.propertyId,
+        base.tenant.address,
+        terms,
+        startDate,
+        endDate,
+        rentAmount,
+        ethers.parseEther("2")
+      );
+      await base.rentalCore.connect(base.tenant).acceptAgreement(1);
+
+      return { ...base, agreementId: 1n, terms, endDate, rentAmount };
+    }
+
+    it("Should apply amendment confirmed by the other party", async function () {
+      const { rentalCore, documentUtils, landlord, tenant, agreementId, terms, endDate } =
+        await loadFixture(setupActiveAgreementFixture);
+      const newRent = ethers.parseEther("1.1");
+
+      await rentalCore.connect(landlord).proposeAmendment(agreementId, newRent, endDate, terms);
+      const proposedAt = await time.latest();
+
+      const expectedHash = await documentUtils.generateAmendmentHash(
+        agreementId,
+        await rentalCore.AMEND_RENT(),
+        proposedAt,
+        ethers.solidityPackedKeccak256(["uint256", "uint256", "bytes32"], [newRent, endDate, terms])
+      );
+      const [proposer, , , , amendmentHash] = await rentalCore.getPendingAmendment(agreementId);
+      expect(proposer).to.equal(landlord.address);
+      expect(amendmentHash).to.equal(expectedHash);
+
+      await expect(rentalCore.connect(tenant).confirmAmendment(agreementId, amendmentHash))
+        .to.emit(rentalCore, "AgreementAmended")
+        .withArgs(agreementId, amendmentHash);
+
+      const agreement = await rentalCore.getAgreementDetails(agreementId);
+      expect(agreement.rentAmount).to.equal(newRent);
+      expect(await rentalCore.getAmendmentHistory(agreementId)).to.deep.equal([amendmentHash]);
+    });
+
+    it("Should record when a rent change takes effect and the rent it replaces", async function () {
+      const { rentalCore, landlord, tenant, agreementId, terms, endDate, rentAmount } =
+        await loadFixture(setupActiveAgreementFixture);
+
+      await rentalCore.connect(landlord).proposeAmendment(agreementId, ethers.parseEther("1.1"), endDate, terms);
+      const [, , , , amendmentHash] = await rentalCore.getPendingAmendment(agreementId);
+      await rentalCore.connect(tenant).confirmAmendment(agreementId, amendmentHash);
+      const confirmedAt = await time.latest();
+
+      const [effectiveFrom, previousRents] = await rentalCore.getRentHistory(agreementId);
+      expect(effectiveFrom).to.deep.equal([BigInt(confirmedAt)]);
+      expect(previousRents).to.deep.equal([rentAmount]);
+    });
+
+    it("Should update end date and terms together", async function () {
+      const { rentalCore, landlord, tenant, agreementId, rentAmount, endDate } =
+        await loadFixture(setupActiveAgreementFixture);
+      const newEndDate = endDate + (86400 * 365);
+      const newTerms = ethers.keccak256(ethers.toUtf8Bytes("amended_terms"));
+
+      await rentalCore.connect(tenant).proposeAmendment(agreementId, rentAmount, newEndDate, newTerms);
+      const [, , , , amendmentHash] = await rentalCore.getPendingAmendment(agreementId);
+      await rentalCore.connect(landlord).confirmAmendment(agreementId, amendmentHash);
+
+      const agreement = await rentalCore.getAgreementDetails(agreementId);
+      expect(agreement.endDate).to.equal(newEndDate);
+      expect(agreement.termsHash).to.equal(newTerms);
+      expect(agreement.rentAmount).to.equal(rentAmount);
+      const [effectiveFrom] = await rentalCore.getRentHistory(agreementId);
+      expect(effectiveFrom).to.deep.equal([]);
+    });
+
+    it("Should not let the proposer confirm their own amendment", async function () {
+      const { rentalCore, landlord, agreementId, terms, endDate } = await loadFixture(setupActiveAgreementFixture);
+
+      await rentalCore.connect(landlord).proposeAmendment(agreementId, ethers.parseEther("2"), endDate, terms);
+      const [, , , , amendmentHash] = await rentalCore.getPendingAmendment(agreementId);
+
+      await expect(rentalCore.connect(landlord).confirmAmendment(agreementId, amendmentHash))
+        .to.be.revertedWith("Proposer cannot confirm");
+    });
+
+    it("Should reject confirmation of a different amendment", async function () {
+      const { rentalCore, landlord, tenant, agreementId, terms, endDate } = await loadFixture(setupActiveAgreementFixture);
+
+      await rentalCore.connect(landlord).proposeAmendment(agreementId, ethers.parseEther("2"), endDate, terms);
+
+      await expect(rentalCore.connect(tenant).confirmAmendment(agreementId, ethers.ZeroHash))
+        .to.be.revertedWith("Amendment mismatch");
+    });
+
+    it("Should reject proposals without changes or from non-parties", async function () {
+      const { rentalCore, owner, landlord, agreementId, terms, endDate, rentAmount } =
+        await loadFixture(setupActiveAgreementFixture);
+
+      await expect(rentalCore.connect(landlord).proposeAmendment(agreementId, rentAmount, endDate, terms))
+        .to.be.revertedWith("No changes proposed");
+      await expect(rentalCore.connect(owner).proposeAmendment(agreementId, ethers.parseEther("2"), endDate, terms))
+        .to.be.revertedWith("Not agreement party");
+    });
+
+    it("Should validate amended terms against the agreement's compliance parameters", async function () {
+      const { rentalCore, landlord, agreementId, terms, endDate } = await loadFixture(setupActiveAgreementFixture);
+      const { startDate } = await rentalCore.getAgreementDetails(agreementId);
+
+      // A 2 ETH deposit is more than three months of a 0.5 ETH rent
+      await expect(rentalCore.connect(landlord).proposeAmendment(agreementId, ethers.parseEther("0.5"), endDate, terms))
+        .to.be.revertedWithCustomError(rentalCore, "InvalidDeposit")
+        .withArgs(2);
+      await expect(rentalCore.connect(landlord).proposeAmendment(
+        agreementId,
+        ethers.parseEther("1"),
+        startDate + 86400n * 3651n,
+        terms
+      ))
+        .to.be.revertedWithCustomError(rentalCore, "InvalidRentalPeriod")
+        .withArgs(3);
+    });
+
+    it("Should allow only one pending amendment at a time", async function () {
+      const { rentalCore, landlord, tenant, agreementId, terms, endDate } = await loadFixture(setupActiveAgreementFixture);
+
+      await rentalCore.connect(landlord).proposeAmendment(agreementId, ethers.parseEther("2"), endDate, terms);
+
+      await expect(rentalCore.connect(tenant).proposeAmendment(agreementId, ethers.parseEther("0.5"), endDate, terms))
+        .to.be.revertedWith("Amendment already pending");
+    });
+
+    it("Should allow the counterparty to decline a pending amendment", async function () {
+      const { rentalCore, landlord, tenant, agreementId, terms, endDate } = await loadFixture(setupActiveAgreementFixture);
+
+      await rentalCore.connect(landlord).proposeAmendment(agreementId, ethers.parseEther("2"), endDate, terms);
+      const [, , , , amendmentHash] = await rentalCore.getPendingAmendment(agreementId);
+
+      await expect(rentalCore.connect(tenant).cancelAmendment(agreementId))
+        .to.emit(rentalCore, "AmendmentCancelled")
+        .withArgs(agreementId, tenant.address, amendmentHash);
+
+      await expect(rentalCore.connect(tenant).confirmAmendment(agreementId, amendmentHash))
+        .to.be.revertedWith("No pending amendment");
+      expect(await rentalCore.getAmendmentHistory(agreementId)).to.be.empty;
+    });
+  });
+
+  describe("Property Delegation", function () {
+    const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+    const CREATE_AGREEMENT = ethers.keccak256(ethers.toUtf8Bytes("CREATE_AGREEMENT"));
+    const TERMINATE_AGREEMENT = ethers.keccak256(ethers.toUtf8Bytes("TERMINATE_AGREEMENT"));
+    const PROCESS_PAYMENT = ethers.keccak256(ethers.toUtf8Bytes("PROCESS_PAYMENT"));
+    const TRANSFER_OWNERSHIP = ethers.keccak256(ethers.toUtf8Bytes("TRANSFER_OWNERSHIP"));
+
+    async function delegationFixture() {
+      const base = await setupPropertyFixture();
+      const [, , , , manager, outsider] = await ethers.getSigners();
+      await base.accessManager.assignRole(manager.address, await base.accessManager.PROPERTY_MANAGER());
+      const expiresAt = await time.latest() + 86400 * 90;
+
+      await base.rentalCore.connect(base.landlord).delegatePropertyPermission(
+        base.propertyId,
+        manager.address,
+        CREATE_AGREEMENT,
+        expiresAt
+      );
+
+      return { ...base, manager, outsider, expiresAt };
+    }
+
+    async function createAs(
+      rentalCore: RentalCore,
+      signer: HardhatEthersSigner,
+      propertyId: bigint,
+      tenant: HardhatEthersSigner
+    ) {
+      const startDate = await time.latest() + 86400;
+      return rentalCore.connect(signer).createAgreement(
+        propertyId,
+        tenant.address,
+        terms,
+        startDate,
+        startDate + 86400 * 365,
+        ethers.parseEther("1"),
+        ethers.parseEther("2")
+      );
+    }
+
+    it("Should let a delegate create agreements for the owner", async function () {
+      const { rentalCore, landlord, tenant, manager, propertyId, expiresAt } = await loadFixture(delegationFixture);
+
+      expect(await rentalCore.getPropertyDelegation(propertyId, manager.address, CREATE_AGREEMENT))
+        .to.deep.equal([landlord.address, expiresAt, true]);
+
+      await expect(createAs(rentalCore, manager, propertyId, tenant))
+        .to.emit(rentalCore, "AgreementCreated")
+        .withArgs(1, propertyId, landlord.address, tenant.address);
+
+      expect((await rentalCore.getAgreementDetails(1)).landlord).to.equal(landlord.address);
+      const [managerAgreements] = await rentalCore.getAgreementsByUser(manager.address, 0, 0, 10);
+      expect(managerAgreements).to.be.empty;
+    });
+
+    it("Should limit delegations to their property and permission", async function () {
+      const { rentalCore, landlord, tenant, manager, propertyId, expiresAt } = await loadFixture(delegationFixture);
+      await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("second_property")), floorArea);
+      await rentalCore.connect(landlord).delegatePropertyPermission(2, manager.address, PROCESS_PAYMENT, expiresAt);
+
+      await expect(createAs(rentalCore, manager, 2n, tenant)).to.be.revertedWith("Not property owner");
+      expect(await rentalCore.getPropertyDelegation(propertyId, manager.address, PROCESS_PAYMENT))
+        .to.deep.equal([ethers.ZeroAddress, 0, false]);
+    });
+
+    it("Should stop honouring delegations once they expire", async function () {
+      const { rentalCore, tenant, manager, propertyId, expiresAt } = await loadFixture(delegationFixture);
+
+      await time.increaseTo(expiresAt);
+
+      expect((await rentalCore.getPropertyDelegation(propertyId, manager.address, CREATE_AGREEMENT)).active).to.be.false;
+      await expect(createAs(rentalCore, manager, propertyId, tenant)).to.be.revertedWith("Not property owner");
+    });
+
+    it("Should stop honouring delegations when revoked, the role is lost or the property is sold", async function () {
+      const { rentalCore, accessManager, landlord, tenant, manager, propertyId, expiresAt } =
+        await loadFixture(delegationFixture);
+
+      await expect(rentalCore.connect(landlord).revokePropertyDelegation(propertyId, manager.address, CREATE_AGREEMENT))
+        .to.emit(rentalCore, "PropertyDelegationRevoked")
+        .withArgs(propertyId, manager.address, CREATE_AGREEMENT);
+      await expect(createAs(rentalCore, manager, propertyId, tenant)).to.be.revertedWith("Not property owner");
+      await expect(rentalCore.connect(landlord).revokePropertyDelegation(propertyId, manager.address, CREATE_AGREEMENT))
+        .to.be.revertedWith("No delegation");
+
+      await rentalCore.connect(landlord).delegatePropertyPermission(propertyId, manager.address, CREATE_AGREEMENT, expiresAt);
+      await accessManager["revokeRole(address,bytes32)"](manager.address, await accessManager.PROPERTY_MANAGER());
+      expect((await rentalCore.getPropertyDelegation(propertyId, manager.address, CREATE_AGREEMENT)).active).to.be.false;
+
+      await accessManager.assignRole(manager.address, await accessManager.PROPERTY_MANAGER());
+      await accessManager.grantPermission(landlord.address, TRANSFER_OWNERSHIP);
+      await rentalCore.connect(landlord).transferProperty(propertyId, tenant.address);
+      expect((await rentalCore.getPropertyDelegation(propertyId, manager.address, CREATE_AGREEMENT)).active).to.be.false;
+    });
+
+    it("Should not let managers or brokers act without a delegation", async function () {
+      const { rentalCore, accessManager, landlord, tenant, manager, outsider, propertyId } =
+        await loadFixture(delegationFixture);
+      await accessManager.assignRole(outsider.address, await accessManager.BROKER());
+      await createAs(rentalCore, landlord, propertyId, tenant);
+
+      await expect(rentalCore.connect(outsider).registerProperty(terms, 50)).to.be.revertedWith("No permission");
+      await expect(rentalCore.connect(manager).updateAgreementStatus(1, 3, terms)).to.be.revertedWith("No permission");
+    });
+
+    it("Should validate new delegations", async function () {
+      const { rentalCore, landlord, manager, outsider, propertyId, expiresAt } = await loadFixture(delegationFixture);
+
+      await expect(rentalCore.connect(manager).delegatePropertyPermission(propertyId, manager.address, CREATE_AGREEMENT, expiresAt))
+        .to.be.revertedWith("Not property owner");
+      await expect(rentalCore.connect(landlord).delegatePropertyPermission(propertyId, outsider.address, CREATE_AGREEMENT, expiresAt))
+        .to.be.revertedWith("Not a manager or broker");
+      await expect(rentalCore.connect(landlord).delegatePropertyPermission(propertyId, manager.address, TRANSFER_OWNERSHIP, expiresAt))
+        .to.be.revertedWith("Invalid permission");
+      await expect(rentalCore.connect(landlord).delegatePropertyPermission(propertyId, manager.address, CREATE_AGREEMENT, await time.latest()))
+        .to.be.revertedWith("Invalid expiry");
+    });
+
+    it("Should let a broker give notice on the landlord's behalf", async function () {
+      const { rentalCore, complianceVerifier, accessManager, admin, landlord, tenant, outsider, propertyId, expiresAt } =
+        await loadFixture(delegationFixture);
+      await accessManager.assignRole(outsider.address, await accessManager.BROKER());
+      await rentalCore.connect(landlord).delegatePropertyPermission(propertyId, outsider.address, TERMINATE_AGREEMENT, expiresAt);
+
+      await createAs(rentalCore, landlord, propertyId, tenant);
+      await rentalCore.connect(tenant).acceptAgreement(1);
+      const { startDate } = await rentalCore.getAgreementDetails(1);
+      await time.increaseTo(startDate);
+      const issuedAt = await time.latest();
+      await complianceVerifier.connect(admin).submitAttestation(
+        1,
+        1,
+        true,
+        ethers.keccak256(ethers.toUtf8Bytes("termination_review")),
+        issuedAt,
+        issuedAt + 86400
+      );
+
+      expect(await rentalCore.canActForLandlord(1, outsider.address, TERMINATE_AGREEMENT)).to.be.true;
+      expect(await rentalCore.canActForLandlord(1, outsider.address, PROCESS_PAYMENT)).to.be.false;
+      await expect(rentalCore.connect(outsider).terminateAgreement(1))
+        .to.emit(rentalCore, "TerminationNoticeGiven")
+        .withArgs(1, landlord.address, anyValue, anyValue);
+    });
+  });
+
+  describe("Enumeration", function () {
+    async function setupPortfolioFixture() {
+      const base = await deployRentalSystemFixture();
+      const { rentalCore, landlord, tenant, admin } = base;
+      await base.accessManager.grantPermission(tenant.address, ethers.keccak256(ethers.toUtf8Bytes("REGISTER_PROPERTY")));
+
+      for (let i = 0; i < 3; i++) {
+        await rentalCore.connect(landlord).registerProperty(ethers.keccak256(ethers.toUtf8Bytes(`property_${i}`)), floorArea);
+      }
+      // Property 4 belongs to the tenant, who lets it to the admin
+      await rentalCore.connect(tenant).registerProperty(ethers.keccak256(ethers.toUtf8Bytes("tenant_property")), floorArea);
+
+      const terms = ethers.keccak256(ethers.toUtf8Bytes("agreement_terms"));
+      const startDate = await time.latest() + 86400;
+      const endDate = startDate + (86400 * 365);
+      const create = (signer: HardhatEthersSigner, propertyId: number, to: string) =>
+        rentalCore.connect(signer).createAgreement(
+          propertyId, to, terms, startDate, endDate, ethers.parseEther("1"), ethers.parseEther("2")
+        );
+
+      await create(landlord, 1, tenant.address); // agreement 1
+      await rentalCore.connect(tenant).rejectAgreement(1);
+      await create(landlord, 1, tenant.address); // agreement 2
+      await create(landlord, 2, admin.address); // agreement 3
+      await create(tenant, 4, admin.address); // agreement 4
+
+      return base;
+    }
+
+    it("Should page through properties by owner", async function () {
+      const { rentalCore, landlord, tenant } = await loadFixture(setupPortfolioFixture);
+
+      const [firstPage, total] = await rentalCore.getPropertiesByOwner(landlord.address, 0, 2);
+      expect(firstPage).to.deep.equal([1n, 2n]);
+      expect(total).to.equal(3);
+
+      const [secondPage] = await rentalCore.getPropertiesByOwner(landlord.address, 2, 2);
+      expect(secondPage).to.deep.equal([3n]);
+
+      const [emptyPage] = await rentalCore.getPropertiesByOwner(landlord.address, 5, 2);
+      expect(emptyPage).to.be.empty;
+
+      const [tenantProperties] = await rentalCore.getPropertiesByOwner(tenant.address, 0, 10);
+      expect(tenantProperties).to.deep.equal([4n]);
+    });
+
+    it("Should filter agreements by role", async function () {
+      const { rentalCore, tenant } = await loadFixture(setupPortfolioFixture);
+
+      const [all, allTotal] = await rentalCore.getAgreementsByUser(tenant.address, 0, 0, 10);
+      expect(all).to.deep.equal([1n, 2n, 4n]);
+      expect(allTotal).to.equal(3);
+
+      const [asTenant, tenantTotal] = await rentalCore.getAgreementsByUser(tenant.address, 2, 0, 10);
+      expect(asTenant).to.deep.equal([1n, 2n]);
+      expect(tenantTotal).to.equal(2);
+
+      const [asLandlord, landlordTotal] = await rentalCore.getAgreementsByUser(tenant.address, 1, 0, 10);
+      expect(asLandlord).to.deep.equal([4n]);
+      expect(landlordTotal).to.equal(1);
+    });
+
+    it("Should paginate filtered agreements", async function () {
+      const { rentalCore, landlord } = await loadFixture(setupPortfolioFixture);
+
+      const [page, total] = await rentalCore.getAgreementsByUser(landlord.address, 1, 1, 1);
+      expect(page).to.deep.equal([2n]);
+      expect(total).to.equal(3);
+
+      const [beyond] = await rentalCore.getAgreementsByUser(landlord.address, 1, 3, 1);
+      expect(beyond).to.be.empty;
+    });
+
+    it("Should reject an invalid role filter", async function () {
+      const { rentalCore, landlord } = await loadFixture(setupPortfolioFixture);
+
+      await expect(rentalCore.getAgreementsByUser(landlord.address, 3, 0, 10))
+        .to.be.revertedWith("Invalid role filter");
+    });
+
+    it("Should return agreement history per property", async function () {
+      const { rentalCore } = await loadFixture(setupPortfolioFixture);
+
+      const [history, total] = await rentalCore.getPropertyAgreementHistory(1, 0, 10);
+      expect(history).to.deep.equal([1n, 2n]);
+      expect(total).to.equal(2);
+
+      const [unused, unusedTotal] = await rentalCore.getPropertyAgreementHistory(3, 0, 10);
+      expect(unused).to.be.empty;
+      expect(unusedTotal).to.equal(0);
+    });
+
+    it("Should report total counts", async function () {
+      const { rentalCore } = await loadFixture(setupPortfolioFixture);
+
+      const [propertyCount, agreementCount] = await rentalCore.getTotalCounts();
+      expect(propertyCount).to.equal(4);
+      expect(agreementCount).to.equal(4);
+    });
   });
 
   describe("Emergency Controls", function () {
     it("Should allow admin to trigger emergency shutdown", async function () {
       const { rentalCore, admin } = await loadFixture(deployRentalSystemFixture);
+      const shutdownTime = await time.latest() + 60;
+      await time.setNextBlockTimestamp(shutdownTime);
 
       await expect(rentalCore.connect(admin).emergencyShutdown())
         .to.emit(rentalCore, "EmergencyShutdown")
-        .withArgs(admin.address, await ethers.provider.getBlock('latest').then(b => b!.timestamp));
+        .withArgs(admin.address, shutdownTime);
     });
 
     it("Should prevent operations when paused", async function () {
@@ -220,7 +1519,7 @@ describe("RentalCore", function () {
       await rentalCore.connect(admin).emergencyShutdown();
       
       const dataHash = ethers.keccak256(ethers.toUtf8Bytes("property_data"));
-      await expect(rentalCore.connect(landlord).registerProperty(dataHash))
+      await expect(rentalCore.connect(landlord).registerProperty(dataHash, floorArea))
         .to.be.revertedWith("Pausable: paused");
     });
 
@@ -231,7 +1530,7 @@ describe("RentalCore", function () {
       await rentalCore.connect(admin).resumeOperation();
       
       const dataHash = ethers.keccak256(ethers.toUtf8Bytes("property_data"));
-      await expect(rentalCore.connect(landlord).registerProperty(dataHash))
+      await expect(rentalCore.connect(landlord).registerProperty(dataHash, floorArea))
         .to.emit(rentalCore, "PropertyRegistered");
     });
   });
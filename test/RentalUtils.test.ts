@@ -137,6 +137,54 @@ describe("RentalUtils", function () {
     });
   });
 
+  describe("Billing Schedule", function () {
+    const utc = (y: number, m: number, d: number, h = 0) => Date.UTC(y, m - 1, d, h) / 1000;
+    const rent = ethers.parseEther("3100");
+
+    it("Should place boundaries on the due day", async function () {
+      const startDate = utc(2025, 1, 15, 12);
+
+      expect(await rentalUtils.calculateBillingBoundary(startDate, 10, 0)).to.equal(utc(2025, 1, 10));
+      expect(await rentalUtils.calculateBillingBoundary(startDate, 10, 1)).to.equal(utc(2025, 2, 10));
+      expect(await rentalUtils.calculateBillingBoundary(startDate, 10, 12)).to.equal(utc(2026, 1, 10));
+    });
+
+    it("Should anchor boundaries to the start date without a due day", async function () {
+      const startDate = utc(2024, 1, 31, 9);
+
+      expect(await rentalUtils.calculateBillingBoundary(startDate, 0, 1)).to.equal(utc(2024, 2, 29, 9));
+      expect(await rentalUtils.calculateBillingBoundary(startDate, 0, 2)).to.equal(utc(2024, 3, 31, 9));
+    });
+
+    it("Should pro-rate the first and last months", async function () {
+      const startDate = utc(2025, 1, 15);
+      const endDate = utc(2025, 3, 20);
+
+      // 15 Jan - 10 Feb: 26 of 31 days
+      const [firstDue, firstAmount] = await rentalUtils.calculateInstallment(startDate, endDate, rent, 10, 0);
+      expect(firstDue).to.equal(startDate);
+      expect(firstAmount).to.equal(rent * 26n / 31n);
+
+      // 10 Feb - 10 Mar: full month
+      const [secondDue, secondAmount] = await rentalUtils.calculateInstallment(startDate, endDate, rent, 10, 1);
+      expect(secondDue).to.equal(utc(2025, 2, 10));
+      expect(secondAmount).to.equal(rent);
+
+      // 10 Mar - 20 Mar: 10 of 31 days
+      const [, lastAmount] = await rentalUtils.calculateInstallment(startDate, endDate, rent, 10, 2);
+      expect(lastAmount).to.equal(rent * 10n / 31n);
+
+      const [pastDue, pastAmount] = await rentalUtils.calculateInstallment(startDate, endDate, rent, 10, 3);
+      expect(pastDue).to.equal(0);
+      expect(pastAmount).to.equal(0);
+    });
+
+    it("Should reject due days past the 28th", async function () {
+      await expect(rentalUtils.calculateBillingBoundary(utc(2025, 1, 15), 29, 0))
+        .to.be.revertedWith("Invalid due day");
+    });
+  });
+
   describe("Rent Amount Validation", function () {
     it("Should validate correct rent amount", async function () {
       const rentAmount = ethers.parseEther("2000"); // 2000 PLN